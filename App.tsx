@@ -1,66 +1,109 @@
 
 import React, { useState, useEffect, useMemo, useId, useRef } from 'react';
-import { translateWithSlangStream, speakText } from './services/geminiService';
-import { TranslationResult, LANGUAGES, SlangDetail, THEMES, ThemeType, ThemeConfig, HistoryItem, VibeMode, LanguageCode } from './types';
+import { translateWithSlangStream, translateWithSlang } from './services/geminiService';
+import { getTranslationProvider } from './services/translationProvider';
+import { isAbortError, toTranslationError, TranslationError, TranslationErrorCode } from './services/errors';
+import { TranslationResult, THEMES, ThemeType, ThemeConfig, HistoryItem, TargetTranslation, TermRule, TranslationAlternative, VibeDefinition, VibeMode, LanguageCode, TranslationContext, PhrasebookEntry } from './types';
 import LanguageSelector from './components/LanguageSelector';
+import VoiceInputButton from './components/VoiceInputButton';
+import SlangChip from './components/SlangChip';
+import VibeSelector, { VibeOption } from './components/VibeSelector';
+import ConversationView from './components/ConversationView';
+import ContextPanel, { isContextEmpty } from './components/ContextPanel';
+import OfflinePanel from './components/OfflinePanel';
+import HistoryPanel from './components/HistoryPanel';
+import PhrasebookView from './components/PhrasebookView';
+import SavePhraseDialog from './components/SavePhraseDialog';
+import GlossaryView from './components/GlossaryView';
+import StudyView from './components/StudyView';
+import DataTransferPanel from './components/DataTransferPanel';
+import BatchView from './components/BatchView';
+import CompareView from './components/CompareView';
+import VerificationPanel from './components/VerificationPanel';
+import TerminologyPanel from './components/TerminologyPanel';
+import VibeEditorDialog from './components/VibeEditorDialog';
+import TargetResultCards from './components/TargetResultCards';
+import SpeechControls from './components/SpeechControls';
+import PronunciationPanel from './components/PronunciationPanel';
+import { collectOfflineCandidates, enqueueOfflineTranslation, findOfflineMatches, loadOfflineQueue, OfflineMatch, QueuedTranslation, saveOfflineQueue } from './services/offline';
+import { addHistoryItem, getRecentHistory, migrateLegacyHistory } from './services/historyStore';
+import { getAllPhrases, phraseKey } from './services/phrasebook';
+import { BUILT_IN_VIBES, DEFAULT_VIBE, getVibes, loadCustomVibes } from './services/vibes';
+import { isString, toTranslationContext } from './services/guards';
+import { isSymbolBased, supportsVibe } from './services/languages';
+import { finishedTake, finishedTargets, MAX_TARGETS, normalizeTargets, pendingTake, runConcurrently, TARGET_CONCURRENCY, TargetTake } from './services/multiTarget';
+import { checkTerminology, findApplicableRules, getTermRules } from './services/terminology';
 
-const STORAGE_KEY = 'kanto_history';
 const SETTINGS_KEY_SOURCE = 'kanto_setting_source_lang';
 const SETTINGS_KEY_TARGET = 'kanto_setting_target_lang';
+const SETTINGS_KEY_EXTRA_TARGETS = 'kanto_setting_extra_targets';
 const SETTINGS_KEY_VIBE = 'kanto_setting_vibe_mode';
+const SETTINGS_KEY_AUTO_VOICE = 'kanto_setting_auto_translate_voice';
+const SETTINGS_KEY_VIEW = 'kanto_setting_view_mode';
+const SETTINGS_KEY_CONTEXT = 'kanto_setting_context';
 
-const SlangChip: React.FC<{ detail: SlangDetail, theme: ThemeConfig, lowPerf?: boolean }> = ({ detail, theme, lowPerf }) => {
-  const [isOpen, setIsOpen] = useState(false);
-  const contentId = useId();
+const VIEW_MODES = ['translate', 'compare', 'conversation', 'batch', 'phrasebook', 'glossary', 'study'] as const;
+type ViewMode = typeof VIEW_MODES[number];
 
-  return (
-    <div className="flex flex-col w-full sm:w-auto">
-      <button
-        onClick={() => setIsOpen(!isOpen)}
-        aria-expanded={isOpen}
-        aria-controls={contentId}
-        className={`group relative px-4 py-2 rounded-2xl text-xs font-mono transition-all text-left flex items-center justify-between gap-3 border overflow-hidden focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-950 ${
-          isOpen 
-            ? `bg-${theme.id}-500/20 text-${theme.accent} border-${theme.id}-500/40 shadow-xl shadow-${theme.id}-500/10 scale-[1.02] focus:ring-${theme.primary}` 
-            : `bg-slate-800/40 text-slate-400 border-slate-800/80 hover:bg-slate-800 hover:border-slate-700 hover:text-slate-200 focus:ring-slate-500`
-        }`}
-      >
-        <span className="relative z-10 font-bold">{detail.term}</span>
-        <svg 
-          className={`relative z-10 w-3 h-3 transition-transform duration-500 ease-out ${isOpen ? 'rotate-180' : ''}`} 
-          fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"
-        >
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M19 9l-7 7-7-7" />
-        </svg>
-        {isOpen && !lowPerf && (
-          <div className={`absolute inset-0 bg-gradient-to-r from-${theme.id}-500/5 to-transparent animate-pulse`} aria-hidden="true" />
-        )}
-      </button>
-      <div 
-        id={contentId}
-        className={`grid-transition ${isOpen ? 'expanded' : ''}`}
-        aria-hidden={!isOpen}
-      >
-        <div className="grid-content">
-          <div className="mt-2 p-4 glass rounded-2xl border border-white/5 shadow-inner">
-            <p className={`text-[12px] text-slate-200 font-medium mb-2 leading-relaxed selection:bg-${theme.id}-500/40`}>
-              {detail.meaning}
-            </p>
-            <div className="flex items-start gap-2 pt-2 border-t border-white/5">
-              <span className={`text-[10px] font-black text-${theme.accent} uppercase tracking-tighter shrink-0 mt-0.5 opacity-80`}>Context:</span>
-              <p className="text-[11px] text-slate-400 italic leading-snug">
-                {detail.context}
-              </p>
-            </div>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
+const isViewMode = (value: unknown): value is ViewMode => (VIEW_MODES as readonly unknown[]).includes(value);
+
+// Settings from localStorage may predate a rename or belong to a vibe deleted since.
+const loadStoredVibe = (): VibeMode => {
+  const saved = localStorage.getItem(SETTINGS_KEY_VIBE);
+  return saved && getVibes().some(vibe => vibe.id === saved) ? saved : DEFAULT_VIBE;
+};
+
+const loadStoredView = (): ViewMode => {
+  const saved = localStorage.getItem(SETTINGS_KEY_VIEW);
+  return isViewMode(saved) ? saved : 'translate';
 };
 
-const ErrorState: React.FC<{ errorKey: string; onRetry: () => void; theme: ThemeConfig }> = ({ errorKey, onRetry, theme }) => {
-  const errorMap: Record<string, { title: string, message: string }> = {
+const loadStoredContext = (): TranslationContext => {
+  try {
+    return toTranslationContext(JSON.parse(localStorage.getItem(SETTINGS_KEY_CONTEXT) || '{}'));
+  } catch (e) {
+    return {};
+  }
+};
+
+const MAX_AUTO_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 60000;
+
+interface ErrorStateProps {
+  error: TranslationError;
+  attempt: number;
+  onRetry: () => void;
+  onAutoRetry: () => void;
+  theme: ThemeConfig;
+}
+
+const ErrorState: React.FC<ErrorStateProps> = ({ error, attempt, onRetry, onAutoRetry, theme }) => {
+  const canAutoRetry = error.retryable && attempt < MAX_AUTO_RETRIES;
+  const retryDelayMs = Math.min(error.retryAfterMs ?? RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(canAutoRetry ? Math.ceil(retryDelayMs / 1000) : null);
+
+  useEffect(() => {
+    if (!canAutoRetry) {
+      setSecondsLeft(null);
+      return;
+    }
+    const deadline = Date.now() + retryDelayMs;
+    setSecondsLeft(Math.ceil(retryDelayMs / 1000));
+    const tick = setInterval(() => {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        clearInterval(tick);
+        setSecondsLeft(null);
+        onAutoRetry();
+      } else {
+        setSecondsLeft(Math.ceil(remaining / 1000));
+      }
+    }, 250);
+    return () => clearInterval(tick);
+  }, [error, attempt]);
+
+  const errorMap: Partial<Record<TranslationErrorCode, { title: string, message: string }>> = {
     'QUOTA_EXCEEDED': {
       title: "Vibe overload",
       message: "Our AI is strictly on a budget right now. Take a quick break and try again in a few minutes."
@@ -81,6 +124,14 @@ const ErrorState: React.FC<{ errorKey: string; onRetry: () => void; theme: Theme
       title: "Vibe signal lost",
       message: "You're floating in offline space. Check your connection to get new translations."
     },
+    'MIC_DENIED': {
+      title: "Mic on mute",
+      message: "We couldn't reach your microphone. Allow mic access in your browser settings and try again."
+    },
+    'SERVER_ERROR': {
+      title: "Vibe servers sweating",
+      message: "The AI service is having a moment. We'll keep trying for you."
+    },
     'EMPTY_RESPONSE': {
       title: "Silence from the void",
       message: "The AI gave us nothing. Literally. Try entering more text!"
@@ -91,7 +142,7 @@ const ErrorState: React.FC<{ errorKey: string; onRetry: () => void; theme: Theme
     }
   };
 
-  const { title, message } = errorMap[errorKey] || errorMap['UNKNOWN_ERROR'];
+  const { title, message } = errorMap[error.code] || errorMap['UNKNOWN_ERROR']!;
 
   return (
     <div className="animate-in fade-in slide-in-from-top-4 duration-500" role="alert">
@@ -103,6 +154,11 @@ const ErrorState: React.FC<{ errorKey: string; onRetry: () => void; theme: Theme
         </div>
         <h3 className="text-red-200 font-bold mb-1 uppercase tracking-wider text-xs">{title}</h3>
         <p className="text-red-400/80 text-sm mb-4 leading-relaxed">{message}</p>
+        {secondsLeft !== null && (
+          <p className="text-[10px] font-bold uppercase tracking-widest text-red-300/70 mb-4" aria-live="polite">
+            Auto re-vibe in {secondsLeft}s (attempt {attempt + 1} of {MAX_AUTO_RETRIES})
+          </p>
+        )}
         <button 
           onClick={onRetry}
           className="px-6 py-2 rounded-xl bg-red-500/20 hover:bg-red-500/30 text-red-300 text-[10px] font-black uppercase tracking-widest transition-all border border-red-500/20 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 focus:ring-offset-slate-950"
@@ -120,51 +176,101 @@ const App: React.FC = () => {
   // Persistent state initializers
   const [sourceLang, setSourceLang] = useState<LanguageCode>(() => (localStorage.getItem(SETTINGS_KEY_SOURCE) as LanguageCode) || 'auto');
   const [targetLang, setTargetLang] = useState<LanguageCode>(() => (localStorage.getItem(SETTINGS_KEY_TARGET) as LanguageCode) || 'tl');
-  const [vibeMode, setVibeMode] = useState<VibeMode>(() => (localStorage.getItem(SETTINGS_KEY_VIBE) as VibeMode) || 'casual');
+  const [extraTargets, setExtraTargets] = useState<LanguageCode[]>(() => {
+    try {
+      const saved: unknown = JSON.parse(localStorage.getItem(SETTINGS_KEY_EXTRA_TARGETS) || '[]');
+      return Array.isArray(saved) ? saved.filter(isString) : [];
+    } catch (e) {
+      return [];
+    }
+  });
+  const [vibeMode, setVibeMode] = useState<VibeMode>(loadStoredVibe);
   
   const [result, setResult] = useState<TranslationResult | null>(null);
+  const [targetTakes, setTargetTakes] = useState<TargetTake[]>([]);
   const [streamingText, setStreamingText] = useState('');
+  const [streamingTransliteration, setStreamingTransliteration] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isStreaming, setIsStreaming] = useState(false);
-  const [errorKey, setErrorKey] = useState<string | null>(null);
+  const [error, setError] = useState<TranslationError | null>(null);
+  const [retryAttempt, setRetryAttempt] = useState(0);
+  const [isFromCache, setIsFromCache] = useState(false);
+  const [offlineMatches, setOfflineMatches] = useState<OfflineMatch[] | null>(null);
+  const [offlineQueue, setOfflineQueue] = useState<QueuedTranslation[]>(loadOfflineQueue);
+  const [isProcessingQueue, setIsProcessingQueue] = useState(false);
   const [isCopied, setIsCopied] = useState(false);
   const [activeThemeId, setActiveThemeId] = useState<ThemeType>('indigo');
   const [lowPerf, setLowPerf] = useState(false);
-  const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [phrasebookVersion, setPhrasebookVersion] = useState(0);
+  const [savedPhraseKeys, setSavedPhraseKeys] = useState<Set<string>>(new Set());
+  const [savingPhrase, setSavingPhrase] = useState<{ item: HistoryItem; entry?: PhrasebookEntry } | null>(null);
+  const [customVibes, setCustomVibes] = useState<VibeDefinition[]>(loadCustomVibes);
+  const [isEditingVibes, setIsEditingVibes] = useState(false);
+  const [termRules, setTermRules] = useState<TermRule[]>([]);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
-  const [isConfirmingClear, setIsConfirmingClear] = useState(false);
   const [showPhonetic, setShowPhonetic] = useState(true);
+  const [isPronouncing, setIsPronouncing] = useState(false);
+  const [viewMode, setViewMode] = useState<ViewMode>(loadStoredView);
+  const [translationContext, setTranslationContext] = useState<TranslationContext>(loadStoredContext);
+  const [autoTranslateVoice, setAutoTranslateVoice] = useState(() => localStorage.getItem(SETTINGS_KEY_AUTO_VOICE) !== 'false');
 
   const lastTranslatedState = useRef<{
     text: string;
     source: string;
     target: string;
+    extraTargets: string;
     vibe: VibeMode;
+    context: string;
   } | null>(null);
 
+  // The in-flight translation; starting a new one or pressing Stop aborts it.
+  const activeRequest = useRef<AbortController | null>(null);
+  // The queued request whose result should replace the offline panel once it lands.
+  const awaitedQueueId = useRef<string | null>(null);
+
   const theme = useMemo(() => THEMES.find(t => t.id === activeThemeId) || THEMES[0], [activeThemeId]);
+  const provider = getTranslationProvider();
+  const needsNetwork = provider.capabilities.requiresNetwork;
   const inputAreaId = useId();
 
-  const isTargetSymbolBased = useMemo(() => {
-    return LANGUAGES.find(l => l.code === targetLang)?.isSymbolBased;
-  }, [targetLang]);
+  const targets: LanguageCode[] = useMemo(() => normalizeTargets(targetLang, extraTargets), [targetLang, extraTargets]);
+  const extraTargetsKey = targets.slice(1).join(',');
+
+  const isTargetSymbolBased = useMemo(() => targets.some(isSymbolBased), [targets]);
+
+  // A built-in vibe that does not fit a new target (e.g. Taglish into Waray) falls back to the default.
+  useEffect(() => {
+    if (!targets.every(t => supportsVibe(t, vibeMode))) setVibeMode(DEFAULT_VIBE);
+  }, [targets]);
 
   // Save settings when changed
   useEffect(() => {
     localStorage.setItem(SETTINGS_KEY_SOURCE, sourceLang);
     localStorage.setItem(SETTINGS_KEY_TARGET, targetLang);
+    localStorage.setItem(SETTINGS_KEY_EXTRA_TARGETS, JSON.stringify(extraTargets));
     localStorage.setItem(SETTINGS_KEY_VIBE, vibeMode);
-  }, [sourceLang, targetLang, vibeMode]);
+    localStorage.setItem(SETTINGS_KEY_AUTO_VOICE, String(autoTranslateVoice));
+    localStorage.setItem(SETTINGS_KEY_VIEW, viewMode);
+    localStorage.setItem(SETTINGS_KEY_CONTEXT, JSON.stringify(translationContext));
+  }, [sourceLang, targetLang, extraTargets, vibeMode, autoTranslateVoice, viewMode, translationContext]);
 
   useEffect(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
-      try {
-        setHistory(JSON.parse(saved));
-      } catch (e) {
-        console.error("Failed to parse history", e);
-      }
-    }
+    saveOfflineQueue(offlineQueue);
+  }, [offlineQueue]);
+
+  useEffect(() => {
+    getAllPhrases().then(entries => setSavedPhraseKeys(new Set(entries.map(e => phraseKey(e.item)))));
+  }, [phrasebookVersion]);
+
+  // Replay anything queued while offline as soon as the connection returns.
+  useEffect(() => {
+    if (isOnline && offlineQueue.length > 0) processOfflineQueue();
+  }, [isOnline]);
+
+  useEffect(() => {
+    migrateLegacyHistory().then(() => setHistoryVersion(v => v + 1));
+    getTermRules().then(setTermRules);
 
     const handleOnline = () => setIsOnline(true);
     const handleOffline = () => setIsOnline(false);
@@ -175,102 +281,278 @@ const App: React.FC = () => {
     return () => {
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
+      activeRequest.current?.abort();
     };
   }, []);
 
   const updateHistory = (newItem: HistoryItem) => {
-    const newHistory = [newItem, ...history].slice(0, 20);
-    setHistory(newHistory);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(newHistory));
+    addHistoryItem(newItem).then(() => setHistoryVersion(v => v + 1));
   };
 
-  const handleClearHistory = () => {
-    setHistory([]);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify([]));
+  const handleTermsChanged = async () => {
+    setTermRules(await getTermRules());
+    // New rules should apply to the next translation of the same text.
     lastTranslatedState.current = null;
-    setIsConfirmingClear(false);
   };
 
-  const handleTranslate = async () => {
-    const textToTranslate = inputText.trim();
+  // Called after the panel clears or trims the store.
+  const handleHistoryChanged = async () => {
+    const items = await getRecentHistory(1);
+    if (items.length === 0) lastTranslatedState.current = null;
+    setHistoryVersion(v => v + 1);
+  };
+
+  const handleTranslate = async (overrideText?: string, { attempt = 0, bypassCache = false } = {}) => {
+    const textToTranslate = (overrideText ?? inputText).trim();
     if (!textToTranslate) return;
+    const context = isContextEmpty(translationContext) ? undefined : translationContext;
+    const contextKey = context ? JSON.stringify(context) : '';
 
     if (
       lastTranslatedState.current &&
       lastTranslatedState.current.text === textToTranslate &&
       lastTranslatedState.current.source === sourceLang &&
       lastTranslatedState.current.target === targetLang &&
-      lastTranslatedState.current.vibe === vibeMode
+      lastTranslatedState.current.extraTargets === extraTargetsKey &&
+      lastTranslatedState.current.vibe === vibeMode &&
+      lastTranslatedState.current.context === contextKey
     ) {
-      if (result) return;
+      if (result && !bypassCache) return;
     }
 
-    if (!isOnline) {
-      setErrorKey('OFFLINE');
+    // Offline, only the cache can answer; a miss surfaces as OFFLINE.
+    const cacheOnly = !isOnline && needsNetwork;
+    if (cacheOnly && bypassCache) {
+      setError(new TranslationError('OFFLINE'));
       return;
     }
+
+    activeRequest.current?.abort();
+    const controller = new AbortController();
+    activeRequest.current = controller;
+    setRetryAttempt(attempt);
     
     setIsLoading(true);
     setIsStreaming(true);
     setStreamingText('');
+    setStreamingTransliteration('');
     setResult(null);
-    setErrorKey(null);
+    setTargetTakes(targets.slice(1).map(pendingTake));
+    setIsFromCache(false);
+    setOfflineMatches(null);
+    awaitedQueueId.current = null;
+    setError(null);
 
-    try {
-      const finalResult = await translateWithSlangStream(
-        textToTranslate, 
-        sourceLang, 
-        targetLang, 
-        vibeMode,
-        (chunk) => {
-          setStreamingText(chunk);
-          setIsLoading(false);
+    const options = { context, signal: controller.signal, bypassCache, cacheOnly };
+
+    const translatePrimary = async (): Promise<TranslationResult | null> => {
+      let fromCache = false;
+      try {
+        const finalResult = await translateWithSlangStream(
+          textToTranslate, 
+          sourceLang, 
+          targetLang, 
+          vibeMode,
+          (partial) => {
+            if (partial.translatedText === undefined) return;
+            setStreamingText(partial.translatedText);
+            setStreamingTransliteration(partial.transliteration || '');
+            setIsLoading(false);
+          },
+          { ...options, alternatives: true, onCacheHit: () => { fromCache = true; } }
+        );
+
+        lastTranslatedState.current = {
+          text: textToTranslate,
+          source: sourceLang,
+          target: targetLang,
+          extraTargets: extraTargetsKey,
+          vibe: vibeMode,
+          context: contextKey
+        };
+        setResult(finalResult);
+        setIsFromCache(fromCache);
+        setStreamingText('');
+        return finalResult;
+      } catch (err) {
+        if (isAbortError(err)) throw err;
+        const translationError = toTranslationError(err);
+        if (cacheOnly && translationError.code === 'OFFLINE') {
+          await showOfflineFallback(textToTranslate, context);
+        } else {
+          setError(translationError);
         }
-      );
-
-      setResult(finalResult);
-      setStreamingText('');
-      
-      const newItem = {
-        id: crypto.randomUUID(),
-        timestamp: Date.now(),
-        inputText: textToTranslate,
-        sourceLang,
-        targetLang,
-        vibeMode,
-        result: finalResult
-      };
-      
-      updateHistory(newItem);
-      
-      lastTranslatedState.current = {
-        text: textToTranslate,
-        source: sourceLang,
-        target: targetLang,
-        vibe: vibeMode
+        return null;
+      }
+    };
+
+    const translateExtra = async (lang: LanguageCode): Promise<TargetTranslation | null> => {
+      const updateTake = (patch: Partial<TargetTake>) => {
+        if (controller.signal.aborted) return;
+        setTargetTakes(prev => prev.map(take => (take.targetLang === lang ? { ...take, ...patch } : take)));
       };
-    } catch (err: any) {
-      setErrorKey(err.message || 'UNKNOWN_ERROR');
+      updateTake({ status: 'streaming' });
+      try {
+        const extraResult = await translateWithSlangStream(
+          textToTranslate,
+          sourceLang,
+          lang,
+          vibeMode,
+          (partial) => {
+            if (partial.translatedText === undefined) return;
+            updateTake({ text: partial.translatedText, transliteration: partial.transliteration || '' });
+          },
+          options
+        );
+        updateTake(finishedTake({ targetLang: lang, result: extraResult }));
+        return { targetLang: lang, result: extraResult };
+      } catch (err) {
+        if (isAbortError(err)) throw err;
+        updateTake({ status: 'error', errorCode: toTranslationError(err).code });
+        return null;
+      }
+    };
+
+    try {
+      // One fan-out for every target; the main one goes first so it gets the first slot.
+      let primary = null as TranslationResult | null;
+      const extras: (TargetTranslation | null)[] = [];
+      await runConcurrently(targets, TARGET_CONCURRENCY, async (lang, index) => {
+        if (index === 0) primary = await translatePrimary();
+        else extras[index - 1] = await translateExtra(lang);
+      });
+
+      // Saved whenever any target succeeded; if the main one failed, the first success leads.
+      const done = [
+        ...(primary ? [{ targetLang, result: primary }] : []),
+        ...extras.filter((t): t is TargetTranslation => !!t),
+      ];
+      if (done.length > 0) {
+        const [main, ...rest] = done;
+        updateHistory({
+          id: crypto.randomUUID(),
+          timestamp: Date.now(),
+          inputText: textToTranslate,
+          sourceLang,
+          targetLang: main.targetLang,
+          vibeMode,
+          result: main.result,
+          targets: rest.length > 0 ? rest : undefined,
+        });
+      }
+    } catch (err) {
+      if (!isAbortError(err)) throw err;
     } finally {
-      setIsLoading(false);
-      setIsStreaming(false);
+      // A superseding request owns the loading state from here on.
+      if (activeRequest.current === controller) {
+        activeRequest.current = null;
+        setIsLoading(false);
+        setIsStreaming(false);
+      }
     }
   };
 
+  const showOfflineFallback = async (text: string, context?: TranslationContext) => {
+    const candidates = await collectOfflineCandidates();
+    setOfflineMatches(findOfflineMatches(text, sourceLang, targetLang, vibeMode, candidates));
+    setOfflineQueue(prev => {
+      const extras = targets.slice(1);
+      const next = enqueueOfflineTranslation(prev, {
+        text, sourceLang, targetLang, extraTargets: extras.length > 0 ? extras : undefined, vibeMode, context
+      });
+      awaitedQueueId.current = next[next.length - 1]?.id ?? null;
+      return next;
+    });
+  };
+
+  const applyOfflineMatch = (match: OfflineMatch) => {
+    setResult(match.result);
+    setIsFromCache(true);
+    setOfflineMatches(null);
+    awaitedQueueId.current = null;
+  };
+
+  const processOfflineQueue = async () => {
+    if (isProcessingQueue) return;
+    setIsProcessingQueue(true);
+    try {
+      for (const item of loadOfflineQueue()) {
+        if (!navigator.onLine) break;
+        try {
+          const queuedResult = await translateWithSlang(item.text, item.sourceLang, item.targetLang, item.vibeMode, { context: item.context, alternatives: true });
+          // The other targets are best effort, as in handleTranslate; the main one decides whether the item stays queued.
+          const extras: (TargetTranslation | null)[] = [];
+          await runConcurrently(item.extraTargets || [], TARGET_CONCURRENCY, async (lang, index) => {
+            try {
+              extras[index] = { targetLang: lang, result: await translateWithSlang(item.text, item.sourceLang, lang, item.vibeMode, { context: item.context }) };
+            } catch (err) {
+              console.error("Failed to replay queued target", lang, toTranslationError(err).code);
+              extras[index] = null;
+            }
+          });
+          const extraResults = extras.filter((t): t is TargetTranslation => !!t);
+          updateHistory({
+            id: crypto.randomUUID(),
+            timestamp: Date.now(),
+            inputText: item.text,
+            sourceLang: item.sourceLang,
+            targetLang: item.targetLang,
+            vibeMode: item.vibeMode,
+            result: queuedResult,
+            targets: extraResults.length > 0 ? extraResults : undefined,
+          });
+          if (awaitedQueueId.current === item.id) {
+            awaitedQueueId.current = null;
+            setResult(queuedResult);
+            setTargetTakes(extraResults.map(finishedTake));
+            setIsFromCache(false);
+            setOfflineMatches(null);
+          }
+        } catch (err) {
+          const { code, retryable } = toTranslationError(err);
+          // Leave the rest queued for the next time the connection comes back.
+          if (code === 'OFFLINE' || retryable) break;
+          console.error("Dropping queued translation", code, item);
+        }
+        setOfflineQueue(prev => prev.filter(q => q.id !== item.id));
+      }
+    } finally {
+      setIsProcessingQueue(false);
+    }
+  };
+
+  const cancelTranslation = () => {
+    if (!activeRequest.current) return;
+    activeRequest.current.abort();
+    activeRequest.current = null;
+    setIsLoading(false);
+    setIsStreaming(false);
+    setStreamingText('');
+    setStreamingTransliteration('');
+    setTargetTakes(prev => prev.filter(take => take.status === 'done' || take.status === 'error'));
+  };
+
   const restoreFromHistory = (item: HistoryItem) => {
+    cancelTranslation();
+    setViewMode('translate');
     setInputText(item.inputText);
     setSourceLang(item.sourceLang as LanguageCode);
     setTargetLang(item.targetLang as LanguageCode);
+    setExtraTargets((item.targets || []).map(t => t.targetLang));
     setVibeMode(item.vibeMode);
     setResult(item.result);
+    setTargetTakes((item.targets || []).map(finishedTake));
+    setIsFromCache(false);
     setStreamingText('');
-    setErrorKey(null);
+    setError(null);
     
     lastTranslatedState.current = {
       text: item.inputText,
       source: item.sourceLang,
       target: item.targetLang,
-      vibe: item.vibeMode
+      extraTargets: (item.targets || []).map(t => t.targetLang).join(','),
+      vibe: item.vibeMode,
+      context: isContextEmpty(translationContext) ? '' : JSON.stringify(translationContext)
     };
 
     window.scrollTo({ top: 0, behavior: 'smooth' });
@@ -283,6 +565,24 @@ const App: React.FC = () => {
     setTargetLang(oldSource);
   };
 
+  const doneTargets = useMemo(() => finishedTargets(targetTakes), [targetTakes]);
+
+  // The translation on screen, shaped like a history entry so it can be starred.
+  const currentItem = useMemo<HistoryItem | null>(() => {
+    const last = lastTranslatedState.current;
+    if (!result || !last) return null;
+    return {
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      inputText: last.text,
+      sourceLang: last.source,
+      targetLang: last.target,
+      vibeMode: last.vibe,
+      result,
+      targets: doneTargets.length > 0 ? doneTargets : undefined,
+    };
+  }, [result, doneTargets]);
+
   const copyToClipboard = () => {
     if (result) {
       const textToCopy = showPhonetic && result.transliteration 
@@ -294,10 +594,10 @@ const App: React.FC = () => {
     }
   };
 
-  const handleSpeak = () => {
-    if (result && isOnline) {
-      speakText(result.translatedText);
-    }
+  const handleTranscript = (transcript: string) => {
+    setInputText(transcript);
+    setError(null);
+    if (autoTranslateVoice) handleTranslate(transcript);
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
@@ -307,23 +607,56 @@ const App: React.FC = () => {
     }
   };
 
-  const vibeOptions: { id: VibeMode; label: string; desc: string }[] = [
-    { id: 'formal', label: 'Proper', desc: 'Textbook / Formal' },
-    { id: 'casual', label: 'Real Talk', desc: 'Fast & Natural' },
-    { id: 'taglish', label: 'Urban Mix', desc: 'Manila / Taglish' },
-  ];
-
-  const currentAlternatives = useMemo(() => {
-    const currentInput = inputText.trim();
-    if (!currentInput) return [];
-    return history.filter(item => 
-      item.inputText.toLowerCase() === currentInput.toLowerCase() && 
-      item.sourceLang === sourceLang && 
-      item.targetLang === targetLang &&
-      item.vibeMode === vibeMode &&
-      item.result.translatedText !== result?.translatedText
-    );
-  }, [inputText, history, sourceLang, targetLang, vibeMode, result]);
+  const vibeOptions: VibeOption[] = useMemo(
+    () => [...BUILT_IN_VIBES, ...customVibes].map(vibe => ({ id: vibe.id, label: vibe.name, desc: vibe.description })),
+    [customVibes]
+  );
+
+  const targetVibeOptions = useMemo(
+    () => vibeOptions.filter(option => targets.every(t => supportsVibe(t, option.id))),
+    [vibeOptions, targets]
+  );
+
+  const handleVibesChanged = (next: VibeDefinition[], savedId?: VibeMode) => {
+    setCustomVibes(next);
+    // Edited instructions should produce a fresh translation, not the "already translated" no-op.
+    lastTranslatedState.current = null;
+    if (savedId) setVibeMode(savedId);
+    else if (!BUILT_IN_VIBES.some(v => v.id === vibeMode) && !next.some(v => v.id === vibeMode)) setVibeMode(DEFAULT_VIBE);
+  };
+
+  const phoneticToggle = (
+    <button 
+      onClick={() => setShowPhonetic(!showPhonetic)}
+      className={`flex items-center gap-2 px-3 py-1 rounded-full border transition-all ${showPhonetic ? `bg-${theme.id}-500/10 border-${theme.id}-500/30 text-${theme.accent}` : 'bg-slate-800/40 border-white/5 text-slate-500'}`}
+    >
+      <span className="text-[9px] font-black uppercase tracking-widest">{showPhonetic ? 'Symbols + Phonetic' : 'Symbols Only'}</span>
+      <div className={`w-2 h-2 rounded-full ${showPhonetic ? `bg-${theme.accent}` : 'bg-slate-600'}`} />
+    </button>
+  );
+
+  // Swaps an alternative into the main slot; the old main translation becomes the top alternative.
+  const promoteAlternative = (index: number) => {
+    if (!result?.alternatives?.[index]) return;
+    const chosen = result.alternatives[index];
+    const demoted: TranslationAlternative = {
+      translatedText: result.translatedText,
+      transliteration: result.transliteration,
+      vibe: result.vibe,
+      note: result.explanation,
+    };
+    const last = lastTranslatedState.current;
+    const rules = last ? findApplicableRules(termRules, last.text, last.source, last.target) : [];
+    setResult({
+      ...result,
+      translatedText: chosen.translatedText,
+      transliteration: chosen.transliteration,
+      vibe: chosen.vibe,
+      explanation: chosen.note || result.explanation,
+      alternatives: [demoted, ...result.alternatives.filter((_, i) => i !== index)],
+      termViolations: rules.length ? checkTerminology(chosen.translatedText, rules) : undefined,
+    });
+  };
 
   return (
     <div className={`min-h-screen bg-slate-950 text-slate-200 selection:bg-${theme.id}-500/30 transition-colors duration-700 ${lowPerf ? 'low-perf-mode' : ''}`}>
@@ -345,7 +678,7 @@ const App: React.FC = () => {
                 <svg className="w-3 h-3 text-slate-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M18.364 5.636a9 9 0 010 12.728m0 0l-2.829-2.829m2.829 2.829L21 21M15.536 8.464a5 5 0 010 7.072m0 0l-2.828-2.828m-4.243 4.243a9 9 0 01-12.728 0m.707-12.021a9 9 0 0112.728 0M5.636 18.364a9 9 0 010-12.728m12.728 0L5.636 18.364" />
                 </svg>
-                <span className="text-[9px] font-bold text-slate-500 uppercase tracking-widest">Offline Mode</span>
+                <span className="text-[9px] font-bold text-slate-500 uppercase tracking-widest">Offline Mode{offlineQueue.length > 0 ? ` · ${offlineQueue.length} queued` : ''}</span>
               </div>
             )}
           </div>
@@ -392,273 +725,500 @@ const App: React.FC = () => {
           </p>
         </header>
 
-        <div className="grid gap-8">
-          <div className={`bg-slate-900/40 ${!lowPerf ? 'backdrop-blur-3xl' : ''} border border-white/5 rounded-[2.5rem] p-6 lg:p-10 shadow-2xl relative overflow-hidden group`}>
-            {!lowPerf && (
-              <div className="absolute top-0 -left-[100%] w-full h-full bg-gradient-to-r from-transparent via-white/[0.03] to-transparent skew-x-[-25deg] transition-all duration-1000 group-hover:left-[100%]" aria-hidden="true" />
-            )}
-            
-            <div className="flex flex-col md:flex-row items-center gap-4 mb-10">
-              <LanguageSelector label="Translate from" value={sourceLang} onChange={(v) => { setSourceLang(v as LanguageCode); setErrorKey(null); }} />
-              <button 
-                onClick={swapLanguages}
-                disabled={sourceLang === 'auto'}
-                aria-label="Swap languages"
-                className={`mt-6 md:mt-4 p-4 rounded-2xl bg-slate-800/40 border border-white/5 transition-all group/swap hover:scale-110 active:scale-90 focus:outline-none focus:ring-2 focus:ring-${theme.primary} focus:ring-offset-2 focus:ring-offset-slate-950 ${sourceLang === 'auto' ? 'opacity-20 cursor-not-allowed' : 'hover:bg-slate-700/60'}`}
+        <div className="flex justify-center mb-8">
+          <div className="inline-flex flex-wrap justify-center items-center gap-1 glass p-1.5 rounded-2xl" role="tablist" aria-label="Translator mode">
+            {([['translate', 'Translate'], ['compare', 'Compare'], ['conversation', 'Conversation'], ['batch', 'Batch'], ['phrasebook', 'Phrasebook'], ['glossary', 'Glossary'], ['study', 'Study']] as [ViewMode, string][]).map(([mode, label]) => (
+              <button
+                key={mode}
+                role="tab"
+                aria-selected={viewMode === mode}
+                onClick={() => setViewMode(mode)}
+                className={`px-5 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${
+                  viewMode === mode
+                    ? `bg-${theme.id}-500/20 text-white shadow-lg shadow-${theme.id}-500/10`
+                    : 'text-slate-500 hover:text-slate-200'
+                }`}
               >
-                <svg className={`w-6 h-6 text-slate-400 group-hover/swap:text-${theme.accent} group-hover/swap:rotate-180 transition-all duration-700`} fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
-                </svg>
+                {label}
               </button>
-              <LanguageSelector label="Translate to" value={targetLang} onChange={(v) => { setTargetLang(v as LanguageCode); setErrorKey(null); }} />
-            </div>
+            ))}
+          </div>
+        </div>
 
-            <div className="mb-10">
-              <div className="flex items-center justify-between mb-4 px-1">
-                <div className="flex items-center gap-2">
-                  <span className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500">Select Vibe</span>
-                  <div className={`w-1.5 h-1.5 rounded-full bg-${theme.accent}`} />
-                </div>
-                
-                {isTargetSymbolBased && (
-                  <button 
-                    onClick={() => setShowPhonetic(!showPhonetic)}
-                    className={`flex items-center gap-2 px-3 py-1 rounded-full border transition-all ${showPhonetic ? `bg-${theme.id}-500/10 border-${theme.id}-500/30 text-${theme.accent}` : 'bg-slate-800/40 border-white/5 text-slate-500'}`}
-                  >
-                    <span className="text-[9px] font-black uppercase tracking-widest">{showPhonetic ? 'Symbols + Phonetic' : 'Symbols Only'}</span>
-                    <div className={`w-2 h-2 rounded-full ${showPhonetic ? `bg-${theme.accent}` : 'bg-slate-600'}`} />
-                  </button>
+        <div className="grid gap-8">
+          {viewMode === 'conversation' ? (
+            <ConversationView
+              vibeMode={vibeMode}
+              theme={theme}
+              lowPerf={lowPerf}
+              showPhonetic={showPhonetic}
+              canTranslate={isOnline || !needsNetwork}
+              controls={
+                <VibeSelector
+                  options={vibeOptions}
+                  value={vibeMode}
+                  onChange={setVibeMode}
+                  theme={theme}
+                  accessory={phoneticToggle}
+                  onEdit={() => setIsEditingVibes(true)}
+                />
+              }
+            />
+          ) : viewMode === 'compare' ? (
+            <CompareView
+              inputText={inputText}
+              onInputChange={setInputText}
+              sourceLang={sourceLang}
+              targetLang={targetLang}
+              onSourceLangChange={setSourceLang}
+              onTargetLangChange={setTargetLang}
+              vibeOptions={targetVibeOptions}
+              context={isContextEmpty(translationContext) ? undefined : translationContext}
+              theme={theme}
+              lowPerf={lowPerf}
+              showPhonetic={showPhonetic}
+              canTranslate={isOnline || !needsNetwork}
+              isSaved={(item) => savedPhraseKeys.has(phraseKey(item))}
+              onSave={(item) => setSavingPhrase({ item })}
+              onPick={(item) => {
+                updateHistory(item);
+                restoreFromHistory(item);
+              }}
+            />
+          ) : viewMode === 'batch' ? (
+            <BatchView
+              sourceLang={sourceLang}
+              targetLang={targetLang}
+              onSourceLangChange={setSourceLang}
+              onTargetLangChange={setTargetLang}
+              vibeMode={vibeMode}
+              theme={theme}
+              lowPerf={lowPerf}
+              canTranslate={isOnline || !needsNetwork}
+              controls={
+                <VibeSelector
+                  options={targetVibeOptions}
+                  value={vibeMode}
+                  onChange={setVibeMode}
+                  theme={theme}
+                  onEdit={() => setIsEditingVibes(true)}
+                />
+              }
+            />
+          ) : viewMode === 'study' ? (
+            <StudyView
+              theme={theme}
+              lowPerf={lowPerf}
+              canSpeak={provider.capabilities.tts && (isOnline || !needsNetwork)}
+              refreshKey={historyVersion + phrasebookVersion}
+            />
+          ) : viewMode === 'glossary' ? (
+            <GlossaryView
+              theme={theme}
+              lowPerf={lowPerf}
+              vibeOptions={vibeOptions}
+              refreshKey={historyVersion + phrasebookVersion}
+              onRestore={restoreFromHistory}
+            />
+          ) : viewMode === 'phrasebook' ? (
+            <PhrasebookView
+              theme={theme}
+              lowPerf={lowPerf}
+              showPhonetic={showPhonetic}
+              refreshKey={phrasebookVersion}
+              onRestore={restoreFromHistory}
+              onEdit={(entry) => setSavingPhrase({ item: entry.item, entry })}
+              onChanged={() => setPhrasebookVersion(v => v + 1)}
+            />
+          ) : (
+            <>
+              <div className={`bg-slate-900/40 ${!lowPerf ? 'backdrop-blur-3xl' : ''} border border-white/5 rounded-[2.5rem] p-6 lg:p-10 shadow-2xl relative overflow-hidden group`}>
+                {!lowPerf && (
+                  <div className="absolute top-0 -left-[100%] w-full h-full bg-gradient-to-r from-transparent via-white/[0.03] to-transparent skew-x-[-25deg] transition-all duration-1000 group-hover:left-[100%]" aria-hidden="true" />
                 )}
-              </div>
-              <div className="grid grid-cols-3 gap-3">
-                {vibeOptions.map((opt) => (
-                  <button
-                    key={opt.id}
-                    onClick={() => { setVibeMode(opt.id); setErrorKey(null); }}
-                    className={`flex flex-col items-center justify-center p-4 rounded-2xl border transition-all relative overflow-hidden ${
-                      vibeMode === opt.id
-                        ? `bg-${theme.id}-500/20 border-${theme.id}-500/50 text-white shadow-lg shadow-${theme.id}-500/10`
-                        : 'bg-slate-800/40 border-white/5 text-slate-400 hover:bg-slate-800/60 hover:text-slate-200'
-                    }`}
+            
+                <div className="flex flex-col md:flex-row items-center gap-4 mb-10">
+                  <LanguageSelector label="Translate from" allowAuto value={sourceLang} onChange={(v) => { setSourceLang(v as LanguageCode); setError(null); }} />
+                  <button 
+                    onClick={swapLanguages}
+                    disabled={sourceLang === 'auto'}
+                    aria-label="Swap languages"
+                    className={`mt-6 md:mt-4 p-4 rounded-2xl bg-slate-800/40 border border-white/5 transition-all group/swap hover:scale-110 active:scale-90 focus:outline-none focus:ring-2 focus:ring-${theme.primary} focus:ring-offset-2 focus:ring-offset-slate-950 ${sourceLang === 'auto' ? 'opacity-20 cursor-not-allowed' : 'hover:bg-slate-700/60'}`}
                   >
-                    <span className="text-xs font-black uppercase tracking-widest mb-1">{opt.label}</span>
-                    <span className="text-[9px] font-medium opacity-60 text-center leading-none">{opt.desc}</span>
-                    {vibeMode === opt.id && (
-                      <div className={`absolute bottom-0 left-0 right-0 h-1 bg-${theme.accent} animate-in slide-in-from-bottom-1 duration-300`} />
-                    )}
+                    <svg className={`w-6 h-6 text-slate-400 group-hover/swap:text-${theme.accent} group-hover/swap:rotate-180 transition-all duration-700`} fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+                    </svg>
                   </button>
-                ))}
-              </div>
-            </div>
-
-            <div className="relative">
-              <textarea
-                id={inputAreaId}
-                value={inputText}
-                onChange={(e) => { setInputText(e.target.value); setErrorKey(null); }}
-                onKeyDown={handleKeyDown}
-                placeholder="What's on your mind?..."
-                className={`w-full bg-slate-950/40 border border-slate-800/50 text-slate-100 rounded-[2rem] p-8 h-48 focus:outline-none focus:ring-2 focus:ring-${theme.id}-500/20 transition-all resize-none text-xl leading-relaxed placeholder:text-slate-700 placeholder:italic`}
-              />
-              <div className="absolute bottom-6 left-8">
-                 <p className="text-[9px] text-slate-500 font-bold uppercase tracking-[0.2em] opacity-40">Enter to Vibe / Shift+Enter for New Line</p>
-              </div>
-              <button
-                onClick={handleTranslate}
-                disabled={isLoading || isStreaming || !inputText.trim() || (!isOnline && vibeMode !== 'formal')}
-                className={`absolute bottom-6 right-6 px-10 py-4 rounded-2xl font-black transition-all shadow-2xl flex items-center gap-3 overflow-hidden group/btn ${
-                  isLoading || isStreaming || !inputText.trim() 
-                    ? 'bg-slate-800 text-slate-600 cursor-not-allowed border-transparent' 
-                    : `bg-${theme.primary} hover:bg-${theme.secondary} text-white hover:scale-105 active:scale-95 border-b-4 border-${theme.id}-700`
-                }`}
-              >
-                {isLoading || isStreaming ? (
-                  <>
-                    <svg className="animate-spin h-5 w-5 text-white" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
-                    <span className="uppercase tracking-widest text-xs">{isStreaming ? "Vibing..." : "Checking..."}</span>
-                  </>
-                ) : (
-                  <>
-                    <span className="uppercase tracking-[0.2em] text-xs">Vibe Check</span>
-                    <svg className="w-5 h-5 transition-transform group-hover/btn:translate-x-1" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M13 7l5 5m0 0l-5 5m5-5H6" /></svg>
-                  </>
-                )}
-              </button>
-            </div>
-          </div>
+                  <LanguageSelector
+                    label="Translate to"
+                    value={targetLang}
+                    onChange={(v) => { setTargetLang(v as LanguageCode); setError(null); }}
+                    multiple
+                    values={targets}
+                    maxValues={MAX_TARGETS}
+                    onValuesChange={(values) => {
+                      setTargetLang(values[0]);
+                      setExtraTargets(values.slice(1));
+                      setError(null);
+                    }}
+                  />
+                </div>
 
-          {errorKey && <ErrorState errorKey={errorKey} onRetry={handleTranslate} theme={theme} />}
+                <VibeSelector
+                  options={targetVibeOptions}
+                  value={vibeMode}
+                  onChange={(v) => { setVibeMode(v); setError(null); }}
+                  theme={theme}
+                  accessory={isTargetSymbolBased && phoneticToggle}
+                  onEdit={() => setIsEditingVibes(true)}
+                />
 
-          {(result || streamingText) && !errorKey && (
-            <div className="animate-in fade-in slide-in-from-bottom-6 duration-700" aria-live="polite">
-              <div className={`glass border border-white/5 rounded-[3rem] overflow-hidden shadow-2xl relative`}>
-                <div className="absolute top-4 right-8">
-                  <span className={`text-[8px] font-black uppercase tracking-[0.3em] ${isStreaming && !lowPerf ? `text-${theme.accent} animate-pulse` : 'text-slate-600'} bg-slate-800/40 px-3 py-1 rounded-full border border-white/5`}>
-                    {isStreaming ? "Streaming Live" : "Smart Output Ready"}
-                  </span>
-                </div>
+                <ContextPanel
+                  value={translationContext}
+                  onChange={(v) => { setTranslationContext(v); setError(null); }}
+                  theme={theme}
+                  lastPair={result && lastTranslatedState.current ? { source: lastTranslatedState.current.text, target: result.translatedText } : null}
+                />
 
-                <div className="p-8 lg:p-12">
-                  <div className="flex justify-between items-start mb-10">
-                    <div className="flex flex-col gap-2">
-                      <span className={`text-[10px] font-black uppercase tracking-[0.3em] text-${theme.accent} opacity-80`}>Translated Output</span>
-                      <div className="flex gap-2 items-center">
-                        <div className={`inline-flex items-center gap-2 px-4 py-1.5 bg-${theme.id}-500/10 text-${theme.accent} rounded-full border border-${theme.id}-500/20 text-xs font-bold`}>
-                          <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M11.3 1.046A1 1 0 0112 2v5h4a1 1 0 01.82 1.573l-7 10A1 1 0 018 18v-5H4a1 1 0 01-.82-1.573l7-10a1 1 0 011.12-.38z" clipRule="evenodd" /></svg>
-                          Vibe: {result?.vibe || vibeMode}
-                        </div>
-                        {result?.detectedLanguage && sourceLang === 'auto' && (
-                          <div className={`inline-flex items-center gap-2 px-4 py-1.5 bg-slate-800/60 text-slate-400 rounded-full border border-white/5 text-[10px] font-black uppercase tracking-widest`}>
-                            Detected: {result.detectedLanguage}
-                          </div>
-                        )}
-                      </div>
-                    </div>
-                    <div className="flex gap-3">
-                      <button 
-                        onClick={handleSpeak}
-                        disabled={!isOnline || isStreaming}
-                        className={`p-4 rounded-2xl transition-all border border-white/5 ${!isOnline || isStreaming ? 'bg-slate-800/20 text-slate-600' : `bg-slate-800/50 hover:bg-slate-700 text-slate-300 hover:scale-110 active:scale-90`}`}
-                      >
-                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" /></svg>
-                      </button>
-                      <button 
-                        onClick={copyToClipboard}
-                        disabled={isStreaming}
-                        className={`p-4 rounded-2xl transition-all border border-white/5 ${isCopied ? 'bg-emerald-500/20 text-emerald-400 border-emerald-500/20' : `bg-slate-800/50 hover:bg-slate-700 text-slate-300 hover:scale-110 active:scale-90`}`}
+                <div className="relative">
+                  <textarea
+                    id={inputAreaId}
+                    value={inputText}
+                    onChange={(e) => { setInputText(e.target.value); setError(null); }}
+                    onKeyDown={handleKeyDown}
+                    placeholder="What's on your mind?..."
+                    className={`w-full bg-slate-950/40 border border-slate-800/50 text-slate-100 rounded-[2rem] p-8 pr-44 h-48 focus:outline-none focus:ring-2 focus:ring-${theme.id}-500/20 transition-all resize-none text-xl leading-relaxed placeholder:text-slate-700 placeholder:italic`}
+                  />
+                  <div className="absolute top-5 right-6">
+                    <VoiceInputButton
+                      sourceLang={sourceLang}
+                      theme={theme}
+                      disabled={isLoading || isStreaming || (!isOnline && needsNetwork) || !provider.capabilities.transcription}
+                      autoTranslate={autoTranslateVoice}
+                      onAutoTranslateChange={setAutoTranslateVoice}
+                      onTranscript={handleTranscript}
+                      onError={setError}
+                    />
+                  </div>
+                  <div className="absolute bottom-6 left-8">
+                     <p className="text-[9px] text-slate-500 font-bold uppercase tracking-[0.2em] opacity-40">Enter to Vibe / Shift+Enter for New Line</p>
+                  </div>
+                  <div className="absolute bottom-6 right-6 flex items-center gap-3">
+                    {(isLoading || isStreaming) && (
+                      <button
+                        onClick={cancelTranslation}
+                        aria-label="Stop translation"
+                        className="px-5 py-4 rounded-2xl font-black transition-all bg-red-500/10 hover:bg-red-500/20 text-red-300 border border-red-500/20 hover:scale-105 active:scale-95 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 focus:ring-offset-slate-950"
                       >
-                        {isCopied ? <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M5 13l4 4L19 7" /></svg> : <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M8 5H6a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2v-1M8 5a2 2 0 002 2h2a2 2 0 002-2M8 5a2 2 0 012-2h2a2 2 0 012 2m0 0h2a2 2 0 012 2v3m2 4H10m0 0l3-3m-3 3l3 3" /></svg>}
+                        <span className="uppercase tracking-widest text-xs">Stop</span>
                       </button>
-                    </div>
-                  </div>
-
-                  <div className="mb-12">
-                    <p className={`text-3xl lg:text-5xl font-jakarta font-bold text-white leading-[1.2] tracking-tight transition-opacity duration-300 ${isStreaming ? 'opacity-90' : 'opacity-100'}`}>
-                      {isStreaming ? streamingText : result?.translatedText}
-                      {isStreaming && <span className={`inline-block w-1.5 h-8 ml-1 bg-${theme.accent} ${!lowPerf ? 'animate-pulse' : ''} rounded-full`} />}
-                    </p>
-                    {!isStreaming && showPhonetic && result?.transliteration && (
-                      <p className={`mt-4 text-xl lg:text-2xl font-mono font-medium text-slate-500 italic selection:bg-${theme.id}-500/20`}>
-                        {result.transliteration}
-                      </p>
                     )}
+                    <button
+                      onClick={() => handleTranslate()}
+                      disabled={isLoading || isStreaming || !inputText.trim()}
+                      className={`px-10 py-4 rounded-2xl font-black transition-all shadow-2xl flex items-center gap-3 overflow-hidden group/btn ${
+                        isLoading || isStreaming || !inputText.trim() 
+                          ? 'bg-slate-800 text-slate-600 cursor-not-allowed border-transparent' 
+                          : `bg-${theme.primary} hover:bg-${theme.secondary} text-white hover:scale-105 active:scale-95 border-b-4 border-${theme.id}-700`
+                      }`}
+                    >
+                      {isLoading || isStreaming ? (
+                        <>
+                          <svg className="animate-spin h-5 w-5 text-white" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
+                          <span className="uppercase tracking-widest text-xs">{isStreaming ? "Vibing..." : "Checking..."}</span>
+                        </>
+                      ) : (
+                        <>
+                          <span className="uppercase tracking-[0.2em] text-xs">Vibe Check</span>
+                          <svg className="w-5 h-5 transition-transform group-hover/btn:translate-x-1" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M13 7l5 5m0 0l-5 5m5-5H6" /></svg>
+                        </>
+                      )}
+                    </button>
                   </div>
+                </div>
+              </div>
 
-                  {result && (
-                    <div className={`${!lowPerf ? 'animate-in fade-in slide-in-from-top-4 duration-700' : ''}`}>
-                      <div className="grid md:grid-cols-2 gap-10 pt-10 border-t border-white/5">
-                        <section>
-                          <h4 className={`text-[10px] font-black uppercase tracking-[0.3em] text-slate-500 mb-4 flex items-center gap-2`}>
-                            <svg className={`w-4 h-4 text-${theme.accent}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
-                            Context Prediction
-                          </h4>
-                          <div className="glass rounded-2xl p-6 border border-white/5">
-                            <p className="text-sm text-slate-300 leading-relaxed font-medium">{result.explanation}</p>
-                          </div>
-                        </section>
-                        <section>
-                          <h4 className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-500 mb-4 flex items-center gap-2">
-                            <svg className={`w-4 h-4 text-${theme.accent}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" /></svg>
-                            Native Shortcuts
-                          </h4>
-                          <div className="flex flex-wrap gap-3">
-                            {result.slangUsed.map((detail, idx) => (
-                              <SlangChip key={idx} detail={detail} theme={theme} lowPerf={lowPerf} />
-                            ))}
+              {offlineMatches && !error && (
+                <OfflinePanel
+                  matches={offlineMatches}
+                  queue={offlineQueue}
+                  isOnline={isOnline}
+                  isProcessingQueue={isProcessingQueue}
+                  showPhonetic={showPhonetic}
+                  theme={theme}
+                  onUseMatch={applyOfflineMatch}
+                  onRemoveQueued={(id) => setOfflineQueue(prev => prev.filter(q => q.id !== id))}
+                />
+              )}
+
+              {error && (
+                <ErrorState
+                  error={error}
+                  attempt={retryAttempt}
+                  onRetry={() => handleTranslate()}
+                  onAutoRetry={() => handleTranslate(undefined, { attempt: retryAttempt + 1 })}
+                  theme={theme}
+                />
+              )}
+
+              {(result || streamingText) && !error && (
+                <div className="animate-in fade-in slide-in-from-bottom-6 duration-700" aria-live="polite">
+                  <div className={`glass border border-white/5 rounded-[3rem] overflow-hidden shadow-2xl relative`}>
+                    <div className="absolute top-4 right-8">
+                      <span className={`text-[8px] font-black uppercase tracking-[0.3em] ${isStreaming && !lowPerf ? `text-${theme.accent} animate-pulse` : 'text-slate-600'} bg-slate-800/40 px-3 py-1 rounded-full border border-white/5`}>
+                        {isStreaming ? "Streaming Live" : "Smart Output Ready"}
+                      </span>
+                    </div>
+
+                    <div className="p-8 lg:p-12">
+                      <div className="flex justify-between items-start mb-10">
+                        <div className="flex flex-col gap-2">
+                          <span className={`text-[10px] font-black uppercase tracking-[0.3em] text-${theme.accent} opacity-80`}>Translated Output</span>
+                          <div className="flex gap-2 items-center">
+                            <div className={`inline-flex items-center gap-2 px-4 py-1.5 bg-${theme.id}-500/10 text-${theme.accent} rounded-full border border-${theme.id}-500/20 text-xs font-bold`}>
+                              <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M11.3 1.046A1 1 0 0112 2v5h4a1 1 0 01.82 1.573l-7 10A1 1 0 018 18v-5H4a1 1 0 01-.82-1.573l7-10a1 1 0 011.12-.38z" clipRule="evenodd" /></svg>
+                              Vibe: {result?.vibe || vibeMode}
+                            </div>
+                            {result?.detectedLanguage && sourceLang === 'auto' && (
+                              <div className={`inline-flex items-center gap-2 px-4 py-1.5 bg-slate-800/60 text-slate-400 rounded-full border border-white/5 text-[10px] font-black uppercase tracking-widest`}>
+                                Detected: {result.detectedLanguage}
+                              </div>
+                            )}
+                            {isFromCache && !isStreaming && (
+                              <div className="inline-flex items-center gap-2 px-4 py-1.5 bg-slate-800/60 text-slate-400 rounded-full border border-white/5 text-[10px] font-black uppercase tracking-widest">
+                                Cached
+                              </div>
+                            )}
                           </div>
-                        </section>
+                        </div>
+                        <div className="flex gap-3">
+                          {currentItem && !isStreaming && (
+                            <button
+                              onClick={() => setSavingPhrase({ item: currentItem })}
+                              aria-label={savedPhraseKeys.has(phraseKey(currentItem)) ? 'Saved to phrasebook' : 'Save to phrasebook'}
+                              className={`p-4 rounded-2xl transition-all border border-white/5 bg-slate-800/50 hover:bg-slate-700 hover:scale-110 active:scale-90 ${savedPhraseKeys.has(phraseKey(currentItem)) ? `text-${theme.accent}` : 'text-slate-300'}`}
+                            >
+                              <svg className="w-5 h-5" fill={savedPhraseKeys.has(phraseKey(currentItem)) ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M11.48 3.5a.56.56 0 011.04 0l2.12 5.11a.56.56 0 00.48.35l5.52.44c.5.04.7.66.32.99l-4.2 3.6a.56.56 0 00-.18.56l1.28 5.39a.56.56 0 01-.84.61l-4.72-2.88a.56.56 0 00-.59 0l-4.72 2.88a.56.56 0 01-.84-.61l1.28-5.39a.56.56 0 00-.18-.56l-4.2-3.6a.56.56 0 01.32-.99l5.52-.44a.56.56 0 00.48-.35l2.12-5.11z" /></svg>
+                            </button>
+                          )}
+                          {result && !isStreaming && (
+                            <button
+                              onClick={() => handleTranslate(undefined, { bypassCache: true })}
+                              disabled={!isOnline && needsNetwork}
+                              aria-label="Force re-vibe"
+                              title="Skip the cache and translate again"
+                              className={`p-4 rounded-2xl transition-all border border-white/5 ${!isOnline && needsNetwork ? 'bg-slate-800/20 text-slate-600' : `bg-slate-800/50 hover:bg-slate-700 text-slate-300 hover:scale-110 active:scale-90`}`}
+                            >
+                              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+                            </button>
+                          )}
+                          {currentItem && !isStreaming && isSymbolBased(currentItem.targetLang) && provider.capabilities.tts && (
+                            <button
+                              onClick={() => setIsPronouncing(!isPronouncing)}
+                              aria-pressed={isPronouncing}
+                              aria-label="Practice pronunciation"
+                              title="Play word by word"
+                              className={`p-4 rounded-2xl transition-all border border-white/5 bg-slate-800/50 hover:bg-slate-700 hover:scale-110 active:scale-90 ${isPronouncing ? `text-${theme.accent}` : 'text-slate-300'}`}
+                            >
+                              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M3 5h12M9 3v2m1.048 9.5A18.022 18.022 0 016.412 9m6.088 9h7M11 21l5-10 5 10M12.751 5C11.783 10.77 8.07 15.61 3 18.129" /></svg>
+                            </button>
+                          )}
+                          {currentItem && !isStreaming && (
+                            <SpeechControls
+                              text={currentItem.result.translatedText}
+                              language={currentItem.targetLang}
+                              theme={theme}
+                              canSynthesize={provider.capabilities.tts && (isOnline || !needsNetwork)}
+                              buttonClass="p-4 rounded-2xl transition-all border border-white/5 bg-slate-800/50 hover:bg-slate-700 text-slate-300 hover:scale-110 active:scale-90 disabled:bg-slate-800/20 disabled:text-slate-600 disabled:hover:scale-100"
+                            />
+                          )}
+                          <button 
+                            onClick={copyToClipboard}
+                            disabled={isStreaming}
+                            className={`p-4 rounded-2xl transition-all border border-white/5 ${isCopied ? 'bg-emerald-500/20 text-emerald-400 border-emerald-500/20' : `bg-slate-800/50 hover:bg-slate-700 text-slate-300 hover:scale-110 active:scale-90`}`}
+                          >
+                            {isCopied ? <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M5 13l4 4L19 7" /></svg> : <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M8 5H6a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2v-1M8 5a2 2 0 002 2h2a2 2 0 002-2M8 5a2 2 0 012-2h2a2 2 0 012 2m0 0h2a2 2 0 012 2v3m2 4H10m0 0l3-3m-3 3l3 3" /></svg>}
+                          </button>
+                        </div>
+                      </div>
+
+                      <div className="mb-12">
+                        {isPronouncing && currentItem && !isStreaming && isSymbolBased(currentItem.targetLang) && provider.capabilities.tts ? (
+                          <PronunciationPanel
+                            result={currentItem.result}
+                            language={currentItem.targetLang}
+                            theme={theme}
+                            showPhonetic={showPhonetic}
+                            canSynthesize={isOnline || !needsNetwork}
+                          />
+                        ) : (
+                          <>
+                            <p className={`text-3xl lg:text-5xl font-jakarta font-bold text-white leading-[1.2] tracking-tight transition-opacity duration-300 ${isStreaming ? 'opacity-90' : 'opacity-100'}`}>
+                              {isStreaming ? streamingText : result?.translatedText}
+                              {isStreaming && <span className={`inline-block w-1.5 h-8 ml-1 bg-${theme.accent} ${!lowPerf ? 'animate-pulse' : ''} rounded-full`} />}
+                            </p>
+                            {showPhonetic && (isStreaming ? streamingTransliteration : result?.transliteration) && (
+                              <p className={`mt-4 text-xl lg:text-2xl font-mono font-medium text-slate-500 italic selection:bg-${theme.id}-500/20`}>
+                                {isStreaming ? streamingTransliteration : result?.transliteration}
+                              </p>
+                            )}
+                          </>
+                        )}
                       </div>
 
-                      {currentAlternatives.length > 0 && (
-                        <div className="mt-10 pt-8 border-t border-white/5">
-                          <h4 className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-500 mb-4 flex items-center gap-2">Alternative Vibing</h4>
-                          <div className="flex flex-col gap-2">
-                            {currentAlternatives.slice(0, 3).map((alt) => (
-                              <button key={alt.id} onClick={() => restoreFromHistory(alt)} className="text-left p-4 rounded-2xl bg-slate-800/30 border border-white/5 hover:bg-slate-800/60 transition-all flex items-center justify-between group/alt">
-                                <span className="text-sm text-slate-400 font-medium italic">"{alt.result.translatedText}"</span>
-                                <span className={`text-[9px] font-black uppercase tracking-widest text-${theme.accent} opacity-40 group-hover/alt:opacity-100`}>Switch View</span>
-                              </button>
-                            ))}
+                      {result && (
+                        <div className={`${!lowPerf ? 'animate-in fade-in slide-in-from-top-4 duration-700' : ''}`}>
+                          <div className="grid md:grid-cols-2 gap-10 pt-10 border-t border-white/5">
+                            <section>
+                              <h4 className={`text-[10px] font-black uppercase tracking-[0.3em] text-slate-500 mb-4 flex items-center gap-2`}>
+                                <svg className={`w-4 h-4 text-${theme.accent}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                                Context Prediction
+                              </h4>
+                              <div className="glass rounded-2xl p-6 border border-white/5">
+                                <p className="text-sm text-slate-300 leading-relaxed font-medium">{result.explanation}</p>
+                                {!!result.termViolations?.length && (
+                                  <ul className="mt-4 pt-4 border-t border-white/5 grid gap-1.5" role="alert">
+                                    {result.termViolations.map((violation, idx) => (
+                                      <li key={idx} className="text-[11px] text-amber-300">
+                                        <span className="font-black uppercase tracking-widest text-[9px] text-amber-400 mr-2">Term rule</span>
+                                        "{violation.source}" should be "{violation.expected}"
+                                      </li>
+                                    ))}
+                                  </ul>
+                                )}
+                              </div>
+                            </section>
+                            <section>
+                              <h4 className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-500 mb-4 flex items-center gap-2">
+                                <svg className={`w-4 h-4 text-${theme.accent}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" /></svg>
+                                Native Shortcuts
+                              </h4>
+                              <div className="flex flex-wrap gap-3">
+                                {result.slangUsed.map((detail, idx) => (
+                                  <SlangChip key={idx} detail={detail} theme={theme} lowPerf={lowPerf} />
+                                ))}
+                              </div>
+                            </section>
                           </div>
+
+                          {currentItem && (
+                            <VerificationPanel
+                              inputText={currentItem.inputText}
+                              result={result}
+                              sourceLang={currentItem.sourceLang}
+                              targetLang={currentItem.targetLang}
+                              theme={theme}
+                              canVerify={isOnline || !needsNetwork}
+                            />
+                          )}
+
+                          {!!result.alternatives?.length && (
+                            <div className="mt-10 pt-8 border-t border-white/5">
+                              <h4 className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-500 mb-4 flex items-center gap-2">Alternative Vibing</h4>
+                              <ol className="flex flex-col gap-2">
+                                {result.alternatives.map((alt, idx) => (
+                                  <li key={`${idx}-${alt.translatedText}`}>
+                                    <button onClick={() => promoteAlternative(idx)} className="w-full text-left p-4 rounded-2xl bg-slate-800/30 border border-white/5 hover:bg-slate-800/60 transition-all flex items-center justify-between gap-4 group/alt">
+                                      <span className="flex items-start gap-3 min-w-0">
+                                        <span className="text-[10px] font-black text-slate-600 tabular-nums mt-0.5">{idx + 1}</span>
+                                        <span className="min-w-0">
+                                          <span className="block text-sm text-slate-300 font-medium italic">"{alt.translatedText}"</span>
+                                          {showPhonetic && alt.transliteration && (
+                                            <span className="block text-xs text-slate-500 italic mt-0.5">{alt.transliteration}</span>
+                                          )}
+                                          <span className="block text-[11px] text-slate-500 mt-1">
+                                            {alt.vibe && <span className={`font-black uppercase tracking-widest text-[9px] text-${theme.accent} mr-2`}>{alt.vibe}</span>}
+                                            {alt.note}
+                                          </span>
+                                        </span>
+                                      </span>
+                                      <span className={`shrink-0 text-[9px] font-black uppercase tracking-widest text-${theme.accent} opacity-40 group-hover/alt:opacity-100`}>Use This</span>
+                                    </button>
+                                  </li>
+                                ))}
+                              </ol>
+                            </div>
+                          )}
                         </div>
                       )}
                     </div>
-                  )}
+                  </div>
                 </div>
-              </div>
-            </div>
-          )}
+              )}
 
-          {history.length > 0 && (
-            <div className={`mt-12 ${!lowPerf ? 'animate-in fade-in slide-in-from-bottom-8 duration-700' : ''}`}>
-              <div className="flex justify-between items-center mb-6 px-4">
-                <h3 className="text-[10px] font-black uppercase tracking-[0.4em] text-slate-500">Recently Translated</h3>
-                <div className="flex items-center gap-4">
-                  {isConfirmingClear ? (
-                    <div className={`flex items-center gap-2 ${!lowPerf ? 'animate-in slide-in-from-right-2 duration-300' : ''}`}>
-                      <span className="text-[9px] font-bold uppercase text-red-400 tracking-tighter">Are you sure?</span>
-                      <button 
-                        onClick={handleClearHistory}
-                        className="text-[10px] font-black uppercase text-red-500 hover:bg-red-500/10 px-2 py-1 rounded-lg transition-colors border border-red-500/20"
-                      >
-                        Yes, Delete
-                      </button>
-                      <button 
-                        onClick={() => setIsConfirmingClear(false)}
-                        className="text-[10px] font-black uppercase text-slate-400 hover:text-slate-200 px-2 py-1 rounded-lg transition-colors"
-                      >
-                        Cancel
-                      </button>
-                    </div>
-                  ) : (
-                    <button 
-                      onClick={() => setIsConfirmingClear(true)} 
-                      className="text-[10px] font-bold uppercase text-slate-600 hover:text-red-400 transition-colors tracking-widest"
-                    >
-                      Clear history
-                    </button>
-                  )}
-                </div>
-              </div>
-              <div className="grid gap-3">
-                {history.map((item) => {
-                  const isMatch = lastTranslatedState.current && lastTranslatedState.current.text === item.inputText && lastTranslatedState.current.vibe === item.vibeMode;
-                  return (
-                    <button key={item.id} onClick={() => restoreFromHistory(item)} className={`group w-full text-left glass border rounded-2xl p-4 flex items-center justify-between hover:bg-white/5 transition-all focus:outline-none focus:ring-2 focus:ring-slate-800 ${isMatch && item.result.translatedText === result?.translatedText ? `border-${theme.accent}/40 bg-${theme.id}-500/5` : 'border-white/5'}`}>
-                      <div className="flex-1 min-w-0 pr-4">
-                        <div className="flex items-center gap-2 mb-1">
-                          <span className="text-[10px] font-bold text-slate-500 uppercase">
-                            {LANGUAGES.find(l => l.code === item.sourceLang)?.flag} → {LANGUAGES.find(l => l.code === item.targetLang)?.flag}
-                          </span>
-                          <span className={`text-[10px] font-black uppercase tracking-tighter text-${theme.accent} opacity-60`}>{item.vibeMode}</span>
-                          {item.result.detectedLanguage && item.sourceLang === 'auto' && (
-                            <span className="text-[9px] font-black uppercase text-slate-600 tracking-tighter">({item.result.detectedLanguage})</span>
-                          )}
-                        </div>
-                        <p className="text-sm text-slate-100 font-bold truncate mb-0.5">{item.result.translatedText} {showPhonetic && item.result.transliteration ? `(${item.result.transliteration})` : ''}</p>
-                        <p className="text-[10px] text-slate-500 truncate italic">"{item.inputText}"</p>
-                      </div>
-                      <div className="shrink-0 flex items-center gap-3">
-                        <span className="text-[9px] font-bold text-slate-700">{new Date(item.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
-                        <svg className="w-4 h-4 text-slate-700 group-hover:text-slate-400 group-hover:translate-x-1 transition-all" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M9 5l7 7-7 7" /></svg>
-                      </div>
-                    </button>
-                  );
-                })}
-              </div>
-            </div>
+              {targetTakes.length > 0 && (
+                <TargetResultCards
+                  takes={targetTakes}
+                  theme={theme}
+                  lowPerf={lowPerf}
+                  showPhonetic={showPhonetic}
+                  canSpeak={provider.capabilities.tts && (isOnline || !needsNetwork)}
+                />
+              )}
+            </>
           )}
+
+          <HistoryPanel
+            theme={theme}
+            lowPerf={lowPerf}
+            vibeOptions={vibeOptions}
+            showPhonetic={showPhonetic}
+            refreshKey={historyVersion}
+            isActive={(item) =>
+              !!lastTranslatedState.current &&
+              lastTranslatedState.current.text === item.inputText &&
+              lastTranslatedState.current.vibe === item.vibeMode &&
+              item.result.translatedText === result?.translatedText
+            }
+            isSaved={(item) => savedPhraseKeys.has(phraseKey(item))}
+            onRestore={restoreFromHistory}
+            onSave={(item) => setSavingPhrase({ item })}
+            onCleared={handleHistoryChanged}
+          />
+
+          <TerminologyPanel
+            theme={theme}
+            rules={termRules}
+            defaultTargetLang={targetLang === 'auto' ? 'tl' : targetLang}
+            onChanged={handleTermsChanged}
+          />
+
+          <DataTransferPanel
+            theme={theme}
+            onImported={() => {
+              handleHistoryChanged();
+              setPhrasebookVersion(v => v + 1);
+            }}
+          />
         </div>
       </main>
 
       <footer className="mt-20 py-16 border-t border-white/5 text-center relative z-10">
         <div className="flex flex-col items-center gap-4">
           <div className="flex items-center gap-2 grayscale opacity-40 hover:grayscale-0 hover:opacity-100 transition-all cursor-default" aria-hidden="true">
-             <span className="text-xs font-black uppercase tracking-[0.5em] text-slate-400">Gemini Flash AI</span>
+             <span className="text-xs font-black uppercase tracking-[0.5em] text-slate-400">{provider.name}</span>
           </div>
           <p className="text-slate-600 text-xs font-medium max-w-xs mx-auto">Dynamic vibe engine for Proper, Real Talk, and Urban Mix. Turbo-charged streaming active.</p>
         </div>
       </footer>
+
+      {savingPhrase && (
+        <SavePhraseDialog
+          item={savingPhrase.item}
+          entry={savingPhrase.entry}
+          theme={theme}
+          onClose={() => setSavingPhrase(null)}
+          onSaved={() => setPhrasebookVersion(v => v + 1)}
+        />
+      )}
+
+      {isEditingVibes && (
+        <VibeEditorDialog
+          theme={theme}
+          onClose={() => setIsEditingVibes(false)}
+          onChanged={handleVibesChanged}
+        />
+      )}
     </div>
   );
 };
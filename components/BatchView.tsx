@@ -0,0 +1,334 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { LanguageCode, ThemeConfig, VibeMode } from '../types';
+import { translateWithSlang } from '../services/geminiService';
+import {
+  batchExtension,
+  BatchDocument,
+  batchFileName,
+  BatchRow,
+  DEFAULT_CONCURRENCY,
+  DEFAULT_MAX_ATTEMPTS,
+  DEFAULT_MIN_INTERVAL_MS,
+  displayText,
+  getSegments,
+  parseBatchDocument,
+  renderBatchDocument,
+  runBatch,
+  segmentContext,
+} from '../services/batch';
+import LanguageSelector from './LanguageSelector';
+
+interface BatchViewProps {
+  sourceLang: LanguageCode;
+  targetLang: LanguageCode;
+  onSourceLangChange: (lang: LanguageCode) => void;
+  onTargetLangChange: (lang: LanguageCode) => void;
+  vibeMode: VibeMode;
+  theme: ThemeConfig;
+  lowPerf: boolean;
+  canTranslate: boolean;
+  controls?: React.ReactNode;
+}
+
+const SETTINGS_KEY_CONCURRENCY = 'kanto_setting_batch_concurrency';
+const MIN_LINE_LENGTH = 10;
+const MAX_LINE_LENGTH = 80;
+
+const MIME_TYPES: Record<string, string> = {
+  txt: 'text/plain',
+  csv: 'text/csv',
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+};
+
+const STATUS_STYLES: Record<BatchRow['status'], string> = {
+  pending: 'text-slate-600',
+  running: 'text-sky-400',
+  done: 'text-emerald-400',
+  error: 'text-red-400',
+};
+
+const toRows = (doc: BatchDocument): BatchRow[] =>
+  getSegments(doc).map(segment => ({ ...segment, status: 'pending', attempts: 0 }));
+
+const BatchView: React.FC<BatchViewProps> = ({
+  sourceLang,
+  targetLang,
+  onSourceLangChange,
+  onTargetLangChange,
+  vibeMode,
+  theme,
+  lowPerf,
+  canTranslate,
+  controls,
+}) => {
+  const [draft, setDraft] = useState('');
+  const [doc, setDoc] = useState<BatchDocument | null>(null);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [concurrency, setConcurrency] = useState(() => Number(localStorage.getItem(SETTINGS_KEY_CONCURRENCY)) || DEFAULT_CONCURRENCY);
+  const activeRun = useRef<AbortController | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    localStorage.setItem(SETTINGS_KEY_CONCURRENCY, String(concurrency));
+  }, [concurrency]);
+
+  useEffect(() => () => activeRun.current?.abort(), []);
+
+  const loadDocument = (next: BatchDocument) => {
+    activeRun.current?.abort();
+    setDoc(next);
+    setRows(toRows(next));
+  };
+
+  const handleFile = async (file: File) => {
+    loadDocument(parseBatchDocument(await file.text(), file.name));
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  const updateRow = (index: number, patch: Partial<BatchRow>) =>
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+
+  const start = async (indices: number[]) => {
+    if (indices.length === 0 || isRunning) return;
+    const controller = new AbortController();
+    activeRun.current = controller;
+    setIsRunning(true);
+    setRows(prev => prev.map((row, i) => (indices.includes(i) ? { ...row, status: 'pending', error: undefined } : row)));
+    // Settings are captured now so changing them mid-run doesn't mix vibes in one file.
+    const settings = { sourceLang, targetLang, vibeMode, doc };
+    try {
+      await runBatch(
+        indices,
+        (index, signal) => translateWithSlang(rows[index].text, settings.sourceLang, settings.targetLang, settings.vibeMode, {
+          signal,
+          context: settings.doc ? segmentContext(settings.doc, rows[index].position) : undefined,
+        }),
+        {
+          concurrency,
+          minIntervalMs: DEFAULT_MIN_INTERVAL_MS,
+          maxAttempts: DEFAULT_MAX_ATTEMPTS,
+          signal: controller.signal,
+          onRowStart: (index) => setRows(prev => prev.map((row, i) => (i === index ? { ...row, status: 'running', attempts: row.attempts + 1 } : row))),
+          onRowDone: (index, result) => updateRow(index, { status: 'done', result, error: undefined }),
+          onRowError: (index, error) => updateRow(index, { status: 'error', error }),
+        }
+      );
+    } finally {
+      if (activeRun.current === controller) {
+        activeRun.current = null;
+        setIsRunning(false);
+        // Anything still marked running was cut off by Stop.
+        setRows(prev => prev.map(row => (row.status === 'running' ? { ...row, status: 'pending' } : row)));
+      }
+    }
+  };
+
+  const stop = () => {
+    activeRun.current?.abort();
+  };
+
+  const pendingIndices = rows.map((row, i) => (row.status === 'done' ? -1 : i)).filter(i => i >= 0);
+  const failedIndices = rows.map((row, i) => (row.status === 'error' ? i : -1)).filter(i => i >= 0);
+  const doneCount = rows.filter(row => row.status === 'done').length;
+
+  const translations = useMemo(() => {
+    const map = new Map<number, string>();
+    rows.forEach(row => {
+      if (row.result) map.set(row.position, row.result.translatedText);
+    });
+    return map;
+  }, [rows]);
+
+  const handleExport = () => {
+    if (!doc) return;
+    const url = URL.createObjectURL(new Blob([renderBatchDocument(doc, translations)], { type: `${MIME_TYPES[batchExtension(doc)]};charset=utf-8` }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = batchFileName(doc, targetLang);
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const csvHeader = doc?.format === 'csv' ? doc.rows[0] || [] : [];
+
+  return (
+    <div className={`bg-slate-900/40 ${!lowPerf ? 'backdrop-blur-3xl' : ''} border border-white/5 rounded-[2.5rem] p-6 lg:p-10 shadow-2xl`}>
+      <div className="grid md:grid-cols-2 gap-4 mb-8">
+        <LanguageSelector label="Batch from" allowAuto value={sourceLang} onChange={(v) => onSourceLangChange(v as LanguageCode)} />
+        <LanguageSelector label="Batch to" value={targetLang} onChange={(v) => onTargetLangChange(v as LanguageCode)} />
+      </div>
+      {controls}
+
+      {!doc ? (
+        <div className="grid gap-4">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={"Paste one line per string, or a whole .srt / .vtt file...\nGood morning\nSee you later"}
+            aria-label="Lines to translate"
+            className={`w-full min-h-[14rem] bg-slate-950/40 border border-slate-800/50 text-slate-100 rounded-[2rem] p-6 text-base font-mono focus:outline-none focus:ring-2 focus:ring-${theme.id}-500/20 placeholder:text-slate-700 resize-y`}
+          />
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              onClick={() => loadDocument(parseBatchDocument(draft))}
+              disabled={!draft.trim()}
+              className={`px-6 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest bg-${theme.primary} hover:bg-${theme.secondary} text-white transition-all disabled:opacity-40`}
+            >
+              Split into rows
+            </button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".txt,.csv,.srt,.vtt,text/plain,text/csv,text/vtt"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+              }}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInput.current?.click()}
+              className="px-6 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest bg-slate-800/60 hover:bg-slate-700 text-slate-200 border border-white/5 transition-all"
+            >
+              Upload .txt / .csv / .srt / .vtt
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div>
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <div className="flex items-center gap-3 text-[10px] font-bold uppercase tracking-widest text-slate-500">
+              <span>{doc.fileName || 'Pasted text'} · {batchExtension(doc)}</span>
+              <span className={`text-${theme.accent}`}>{doneCount}/{rows.length} done</span>
+              {failedIndices.length > 0 && <span className="text-red-400">{failedIndices.length} failed</span>}
+            </div>
+            <button
+              onClick={() => { stop(); setDoc(null); setRows([]); }}
+              className="text-[10px] font-bold uppercase text-slate-600 hover:text-slate-300 transition-colors tracking-widest"
+            >
+              Start over
+            </button>
+          </div>
+
+          {doc.format === 'csv' && (
+            <label className="flex items-center gap-3 mb-4 text-[10px] font-black uppercase tracking-widest text-slate-500">
+              Translate column
+              <select
+                value={doc.column}
+                disabled={isRunning}
+                onChange={(e) => loadDocument({ ...doc, column: Number(e.target.value) })}
+                className="bg-slate-800/50 border border-slate-700/50 text-slate-200 rounded-xl px-3 py-2 text-xs normal-case tracking-normal focus:outline-none"
+              >
+                {csvHeader.map((name, i) => <option key={i} value={i}>{name || `Column ${i + 1}`}</option>)}
+              </select>
+            </label>
+          )}
+
+          {doc.format === 'subtitles' && (
+            <label className="flex items-center gap-3 mb-4 text-[10px] font-black uppercase tracking-widest text-slate-500">
+              Max characters per line
+              <input
+                type="number"
+                min={MIN_LINE_LENGTH}
+                max={MAX_LINE_LENGTH}
+                value={doc.maxLineLength}
+                onChange={(e) => {
+                  const value = Number(e.target.value);
+                  // Only wrapping changes, so finished cues are kept.
+                  if (value >= MIN_LINE_LENGTH && value <= MAX_LINE_LENGTH) setDoc({ ...doc, maxLineLength: value });
+                }}
+                className="w-20 bg-slate-800/50 border border-slate-700/50 text-slate-200 rounded-xl px-3 py-2 text-xs tracking-normal focus:outline-none"
+              />
+            </label>
+          )}
+
+          <div className="h-1.5 rounded-full bg-slate-800/60 overflow-hidden mb-6" role="progressbar" aria-valuemin={0} aria-valuemax={rows.length} aria-valuenow={doneCount}>
+            <div className={`h-full bg-${theme.primary} transition-all duration-500`} style={{ width: `${rows.length ? (doneCount / rows.length) * 100 : 0}%` }} />
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 mb-6">
+            {isRunning ? (
+              <button
+                onClick={stop}
+                className="px-6 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest bg-slate-800/60 hover:bg-slate-700 text-slate-200 border border-white/5 transition-all"
+              >
+                Stop
+              </button>
+            ) : (
+              <button
+                onClick={() => start(pendingIndices)}
+                disabled={!canTranslate || pendingIndices.length === 0}
+                className={`px-6 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest bg-${theme.primary} hover:bg-${theme.secondary} text-white transition-all disabled:opacity-40`}
+              >
+                {doneCount > 0 ? `Translate remaining ${pendingIndices.length}` : `Translate ${rows.length} rows`}
+              </button>
+            )}
+            {!isRunning && failedIndices.length > 0 && (
+              <button
+                onClick={() => start(failedIndices)}
+                disabled={!canTranslate}
+                className="px-5 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest text-red-400 border border-red-500/20 hover:bg-red-500/10 transition-all disabled:opacity-40"
+              >
+                Retry failed
+              </button>
+            )}
+            <button
+              onClick={handleExport}
+              disabled={doneCount === 0}
+              className="px-5 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest bg-slate-800/60 hover:bg-slate-700 text-slate-200 border border-white/5 transition-all disabled:opacity-40"
+            >
+              Export .{batchExtension(doc)}
+            </button>
+            <label className="flex items-center gap-2 ml-auto text-[10px] font-black uppercase tracking-widest text-slate-500">
+              Parallel
+              <select
+                value={concurrency}
+                disabled={isRunning}
+                onChange={(e) => setConcurrency(Number(e.target.value))}
+                className="bg-slate-800/50 border border-slate-700/50 text-slate-200 rounded-xl px-2 py-1.5 text-xs focus:outline-none"
+              >
+                {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+          </div>
+
+          <ol className="grid gap-2 max-h-[36rem] overflow-y-auto pr-1">
+            {rows.map((row, i) => (
+              <li key={row.position} className="glass border border-white/5 rounded-2xl p-4 grid md:grid-cols-[2rem_1fr_1fr_auto] gap-3 items-start">
+                <span className="text-[10px] font-bold text-slate-600 tabular-nums">{i + 1}</span>
+                <p className="text-sm text-slate-400 whitespace-pre-wrap break-words">{row.text}</p>
+                <div className="min-w-0">
+                  {row.result && <p className="text-sm text-slate-100 font-medium whitespace-pre-wrap break-words">{displayText(doc, row.result.translatedText)}</p>}
+                  {row.status === 'error' && row.error && (
+                    <p className="text-[11px] text-red-400">
+                      {row.error.code.replace(/_/g, ' ').toLowerCase()}{row.attempts > 1 ? ` after ${row.attempts} tries` : ''}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 justify-end">
+                  <span className={`text-[9px] font-black uppercase tracking-widest ${STATUS_STYLES[row.status]}`}>
+                    {row.status === 'running' ? 'Vibing' : row.status}
+                  </span>
+                  {(row.status === 'error' || row.status === 'done') && !isRunning && (
+                    <button
+                      onClick={() => start([i])}
+                      disabled={!canTranslate}
+                      aria-label={`Retry row ${i + 1}`}
+                      className="p-1.5 rounded-lg text-slate-600 hover:text-slate-200 transition-colors disabled:opacity-40"
+                    >
+                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchView;
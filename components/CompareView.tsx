@@ -0,0 +1,251 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { HistoryItem, LanguageCode, TranslationContext, TranslationResult, ThemeConfig, VibeMode } from '../types';
+import { translateWithSlangStream } from '../services/geminiService';
+import { TranslationErrorCode } from '../services/errors';
+import { DEFAULT_CONCURRENCY, DEFAULT_MAX_ATTEMPTS, DEFAULT_MIN_INTERVAL_MS, runBatch } from '../services/batch';
+import { diffTranslations } from '../services/wordDiff';
+import LanguageSelector from './LanguageSelector';
+import { VibeOption } from './VibeSelector';
+
+interface CompareViewProps {
+  inputText: string;
+  onInputChange: (text: string) => void;
+  sourceLang: LanguageCode;
+  targetLang: LanguageCode;
+  onSourceLangChange: (lang: LanguageCode) => void;
+  onTargetLangChange: (lang: LanguageCode) => void;
+  vibeOptions: VibeOption[];
+  context?: TranslationContext;
+  theme: ThemeConfig;
+  lowPerf: boolean;
+  showPhonetic: boolean;
+  canTranslate: boolean;
+  isSaved: (item: HistoryItem) => boolean;
+  onSave: (item: HistoryItem) => void;
+  onPick: (item: HistoryItem) => void; // Adds the take to history and opens it in the translator
+}
+
+interface VibeTake {
+  status: 'pending' | 'streaming' | 'done' | 'error';
+  text: string;
+  transliteration: string;
+  result?: TranslationResult;
+  errorCode?: TranslationErrorCode;
+}
+
+// One column per vibe, streamed independently. Requests go through the batch runner so
+// a long list of custom vibes is spaced out instead of tripping the quota.
+const CompareView: React.FC<CompareViewProps> = ({
+  inputText,
+  onInputChange,
+  sourceLang,
+  targetLang,
+  onSourceLangChange,
+  onTargetLangChange,
+  vibeOptions,
+  context,
+  theme,
+  lowPerf,
+  showPhonetic,
+  canTranslate,
+  isSaved,
+  onSave,
+  onPick,
+}) => {
+  const [takes, setTakes] = useState<Record<VibeMode, VibeTake>>({});
+  const [compared, setCompared] = useState<{ text: string; sourceLang: string; targetLang: string } | null>(null);
+  const [copiedId, setCopiedId] = useState<VibeMode | null>(null);
+  const activeRun = useRef<AbortController | null>(null);
+
+  useEffect(() => () => activeRun.current?.abort(), []);
+
+  const isRunning = vibeOptions.some(v => takes[v.id]?.status === 'pending' || takes[v.id]?.status === 'streaming');
+
+  const updateTake = (id: VibeMode, patch: Partial<VibeTake>) =>
+    setTakes(prev => ({ ...prev, [id]: { ...prev[id], ...patch } }));
+
+  const compare = async () => {
+    const text = inputText.trim();
+    if (!text || !canTranslate) return;
+    activeRun.current?.abort();
+    const controller = new AbortController();
+    activeRun.current = controller;
+
+    const vibes = vibeOptions.map(v => v.id);
+    setCompared({ text, sourceLang, targetLang });
+    setTakes(Object.fromEntries(vibes.map(id => [id, { status: 'pending', text: '', transliteration: '' } as VibeTake])));
+
+    await runBatch(
+      vibes.map((_, i) => i),
+      (i, signal) => translateWithSlangStream(
+        text,
+        sourceLang,
+        targetLang,
+        vibes[i],
+        (partial) => {
+          if (partial.translatedText === undefined || signal.aborted) return;
+          updateTake(vibes[i], { text: partial.translatedText, transliteration: partial.transliteration || '' });
+        },
+        { context, signal }
+      ),
+      {
+        concurrency: DEFAULT_CONCURRENCY,
+        minIntervalMs: DEFAULT_MIN_INTERVAL_MS,
+        maxAttempts: DEFAULT_MAX_ATTEMPTS,
+        signal: controller.signal,
+        onRowStart: (i) => updateTake(vibes[i], { status: 'streaming', text: '', transliteration: '' }),
+        onRowDone: (i, result) =>
+          updateTake(vibes[i], { status: 'done', text: result.translatedText, transliteration: result.transliteration || '', result }),
+        onRowError: (i, error) => updateTake(vibes[i], { status: 'error', errorCode: error.code }),
+      }
+    );
+    if (activeRun.current === controller) activeRun.current = null;
+  };
+
+  const stop = () => {
+    activeRun.current?.abort();
+    activeRun.current = null;
+    setTakes(prev => {
+      const next: Record<VibeMode, VibeTake> = {};
+      for (const id in prev) if (prev[id].status === 'done' || prev[id].status === 'error') next[id] = prev[id];
+      return next;
+    });
+  };
+
+  // Highlighting only compares finished takes; partial text would flag everything.
+  const finishedIds = vibeOptions.map(v => v.id).filter(id => takes[id]?.status === 'done');
+  const finishedKey = finishedIds.map(id => `${id}:${takes[id].text}`).join('\n');
+  const diffs = useMemo(() => {
+    const tokens = diffTranslations(finishedIds.map(id => takes[id].text));
+    return Object.fromEntries(finishedIds.map((id, i) => [id, tokens[i]]));
+  }, [finishedKey]);
+
+  const toItem = (id: VibeMode, result: TranslationResult): HistoryItem => ({
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    inputText: compared!.text,
+    sourceLang: compared!.sourceLang,
+    targetLang: compared!.targetLang,
+    vibeMode: id,
+    result,
+  });
+
+  const copy = (id: VibeMode, take: VibeTake) => {
+    const textToCopy = showPhonetic && take.transliteration ? `${take.text}\n(${take.transliteration})` : take.text;
+    navigator.clipboard.writeText(textToCopy);
+    setCopiedId(id);
+    setTimeout(() => setCopiedId(current => (current === id ? null : current)), 2000);
+  };
+
+  const actionClass = 'px-3 py-1.5 rounded-xl text-[9px] font-black uppercase tracking-widest border border-white/5 bg-slate-800/40 text-slate-400 hover:text-slate-100 hover:bg-slate-700/60 transition-all disabled:opacity-40';
+
+  return (
+    <div className={`bg-slate-900/40 ${!lowPerf ? 'backdrop-blur-3xl' : ''} border border-white/5 rounded-[2.5rem] p-6 lg:p-10 shadow-2xl`}>
+      <div className="grid md:grid-cols-2 gap-4 mb-8">
+        <LanguageSelector label="Compare from" allowAuto value={sourceLang} onChange={(v) => onSourceLangChange(v as LanguageCode)} />
+        <LanguageSelector label="Compare in" value={targetLang} onChange={(v) => onTargetLangChange(v as LanguageCode)} />
+      </div>
+
+      <textarea
+        value={inputText}
+        onChange={(e) => onInputChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            compare();
+          }
+        }}
+        placeholder="Type something to see it in every vibe..."
+        aria-label="Text to compare"
+        className={`w-full min-h-[8rem] bg-slate-950/40 border border-slate-800/50 text-slate-100 rounded-[2rem] p-6 text-lg focus:outline-none focus:ring-2 focus:ring-${theme.id}-500/20 placeholder:text-slate-700 resize-y mb-4`}
+      />
+      <div className="flex flex-wrap items-center gap-3 mb-8">
+        {isRunning ? (
+          <button
+            onClick={stop}
+            className="px-6 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest bg-slate-800/60 hover:bg-slate-700 text-slate-200 border border-white/5 transition-all"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={compare}
+            disabled={!canTranslate || !inputText.trim()}
+            className={`px-6 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest bg-${theme.primary} hover:bg-${theme.secondary} text-white transition-all disabled:opacity-40`}
+          >
+            Compare {vibeOptions.length} vibes
+          </button>
+        )}
+        {finishedIds.length > 1 && (
+          <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500">
+            <mark className={`bg-${theme.id}-500/20 text-slate-100 rounded px-1`}>Highlighted</mark> words differ between vibes
+          </span>
+        )}
+      </div>
+
+      {compared && (
+        <div className="grid md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {vibeOptions.filter(v => takes[v.id]).map(vibe => {
+            const take = takes[vibe.id];
+            const item = take.result ? toItem(vibe.id, take.result) : null;
+            return (
+              <section key={vibe.id} className="glass border border-white/5 rounded-[2rem] p-5 flex flex-col gap-4" aria-busy={take.status === 'pending' || take.status === 'streaming'}>
+                <header>
+                  <h3 className={`text-xs font-black uppercase tracking-widest text-${theme.accent}`}>{vibe.label}</h3>
+                  <p className="text-[9px] font-medium text-slate-500">{vibe.desc}</p>
+                </header>
+
+                <div className="flex-1 min-h-[4rem]">
+                  {take.status === 'error' ? (
+                    <p className="text-[11px] font-bold uppercase tracking-widest text-red-400">Failed ({take.errorCode})</p>
+                  ) : take.status === 'done' && diffs[vibe.id] ? (
+                    <p className="text-lg text-slate-100 font-semibold leading-snug break-words">
+                      {diffs[vibe.id].map((token, i) =>
+                        token.distinct
+                          ? <mark key={i} className={`bg-${theme.id}-500/20 text-white rounded px-0.5`}>{token.text}</mark>
+                          : <span key={i}>{token.text}</span>
+                      )}
+                    </p>
+                  ) : (
+                    <p className="text-lg text-slate-300 font-semibold leading-snug break-words">
+                      {take.text || (
+                        take.status === 'pending'
+                          ? <span className="text-slate-600 text-sm">Queued</span>
+                          : <span className="text-slate-600 text-sm animate-pulse">Vibing...</span>
+                      )}
+                    </p>
+                  )}
+                  {showPhonetic && take.transliteration && (
+                    <p className="text-xs text-slate-500 italic mt-2">{take.transliteration}</p>
+                  )}
+                  {take.result?.explanation && (
+                    <p className="text-[11px] text-slate-500 mt-3 leading-relaxed">{take.result.explanation}</p>
+                  )}
+                </div>
+
+                {item && (
+                  <div className="flex flex-wrap gap-2">
+                    <button onClick={() => copy(vibe.id, take)} className={actionClass}>
+                      {copiedId === vibe.id ? 'Copied' : 'Copy'}
+                    </button>
+                    <button onClick={() => onSave(item)} className={actionClass}>
+                      {isSaved(item) ? 'Saved' : 'Save'}
+                    </button>
+                    <button
+                      onClick={() => onPick(item)}
+                      className={`px-3 py-1.5 rounded-xl text-[9px] font-black uppercase tracking-widest bg-${theme.primary} hover:bg-${theme.secondary} text-white transition-all`}
+                    >
+                      Use this
+                    </button>
+                  </div>
+                )}
+              </section>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompareView;
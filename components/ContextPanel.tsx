@@ -0,0 +1,161 @@
+import React, { useId, useState } from 'react';
+import { ContextTurn, ThemeConfig, TranslationContext } from '../types';
+
+interface ContextPanelProps {
+  value: TranslationContext;
+  onChange: (value: TranslationContext) => void;
+  theme: ThemeConfig;
+  lastPair?: ContextTurn | null;
+}
+
+const AUDIENCE_PRESETS = ['Barkada', 'Family elder', 'Boss', 'Customer', 'Stranger'];
+
+export const isContextEmpty = (context: TranslationContext): boolean =>
+  !context.situation?.trim() && !context.audience?.trim() && !(context.previousTurns && context.previousTurns.length);
+
+const ContextPanel: React.FC<ContextPanelProps> = ({ value, onChange, theme, lastPair }) => {
+  const [isOpen, setIsOpen] = useState(() => !isContextEmpty(value));
+  const [draftSource, setDraftSource] = useState('');
+  const [draftTarget, setDraftTarget] = useState('');
+  const contentId = useId();
+
+  const turns = value.previousTurns || [];
+  const isActive = !isContextEmpty(value);
+
+  const update = (patch: Partial<TranslationContext>) => onChange({ ...value, ...patch });
+
+  const addTurn = (turn: ContextTurn) => {
+    if (!turn.source.trim() || !turn.target.trim()) return;
+    update({ previousTurns: [...turns, { source: turn.source.trim(), target: turn.target.trim() }] });
+  };
+
+  const addDraftTurn = () => {
+    addTurn({ source: draftSource, target: draftTarget });
+    setDraftSource('');
+    setDraftTarget('');
+  };
+
+  const removeTurn = (index: number) => {
+    update({ previousTurns: turns.filter((_, i) => i !== index) });
+  };
+
+  const inputClass = `w-full bg-slate-950/40 border border-slate-800/50 text-slate-100 rounded-xl px-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-${theme.id}-500/20 placeholder:text-slate-700 placeholder:italic`;
+
+  return (
+    <div className="mb-10">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        aria-controls={contentId}
+        className="w-full flex items-center justify-between px-1 mb-2"
+      >
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500">Chat Context</span>
+          {isActive && (
+            <span className={`text-[9px] font-black uppercase tracking-widest text-${theme.accent} bg-${theme.id}-500/10 border border-${theme.id}-500/20 px-2 py-0.5 rounded-full`}>Active</span>
+          )}
+        </div>
+        <svg className={`w-3 h-3 text-slate-500 transition-transform duration-500 ${isOpen ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      <div id={contentId} className={`grid-transition ${isOpen ? 'expanded' : ''}`} aria-hidden={!isOpen}>
+        <div className="grid-content">
+          <div className="glass rounded-2xl p-5 border border-white/5 grid gap-5 mt-2">
+            <div className="grid md:grid-cols-2 gap-4">
+              <label className="flex flex-col gap-1.5">
+                <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">Situation</span>
+                <input
+                  value={value.situation || ''}
+                  onChange={(e) => update({ situation: e.target.value })}
+                  placeholder='e.g. "texting my tita"'
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex flex-col gap-1.5">
+                <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">Audience</span>
+                <input
+                  value={value.audience || ''}
+                  onChange={(e) => update({ audience: e.target.value })}
+                  placeholder="Who's reading it?"
+                  className={inputClass}
+                />
+              </label>
+            </div>
+            <div className="flex flex-wrap gap-2 -mt-2">
+              {AUDIENCE_PRESETS.map((preset) => (
+                <button
+                  key={preset}
+                  onClick={() => update({ audience: preset })}
+                  className={`px-3 py-1 rounded-full border text-[9px] font-black uppercase tracking-widest transition-all ${
+                    value.audience === preset
+                      ? `bg-${theme.id}-500/10 border-${theme.id}-500/30 text-${theme.accent}`
+                      : 'bg-slate-800/40 border-white/5 text-slate-500 hover:text-slate-300'
+                  }`}
+                >
+                  {preset}
+                </button>
+              ))}
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">Previous messages</span>
+                {lastPair && (
+                  <button
+                    onClick={() => addTurn(lastPair)}
+                    className={`text-[9px] font-black uppercase tracking-widest text-${theme.accent} opacity-70 hover:opacity-100`}
+                  >
+                    + Add last translation
+                  </button>
+                )}
+              </div>
+              {turns.length > 0 && (
+                <ol className="flex flex-col gap-2 mb-3">
+                  {turns.map((turn, i) => (
+                    <li key={i} className="flex items-center gap-3 bg-slate-800/30 border border-white/5 rounded-xl px-4 py-2">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-[11px] text-slate-500 italic truncate">"{turn.source}"</p>
+                        <p className="text-sm text-slate-200 font-medium truncate">{turn.target}</p>
+                      </div>
+                      <button
+                        onClick={() => removeTurn(i)}
+                        aria-label="Remove message from context"
+                        className="text-slate-600 hover:text-red-400 transition-colors"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M6 18L18 6M6 6l12 12" /></svg>
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              )}
+              <div className="grid md:grid-cols-[1fr_1fr_auto] gap-2">
+                <input value={draftSource} onChange={(e) => setDraftSource(e.target.value)} placeholder="Original" className={inputClass} />
+                <input value={draftTarget} onChange={(e) => setDraftTarget(e.target.value)} placeholder="As sent" className={inputClass} />
+                <button
+                  onClick={addDraftTurn}
+                  disabled={!draftSource.trim() || !draftTarget.trim()}
+                  className="px-4 py-2 rounded-xl bg-slate-800/50 border border-white/5 text-[10px] font-black uppercase tracking-widest text-slate-300 hover:bg-slate-700 disabled:opacity-30 disabled:cursor-not-allowed transition-all"
+                >
+                  Add
+                </button>
+              </div>
+            </div>
+
+            {isActive && (
+              <button
+                onClick={() => onChange({})}
+                className="justify-self-start text-[10px] font-bold uppercase text-slate-600 hover:text-red-400 transition-colors tracking-widest"
+              >
+                Clear context
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ContextPanel;
@@ -0,0 +1,323 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { translateWithSlangStream, speakText } from '../services/geminiService';
+import { ConversationMessage, ContextTurn, Speaker, ThemeConfig, VibeMode } from '../types';
+import LanguageSelector from './LanguageSelector';
+import SlangChip from './SlangChip';
+import { isAbortError, toTranslationError } from '../services/errors';
+import { languageFlag } from '../services/languages';
+import { getPreferredVoice, getSpeechRate } from '../services/voices';
+import { isRecord, isString, stringOr, toTranslationResult } from '../services/guards';
+import { DEFAULT_VIBE } from '../services/vibes';
+
+const CONVERSATION_KEY = 'kanto_conversation';
+const SETTINGS_KEY_SPEAKERS = 'kanto_setting_conversation_langs';
+
+interface ConversationViewProps {
+  vibeMode: VibeMode;
+  theme: ThemeConfig;
+  lowPerf: boolean;
+  showPhonetic: boolean;
+  canTranslate: boolean;
+  controls?: React.ReactNode;
+}
+
+const otherSpeaker = (speaker: Speaker): Speaker => (speaker === 'a' ? 'b' : 'a');
+
+const DEFAULT_SPEAKER_LANGS: Record<Speaker, string> = { a: 'en', b: 'tl' };
+
+const loadSpeakerLangs = (): Record<Speaker, string> => {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(SETTINGS_KEY_SPEAKERS) || 'null');
+    if (isRecord(saved)) {
+      return { a: stringOr(saved.a, DEFAULT_SPEAKER_LANGS.a), b: stringOr(saved.b, DEFAULT_SPEAKER_LANGS.b) };
+    }
+  } catch (e) {
+    console.error("Failed to parse conversation languages", e);
+  }
+  return DEFAULT_SPEAKER_LANGS;
+};
+
+// Turns that can't be read back are dropped rather than breaking the thread.
+const toMessage = (value: unknown): ConversationMessage | null => {
+  if (!isRecord(value) || !isString(value.id) || !isString(value.inputText)) return null;
+  if (value.speaker !== 'a' && value.speaker !== 'b') return null;
+  if (!isString(value.sourceLang) || !isString(value.targetLang)) return null;
+  return {
+    id: value.id,
+    timestamp: typeof value.timestamp === 'number' ? value.timestamp : 0,
+    speaker: value.speaker,
+    inputText: value.inputText,
+    sourceLang: value.sourceLang,
+    targetLang: value.targetLang,
+    vibeMode: isString(value.vibeMode) && value.vibeMode ? value.vibeMode : DEFAULT_VIBE,
+    result: toTranslationResult(value.result) || undefined,
+    errorKey: isString(value.errorKey) ? value.errorKey : undefined,
+  };
+};
+
+const loadMessages = (): ConversationMessage[] => {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(CONVERSATION_KEY) || '[]');
+    if (Array.isArray(saved)) return saved.map(toMessage).filter((m): m is ConversationMessage => m !== null);
+  } catch (e) {
+    console.error("Failed to parse conversation", e);
+  }
+  return [];
+};
+
+// Earlier successful turns, in order, so the service can keep pronouns and tone consistent.
+const toContextTurns = (messages: ConversationMessage[]): ContextTurn[] =>
+  messages
+    .filter(m => m.result)
+    .map(m => ({ source: m.inputText, target: m.result!.translatedText }));
+
+const ConversationView: React.FC<ConversationViewProps> = ({ vibeMode, theme, lowPerf, showPhonetic, canTranslate, controls }) => {
+  const [speakerLangs, setSpeakerLangs] = useState<Record<Speaker, string>>(loadSpeakerLangs);
+  const [messages, setMessages] = useState<ConversationMessage[]>(loadMessages);
+  const [activeSpeaker, setActiveSpeaker] = useState<Speaker>(() => {
+    const last = loadMessages().slice(-1)[0];
+    return last ? otherSpeaker(last.speaker) : 'a';
+  });
+  const [draft, setDraft] = useState('');
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [streamingText, setStreamingText] = useState('');
+  const threadEndRef = useRef<HTMLDivElement>(null);
+  const activeRequest = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    localStorage.setItem(SETTINGS_KEY_SPEAKERS, JSON.stringify(speakerLangs));
+  }, [speakerLangs]);
+
+  useEffect(() => {
+    localStorage.setItem(CONVERSATION_KEY, JSON.stringify(messages));
+  }, [messages]);
+
+  useEffect(() => () => activeRequest.current?.abort(), []);
+
+  useEffect(() => {
+    threadEndRef.current?.scrollIntoView({ behavior: lowPerf ? 'auto' : 'smooth', block: 'nearest' });
+  }, [messages.length, streamingText, lowPerf]);
+
+  const sendTurn = async () => {
+    const text = draft.trim();
+    if (!text || pendingId || !canTranslate) return;
+
+    const speaker = activeSpeaker;
+    const message: ConversationMessage = {
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      speaker,
+      inputText: text,
+      sourceLang: speakerLangs[speaker],
+      targetLang: speakerLangs[otherSpeaker(speaker)],
+      vibeMode,
+    };
+
+    const context = { previousTurns: toContextTurns(messages) };
+    const controller = new AbortController();
+    activeRequest.current = controller;
+    setMessages(prev => [...prev, message]);
+    setDraft('');
+    setPendingId(message.id);
+    setStreamingText('');
+    setActiveSpeaker(otherSpeaker(speaker));
+
+    try {
+      const result = await translateWithSlangStream(
+        text,
+        message.sourceLang,
+        message.targetLang,
+        vibeMode,
+        (partial) => setStreamingText(partial.translatedText || ''),
+        { context, signal: controller.signal }
+      );
+      setMessages(prev => prev.map(m => (m.id === message.id ? { ...m, result } : m)));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      const { code } = toTranslationError(err);
+      setMessages(prev => prev.map(m => (m.id === message.id ? { ...m, errorKey: code } : m)));
+    } finally {
+      if (activeRequest.current === controller) {
+        activeRequest.current = null;
+        setPendingId(null);
+        setStreamingText('');
+      }
+    }
+  };
+
+  const retryTurn = (message: ConversationMessage) => {
+    setMessages(prev => prev.filter(m => m.id !== message.id));
+    setActiveSpeaker(message.speaker);
+    setDraft(message.inputText);
+  };
+
+  const cancelTurn = () => {
+    const pending = messages.find(m => m.id === pendingId);
+    activeRequest.current?.abort();
+    activeRequest.current = null;
+    setPendingId(null);
+    setStreamingText('');
+    if (pending) retryTurn(pending);
+  };
+
+  const clearConversation = () => {
+    activeRequest.current?.abort();
+    activeRequest.current = null;
+    setPendingId(null);
+    setStreamingText('');
+    setMessages([]);
+    setActiveSpeaker('a');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      sendTurn();
+    }
+  };
+
+  const speakerLabel = (speaker: Speaker) => {
+    return `${languageFlag(speakerLangs[speaker])} ${speaker === 'a' ? 'Speaker A' : 'Speaker B'}`;
+  };
+
+  return (
+    <div className={`bg-slate-900/40 ${!lowPerf ? 'backdrop-blur-3xl' : ''} border border-white/5 rounded-[2.5rem] p-6 lg:p-10 shadow-2xl relative overflow-hidden`}>
+      <div className="flex flex-col md:flex-row items-center gap-4 mb-8">
+        <LanguageSelector label="Speaker A speaks" value={speakerLangs.a} onChange={(v) => setSpeakerLangs(prev => ({ ...prev, a: v }))} />
+        <LanguageSelector label="Speaker B speaks" value={speakerLangs.b} onChange={(v) => setSpeakerLangs(prev => ({ ...prev, b: v }))} />
+      </div>
+
+      {controls}
+
+      <div className="flex justify-between items-center mb-4 px-1">
+        <span className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500">Thread</span>
+        {messages.length > 0 && (
+          <button
+            onClick={clearConversation}
+            className="text-[10px] font-bold uppercase text-slate-600 hover:text-red-400 transition-colors tracking-widest"
+          >
+            New conversation
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-4 max-h-[32rem] overflow-y-auto pr-1 mb-8" aria-live="polite">
+        {messages.length === 0 && (
+          <p className="text-center text-sm text-slate-600 italic py-10">Pass the phone back and forth. Each turn gets translated for the other side.</p>
+        )}
+        {messages.map((message) => {
+          const isRight = message.speaker === 'b';
+          const isPending = message.id === pendingId;
+          return (
+            <div key={message.id} className={`flex ${isRight ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[85%] glass border rounded-[2rem] p-5 ${isRight ? `border-${theme.id}-500/20 rounded-br-md` : 'border-white/5 rounded-bl-md'}`}>
+                <div className="flex items-center gap-2 mb-2">
+                  <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">{speakerLabel(message.speaker)}</span>
+                  {message.result && (
+                    <span className={`text-[9px] font-black uppercase tracking-tighter text-${theme.accent} opacity-70`}>{message.result.vibe}</span>
+                  )}
+                </div>
+                <p className="text-[11px] text-slate-500 italic mb-2">"{message.inputText}"</p>
+
+                {isPending && (
+                  <p className="text-lg font-jakarta font-bold text-white leading-snug">
+                    {streamingText}
+                    <span className={`inline-block w-1 h-5 ml-1 bg-${theme.accent} ${!lowPerf ? 'animate-pulse' : ''} rounded-full align-middle`} />
+                  </p>
+                )}
+
+                {message.result && (
+                  <>
+                    <div className="flex items-start gap-3">
+                      <p className="flex-1 text-lg font-jakarta font-bold text-white leading-snug">{message.result.translatedText}</p>
+                      <button
+                        onClick={() => speakText(message.result!.translatedText, getPreferredVoice(message.targetLang), getSpeechRate())}
+                        disabled={!canTranslate}
+                        aria-label="Play translation"
+                        className="p-2 rounded-xl bg-slate-800/50 hover:bg-slate-700 text-slate-400 border border-white/5 transition-all shrink-0"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" /></svg>
+                      </button>
+                    </div>
+                    {showPhonetic && message.result.transliteration && (
+                      <p className="mt-1 text-sm font-mono text-slate-500 italic">{message.result.transliteration}</p>
+                    )}
+                    {message.result.slangUsed.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mt-3">
+                        {message.result.slangUsed.map((detail, idx) => (
+                          <SlangChip key={idx} detail={detail} theme={theme} lowPerf={lowPerf} />
+                        ))}
+                      </div>
+                    )}
+                  </>
+                )}
+
+                {message.errorKey && (
+                  <div className="flex items-center justify-between gap-3 mt-1">
+                    <span className="text-[10px] font-bold uppercase tracking-widest text-red-400">Turn failed ({message.errorKey})</span>
+                    <button
+                      onClick={() => retryTurn(message)}
+                      className="text-[10px] font-black uppercase tracking-widest text-red-300 hover:text-red-200"
+                    >
+                      Edit & resend
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+        <div ref={threadEndRef} />
+      </div>
+
+      <div className="flex gap-2 mb-3">
+        {(['a', 'b'] as Speaker[]).map((speaker) => (
+          <button
+            key={speaker}
+            onClick={() => setActiveSpeaker(speaker)}
+            aria-pressed={activeSpeaker === speaker}
+            className={`px-4 py-2 rounded-2xl border text-[10px] font-black uppercase tracking-widest transition-all ${
+              activeSpeaker === speaker
+                ? `bg-${theme.id}-500/20 border-${theme.id}-500/50 text-white`
+                : 'bg-slate-800/40 border-white/5 text-slate-500 hover:text-slate-300'
+            }`}
+          >
+            {speakerLabel(speaker)}
+          </button>
+        ))}
+      </div>
+
+      <div className="relative">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={`${activeSpeaker === 'a' ? 'Speaker A' : 'Speaker B'}, say something...`}
+          className={`w-full bg-slate-950/40 border border-slate-800/50 text-slate-100 rounded-[2rem] p-6 pr-40 h-28 focus:outline-none focus:ring-2 focus:ring-${theme.id}-500/20 transition-all resize-none text-lg leading-relaxed placeholder:text-slate-700 placeholder:italic`}
+        />
+        {pendingId && (
+          <button
+            onClick={cancelTurn}
+            aria-label="Stop translation"
+            className="absolute bottom-5 right-36 px-4 py-3 rounded-2xl font-black transition-all bg-red-500/10 hover:bg-red-500/20 text-red-300 border border-red-500/20"
+          >
+            <span className="uppercase tracking-widest text-xs">Stop</span>
+          </button>
+        )}
+        <button
+          onClick={sendTurn}
+          disabled={!!pendingId || !draft.trim() || !canTranslate}
+          className={`absolute bottom-5 right-5 px-6 py-3 rounded-2xl font-black transition-all ${
+            pendingId || !draft.trim() || !canTranslate
+              ? 'bg-slate-800 text-slate-600 cursor-not-allowed'
+              : `bg-${theme.primary} hover:bg-${theme.secondary} text-white hover:scale-105 active:scale-95 border-b-4 border-${theme.id}-700`
+          }`}
+        >
+          <span className="uppercase tracking-widest text-xs">{pendingId ? 'Vibing...' : 'Send'}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ConversationView;
@@ -0,0 +1,172 @@
+import React, { useId, useRef, useState } from 'react';
+import { ThemeConfig } from '../types';
+import {
+  buildExport,
+  ExportFormat,
+  exportFileName,
+  ExportSelection,
+  ImportError,
+  importData,
+  ImportReport,
+  parseImportFile,
+  serializeExport,
+} from '../services/dataTransfer';
+
+interface DataTransferPanelProps {
+  theme: ThemeConfig;
+  onImported: () => void;
+}
+
+const FORMATS: { id: ExportFormat; label: string; desc: string }[] = [
+  { id: 'json', label: 'JSON', desc: 'Full backup, re-importable' },
+  { id: 'csv', label: 'CSV', desc: 'Spreadsheets, re-importable' },
+  { id: 'anki', label: 'Anki', desc: 'Tab-separated flashcard deck' },
+];
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  anki: 'text/tab-separated-values',
+};
+
+const downloadText = (text: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: `${type};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const DataTransferPanel: React.FC<DataTransferPanelProps> = ({ theme, onImported }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('json');
+  const [selection, setSelection] = useState<ExportSelection>({ history: true, phrasebook: true, glossary: true });
+  const [isBusy, setIsBusy] = useState(false);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const contentId = useId();
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    try {
+      const data = await buildExport(selection);
+      downloadText(serializeExport(data, format), exportFileName(format), MIME_TYPES[format]);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setIsBusy(true);
+    setReport(null);
+    setImportError(null);
+    try {
+      const data = parseImportFile(file.name, await file.text());
+      setReport(await importData(data));
+      onImported();
+    } catch (e) {
+      console.error("Import failed", e);
+      setImportError(e instanceof ImportError ? e.message : "Couldn't import that file.");
+    } finally {
+      setIsBusy(false);
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  const toggle = (key: keyof ExportSelection) => setSelection(prev => ({ ...prev, [key]: !prev[key] }));
+  const nothingSelected = !selection.history && !selection.phrasebook && !selection.glossary;
+
+  return (
+    <div className="mt-12">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        aria-controls={contentId}
+        className="w-full flex items-center justify-between px-4 mb-2"
+      >
+        <span className="text-[10px] font-black uppercase tracking-[0.4em] text-slate-500">Backup & Share</span>
+        <svg className={`w-3 h-3 text-slate-500 transition-transform duration-500 ${isOpen ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      <div id={contentId} className={`grid-transition ${isOpen ? 'expanded' : ''}`} aria-hidden={!isOpen}>
+        <div className="grid-content">
+          <div className="glass rounded-2xl p-5 border border-white/5 grid md:grid-cols-2 gap-8 mt-2">
+            <section>
+              <h4 className="text-[9px] font-black uppercase tracking-widest text-slate-500 mb-3">Export</h4>
+              <div className="flex flex-wrap gap-3 mb-4">
+                {(['history', 'phrasebook', 'glossary'] as (keyof ExportSelection)[]).map(key => (
+                  <label key={key} className="flex items-center gap-2 text-xs text-slate-300 capitalize cursor-pointer">
+                    <input type="checkbox" checked={selection[key]} onChange={() => toggle(key)} />
+                    {key}
+                  </label>
+                ))}
+              </div>
+              <div className="grid grid-cols-3 gap-2 mb-4" role="radiogroup" aria-label="Export format">
+                {FORMATS.map(f => (
+                  <button
+                    key={f.id}
+                    role="radio"
+                    aria-checked={format === f.id}
+                    onClick={() => setFormat(f.id)}
+                    title={f.desc}
+                    className={`py-2 rounded-xl border text-[10px] font-black uppercase tracking-widest transition-all ${format === f.id ? `bg-${theme.id}-500/10 border-${theme.id}-500/30 text-${theme.accent}` : 'bg-slate-800/40 border-white/5 text-slate-500 hover:text-slate-300'}`}
+                  >
+                    {f.label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[11px] text-slate-600 mb-4">{FORMATS.find(f => f.id === format)?.desc}</p>
+              <button
+                onClick={handleExport}
+                disabled={isBusy || nothingSelected}
+                className={`px-5 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-${theme.primary} hover:bg-${theme.secondary} text-white transition-all disabled:opacity-40`}
+              >
+                Download
+              </button>
+            </section>
+
+            <section>
+              <h4 className="text-[9px] font-black uppercase tracking-widest text-slate-500 mb-3">Import</h4>
+              <p className="text-[11px] text-slate-500 mb-4 leading-relaxed">
+                Load a Kanto JSON or CSV export. Entries you already have are skipped, and saved phrases merge into collections with the same name.
+              </p>
+              <input
+                ref={fileInput}
+                type="file"
+                accept=".json,.csv,application/json,text/csv"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImport(file);
+                }}
+                className="hidden"
+              />
+              <button
+                onClick={() => fileInput.current?.click()}
+                disabled={isBusy}
+                className="px-5 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-800/60 hover:bg-slate-700 text-slate-200 border border-white/5 transition-all disabled:opacity-40"
+              >
+                {isBusy ? 'Working...' : 'Choose file'}
+              </button>
+              <div aria-live="polite" className="mt-4 text-[11px]">
+                {report && (
+                  <p className="text-slate-400">
+                    Added {report.historyAdded} history {report.historyAdded === 1 ? 'entry' : 'entries'} and {report.phrasesAdded} saved {report.phrasesAdded === 1 ? 'phrase' : 'phrases'}.
+                    {report.duplicates > 0 && ` Skipped ${report.duplicates} already here.`}
+                    {report.invalid > 0 && ` Ignored ${report.invalid} unreadable.`}
+                  </p>
+                )}
+                {importError && <p className="text-red-400">{importError}</p>}
+              </div>
+            </section>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DataTransferPanel;
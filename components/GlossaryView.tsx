@@ -0,0 +1,172 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { HistoryItem, ThemeConfig } from '../types';
+import { getLanguage } from '../services/languages';
+import { VibeOption } from './VibeSelector';
+import { buildGlossary, GlossaryEntry, groupGlossary, normalizeTerm } from '../services/glossary';
+import { getAllHistory } from '../services/historyStore';
+import { getAllPhrases } from '../services/phrasebook';
+
+interface GlossaryViewProps {
+  theme: ThemeConfig;
+  lowPerf: boolean;
+  vibeOptions: VibeOption[];
+  refreshKey: number;
+  onRestore: (item: HistoryItem) => void;
+}
+
+type SortMode = 'frequency' | 'recent' | 'alpha';
+
+const MAX_EXAMPLES = 5;
+
+const sorters: Record<SortMode, (a: GlossaryEntry, b: GlossaryEntry) => number> = {
+  frequency: (a, b) => b.count - a.count || a.term.localeCompare(b.term),
+  recent: (a, b) => b.lastSeen - a.lastSeen,
+  alpha: (a, b) => a.term.localeCompare(b.term),
+};
+
+const GlossaryView: React.FC<GlossaryViewProps> = ({ theme, lowPerf, vibeOptions, refreshKey, onRestore }) => {
+  const [items, setItems] = useState<HistoryItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [sortMode, setSortMode] = useState<SortMode>('frequency');
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([getAllHistory(), getAllPhrases()]).then(([history, phrases]) => {
+      setItems([...history, ...phrases.map(p => p.item)]);
+      setIsLoading(false);
+    });
+  }, [refreshKey]);
+
+  const entries = useMemo(() => buildGlossary(items), [items]);
+
+  const groups = useMemo(() => {
+    const query = normalizeTerm(search);
+    const filtered = query
+      ? entries.filter(e =>
+          normalizeTerm(e.term).includes(query) ||
+          e.meanings.some(m => normalizeTerm(m).includes(query))
+        )
+      : entries;
+    return groupGlossary(filtered).map(group => ({ ...group, entries: [...group.entries].sort(sorters[sortMode]) }));
+  }, [entries, search, sortMode]);
+
+  const itemsById = useMemo(() => new Map(items.map(item => [item.id, item])), [items]);
+
+  const vibeLabel = (id: string) => vibeOptions.find(v => v.id === id)?.label || id;
+
+  return (
+    <div className={`bg-slate-900/40 ${!lowPerf ? 'backdrop-blur-3xl' : ''} border border-white/5 rounded-[2.5rem] p-6 lg:p-10 shadow-2xl`}>
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+        <h2 className={`text-[10px] font-black uppercase tracking-[0.3em] text-${theme.accent}`}>
+          Slang Glossary <span className="text-slate-600">({entries.length})</span>
+        </h2>
+        <div className="flex gap-2">
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search terms or meanings..."
+            aria-label="Search glossary"
+            className={`md:w-64 bg-slate-950/40 border border-slate-800/50 text-slate-100 rounded-2xl px-5 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-${theme.id}-500/20 placeholder:text-slate-700 placeholder:italic`}
+          />
+          <select
+            value={sortMode}
+            onChange={(e) => setSortMode(e.target.value as SortMode)}
+            aria-label="Sort glossary"
+            className="bg-slate-800/50 border border-slate-700/50 text-slate-200 rounded-2xl px-3 text-xs focus:outline-none"
+          >
+            <option value="frequency">Most used</option>
+            <option value="recent">Recent</option>
+            <option value="alpha">A–Z</option>
+          </select>
+        </div>
+      </div>
+
+      {isLoading ? null : groups.length === 0 ? (
+        <p className="text-center text-sm text-slate-600 italic py-12">
+          {entries.length === 0
+            ? 'No slang collected yet. Every term Kanto explains in a translation lands here.'
+            : 'No terms match.'}
+        </p>
+      ) : (
+        <div className="grid gap-10">
+          {groups.map(group => {
+            const language = getLanguage(group.language);
+            return (
+              <section key={`${group.language}-${group.vibeMode}`}>
+                <h3 className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-500 mb-4 px-1">
+                  {language?.flag} {language?.name || group.language} · <span className={`text-${theme.accent}`}>{vibeLabel(group.vibeMode)}</span>
+                  <span className="text-slate-700 ml-2">{group.entries.length}</span>
+                </h3>
+                <div className="grid gap-2">
+                  {group.entries.map(entry => {
+                    const isOpen = expandedKey === entry.key;
+                    return (
+                      <div key={entry.key} className="glass border border-white/5 rounded-2xl">
+                        <button
+                          onClick={() => setExpandedKey(isOpen ? null : entry.key)}
+                          aria-expanded={isOpen}
+                          className="w-full text-left p-4 flex items-center justify-between gap-4"
+                        >
+                          <div className="min-w-0">
+                            <span className={`font-mono font-bold text-sm ${isOpen ? `text-${theme.accent}` : 'text-slate-100'}`}>{entry.term}</span>
+                            <p className="text-[11px] text-slate-500 truncate mt-0.5">{entry.meanings[0]}</p>
+                          </div>
+                          <span className="shrink-0 text-[9px] font-black uppercase tracking-widest text-slate-600 bg-slate-800/60 px-2 py-0.5 rounded-full border border-white/5">
+                            {entry.count}×
+                          </span>
+                        </button>
+                        {isOpen && (
+                          <div className="px-4 pb-4 grid gap-4 border-t border-white/5 pt-4">
+                            <div>
+                              <h4 className="text-[9px] font-black uppercase tracking-widest text-slate-500 mb-2">Meaning</h4>
+                              <ul className="grid gap-1">
+                                {entry.meanings.map((meaning, i) => <li key={i} className="text-[12px] text-slate-200">{meaning}</li>)}
+                              </ul>
+                            </div>
+                            {entry.contexts.length > 0 && (
+                              <div>
+                                <h4 className="text-[9px] font-black uppercase tracking-widest text-slate-500 mb-2">Context</h4>
+                                <ul className="grid gap-1">
+                                  {entry.contexts.map((context, i) => <li key={i} className="text-[11px] text-slate-400 italic">{context}</li>)}
+                                </ul>
+                              </div>
+                            )}
+                            <div>
+                              <h4 className="text-[9px] font-black uppercase tracking-widest text-slate-500 mb-2">Seen in</h4>
+                              <div className="grid gap-2">
+                                {entry.examples.slice(0, MAX_EXAMPLES).map(example => {
+                                  const item = itemsById.get(example.itemId);
+                                  return (
+                                    <button
+                                      key={example.itemId}
+                                      onClick={() => item && onRestore(item)}
+                                      className="text-left p-3 rounded-xl bg-slate-800/30 border border-white/5 hover:bg-slate-800/60 transition-all"
+                                    >
+                                      <p className="text-sm text-slate-100 font-medium">{example.translatedText}</p>
+                                      <p className="text-[10px] text-slate-500 italic">"{example.inputText}"</p>
+                                    </button>
+                                  );
+                                })}
+                                {entry.examples.length > MAX_EXAMPLES && (
+                                  <p className="text-[10px] text-slate-600">+{entry.examples.length - MAX_EXAMPLES} more</p>
+                                )}
+                              </div>
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </section>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GlossaryView;
@@ -0,0 +1,311 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { HistoryItem, ThemeConfig, VibeMode } from '../types';
+import { AUTO_DETECT, getLanguages, languageFlag, languageName } from '../services/languages';
+import { itemTranslations } from '../services/multiTarget';
+import {
+  clearHistory,
+  countHistory,
+  enforceRetention,
+  HistoryFilters,
+  HistoryRetention,
+  loadRetention,
+  queryHistory,
+  saveRetention,
+} from '../services/historyStore';
+import { vibeName } from '../services/vibes';
+import { VibeOption } from './VibeSelector';
+
+interface HistoryPanelProps {
+  theme: ThemeConfig;
+  lowPerf: boolean;
+  vibeOptions: VibeOption[];
+  showPhonetic: boolean;
+  refreshKey: number;
+  isActive: (item: HistoryItem) => boolean;
+  isSaved: (item: HistoryItem) => boolean;
+  onRestore: (item: HistoryItem) => void;
+  onSave: (item: HistoryItem) => void;
+  onCleared: () => void;
+}
+
+const PAGE_SIZE = 50;
+const ROW_HEIGHT = 84;
+const VIEWPORT_HEIGHT = 560;
+const OVERSCAN = 4;
+const SEARCH_DEBOUNCE_MS = 200;
+
+const RETENTION_PRESETS: { label: string; value: HistoryRetention }[] = [
+  { label: 'Keep 5,000', value: { maxItems: 5000, maxAgeDays: null } },
+  { label: 'Keep 1,000', value: { maxItems: 1000, maxAgeDays: null } },
+  { label: '90 days', value: { maxItems: null, maxAgeDays: 90 } },
+  { label: '30 days', value: { maxItems: null, maxAgeDays: 30 } },
+  { label: 'Forever', value: { maxItems: null, maxAgeDays: null } },
+];
+
+const retentionLabel = (retention: HistoryRetention) =>
+  RETENTION_PRESETS.find(p => p.value.maxItems === retention.maxItems && p.value.maxAgeDays === retention.maxAgeDays)?.label || 'Custom';
+
+const formatTimestamp = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return date.toDateString() === new Date().toDateString()
+    ? time
+    : `${date.toLocaleDateString([], { month: 'short', day: 'numeric' })} ${time}`;
+};
+
+const dayStart = (value: string) => (value ? new Date(`${value}T00:00:00`).getTime() : undefined);
+const dayEnd = (value: string) => (value ? new Date(`${value}T23:59:59.999`).getTime() : undefined);
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ theme, lowPerf, vibeOptions, showPhonetic, refreshKey, isActive, isSaved, onRestore, onSave, onCleared }) => {
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [sourceLang, setSourceLang] = useState('');
+  const [targetLang, setTargetLang] = useState('');
+  const [vibeMode, setVibeMode] = useState<VibeMode | ''>('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [showFilters, setShowFilters] = useState(false);
+  const [retention, setRetention] = useState<HistoryRetention>(loadRetention);
+
+  const [items, setItems] = useState<HistoryItem[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [storedCount, setStoredCount] = useState(0);
+  const [isLoadingPage, setIsLoadingPage] = useState(false);
+  const [isConfirmingClear, setIsConfirmingClear] = useState(false);
+  const [scrollTop, setScrollTop] = useState(0);
+  const queryId = useRef(0);
+  const viewportRef = useRef<HTMLDivElement>(null);
+
+  const filters: HistoryFilters = {
+    search: debouncedSearch,
+    sourceLang: sourceLang || undefined,
+    targetLang: targetLang || undefined,
+    vibeMode: vibeMode || undefined,
+    from: dayStart(fromDate),
+    to: dayEnd(toDate),
+  };
+  const filterKey = JSON.stringify(filters);
+  const hasFilters = !!(debouncedSearch || sourceLang || targetLang || vibeMode || fromDate || toDate);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  // Any change to the filters or the underlying data restarts from the first page.
+  useEffect(() => {
+    const id = ++queryId.current;
+    setIsLoadingPage(true);
+    Promise.all([queryHistory(filters, 0, PAGE_SIZE), countHistory()]).then(([page, count]) => {
+      if (id !== queryId.current) return;
+      setItems(page.items);
+      setHasMore(page.hasMore);
+      setStoredCount(count);
+      setIsLoadingPage(false);
+      setScrollTop(0);
+      if (viewportRef.current) viewportRef.current.scrollTop = 0;
+    });
+  }, [filterKey, refreshKey]);
+
+  const loadNextPage = () => {
+    if (isLoadingPage || !hasMore) return;
+    const id = queryId.current;
+    setIsLoadingPage(true);
+    queryHistory(filters, items.length, PAGE_SIZE).then(page => {
+      if (id !== queryId.current) return;
+      setItems(prev => [...prev, ...page.items]);
+      setHasMore(page.hasMore);
+      setIsLoadingPage(false);
+    });
+  };
+
+  const firstVisible = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastVisible = Math.min(items.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+
+  useEffect(() => {
+    if (lastVisible >= items.length - OVERSCAN) loadNextPage();
+  }, [lastVisible, items.length, hasMore]);
+
+  const handleClear = async () => {
+    await clearHistory();
+    setIsConfirmingClear(false);
+    onCleared();
+  };
+
+  const changeRetention = async (next: HistoryRetention) => {
+    setRetention(next);
+    saveRetention(next);
+    await enforceRetention(next);
+    onCleared();
+  };
+
+  if (storedCount === 0 && !isLoadingPage) return null;
+
+  const selectClass = 'bg-slate-800/50 border border-slate-700/50 text-slate-200 rounded-xl px-3 py-2 text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500/50';
+
+  return (
+    <div className={`mt-12 ${!lowPerf ? 'animate-in fade-in slide-in-from-bottom-8 duration-700' : ''}`}>
+      <div className="flex justify-between items-center mb-6 px-4">
+        <h3 className="text-[10px] font-black uppercase tracking-[0.4em] text-slate-500">
+          Recently Translated <span className="text-slate-700">({hasFilters ? `${items.length}${hasMore ? '+' : ''}` : storedCount})</span>
+        </h3>
+        <div className="flex items-center gap-4">
+          {isConfirmingClear ? (
+            <div className={`flex items-center gap-2 ${!lowPerf ? 'animate-in slide-in-from-right-2 duration-300' : ''}`}>
+              <span className="text-[9px] font-bold uppercase text-red-400 tracking-tighter">Are you sure?</span>
+              <button
+                onClick={handleClear}
+                className="text-[10px] font-black uppercase text-red-500 hover:bg-red-500/10 px-2 py-1 rounded-lg transition-colors border border-red-500/20"
+              >
+                Yes, Delete
+              </button>
+              <button
+                onClick={() => setIsConfirmingClear(false)}
+                className="text-[10px] font-black uppercase text-slate-400 hover:text-slate-200 px-2 py-1 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={() => setIsConfirmingClear(true)}
+              className="text-[10px] font-bold uppercase text-slate-600 hover:text-red-400 transition-colors tracking-widest"
+            >
+              Clear history
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="px-1 mb-4 flex flex-col gap-3">
+        <div className="flex gap-2">
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search inputs and translations..."
+            aria-label="Search history"
+            className={`flex-1 bg-slate-950/40 border border-slate-800/50 text-slate-100 rounded-2xl px-5 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-${theme.id}-500/20 placeholder:text-slate-700 placeholder:italic`}
+          />
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            aria-expanded={showFilters}
+            className={`px-4 rounded-2xl border text-[10px] font-black uppercase tracking-widest transition-all ${showFilters || hasFilters ? `bg-${theme.id}-500/10 border-${theme.id}-500/30 text-${theme.accent}` : 'bg-slate-800/40 border-white/5 text-slate-500 hover:text-slate-300'}`}
+          >
+            Filters
+          </button>
+        </div>
+
+        {showFilters && (
+          <div className="glass rounded-2xl p-4 border border-white/5 grid grid-cols-2 md:grid-cols-3 gap-3">
+            <label className="flex flex-col gap-1">
+              <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">From language</span>
+              <select value={sourceLang} onChange={(e) => setSourceLang(e.target.value)} className={selectClass}>
+                <option value="">Any</option>
+                <option value={AUTO_DETECT}>{languageFlag(AUTO_DETECT)} {languageName(AUTO_DETECT)}</option>
+                {getLanguages().map(l => <option key={l.code} value={l.code}>{l.flag} {l.name}</option>)}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">To language</span>
+              <select value={targetLang} onChange={(e) => setTargetLang(e.target.value)} className={selectClass}>
+                <option value="">Any</option>
+                {getLanguages().map(l => <option key={l.code} value={l.code}>{l.flag} {l.name}</option>)}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">Vibe</span>
+              <select value={vibeMode} onChange={(e) => setVibeMode(e.target.value as VibeMode | '')} className={selectClass}>
+                <option value="">Any</option>
+                {vibeOptions.map(v => <option key={v.id} value={v.id}>{v.label}</option>)}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">Since</span>
+              <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className={selectClass} />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">Until</span>
+              <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className={selectClass} />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">Retention</span>
+              <select
+                value={retentionLabel(retention)}
+                onChange={(e) => {
+                  const preset = RETENTION_PRESETS.find(p => p.label === e.target.value);
+                  if (preset) changeRetention(preset.value);
+                }}
+                className={selectClass}
+              >
+                {RETENTION_PRESETS.map(p => <option key={p.label} value={p.label}>{p.label}</option>)}
+              </select>
+            </label>
+            {hasFilters && (
+              <button
+                onClick={() => { setSearch(''); setSourceLang(''); setTargetLang(''); setVibeMode(''); setFromDate(''); setToDate(''); }}
+                className="col-span-full justify-self-start text-[10px] font-bold uppercase text-slate-600 hover:text-slate-300 transition-colors tracking-widest"
+              >
+                Reset filters
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {items.length === 0 && !isLoadingPage ? (
+        <p className="text-center text-sm text-slate-600 italic py-8">No translations match those filters.</p>
+      ) : (
+        <div
+          ref={viewportRef}
+          onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+          className="overflow-y-auto pr-1"
+          style={{ height: Math.min(VIEWPORT_HEIGHT, Math.max(items.length, 1) * ROW_HEIGHT) }}
+        >
+          <div className="relative" style={{ height: items.length * ROW_HEIGHT }}>
+            {items.slice(firstVisible, lastVisible).map((item, i) => {
+              const index = firstVisible + i;
+              return (
+                <div key={item.id} className="absolute left-0 right-0" style={{ top: index * ROW_HEIGHT, height: ROW_HEIGHT - 12 }}>
+                  <div className="flex gap-2 h-full">
+                    <button onClick={() => onRestore(item)} className={`group flex-1 min-w-0 h-full text-left glass border rounded-2xl p-4 flex items-center justify-between hover:bg-white/5 transition-all focus:outline-none focus:ring-2 focus:ring-slate-800 ${isActive(item) ? `border-${theme.accent}/40 bg-${theme.id}-500/5` : 'border-white/5'}`}>
+                      <div className="flex-1 min-w-0 pr-4">
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className="text-[10px] font-bold text-slate-500 uppercase">
+                            {languageFlag(item.sourceLang)} → {itemTranslations(item).map(t => languageFlag(t.targetLang)).join(' ')}
+                          </span>
+                          <span className={`text-[10px] font-black uppercase tracking-tighter text-${theme.accent} opacity-60`}>{vibeOptions.find(v => v.id === item.vibeMode)?.label || vibeName(item.vibeMode)}</span>
+                          {item.result.detectedLanguage && item.sourceLang === 'auto' && (
+                            <span className="text-[9px] font-black uppercase text-slate-600 tracking-tighter">({item.result.detectedLanguage})</span>
+                          )}
+                        </div>
+                        <p className="text-sm text-slate-100 font-bold truncate mb-0.5">{item.result.translatedText} {showPhonetic && item.result.transliteration ? `(${item.result.transliteration})` : ''}</p>
+                        <p className="text-[10px] text-slate-500 truncate italic">"{item.inputText}"</p>
+                      </div>
+                      <div className="shrink-0 flex items-center gap-3">
+                        <span className="text-[9px] font-bold text-slate-700">{formatTimestamp(item.timestamp)}</span>
+                        <svg className="w-4 h-4 text-slate-700 group-hover:text-slate-400 group-hover:translate-x-1 transition-all" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M9 5l7 7-7 7" /></svg>
+                      </div>
+                    </button>
+                    <button
+                      onClick={() => onSave(item)}
+                      aria-label={isSaved(item) ? 'Saved to phrasebook' : 'Save to phrasebook'}
+                      className={`shrink-0 w-12 glass border border-white/5 rounded-2xl flex items-center justify-center transition-all hover:bg-white/5 ${isSaved(item) ? `text-${theme.accent}` : 'text-slate-700 hover:text-slate-300'}`}
+                    >
+                      <svg className="w-4 h-4" fill={isSaved(item) ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M11.48 3.5a.56.56 0 011.04 0l2.12 5.11a.56.56 0 00.48.35l5.52.44c.5.04.7.66.32.99l-4.2 3.6a.56.56 0 00-.18.56l1.28 5.39a.56.56 0 01-.84.61l-4.72-2.88a.56.56 0 00-.59 0l-4.72 2.88a.56.56 0 01-.84-.61l1.28-5.39a.56.56 0 00-.18-.56l-4.2-3.6a.56.56 0 01.32-.99l5.52-.44a.56.56 0 00.48-.35l2.12-5.11z" /></svg>
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+      {isLoadingPage && items.length > 0 && (
+        <p className="text-center text-[9px] font-bold uppercase tracking-widest text-slate-600 mt-3">Loading older vibes...</p>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -1,43 +1,205 @@
-
-import React from 'react';
-import { LANGUAGES } from '../types';
+import React, { useEffect, useId, useMemo, useRef, useState } from 'react';
+import { Language, LanguageCode } from '../types';
+import { AUTO_DETECT, getLanguage, getLanguages, getRecentLanguages, LANGUAGE_GROUPS, languageFlag, languageName, markLanguageUsed, matchesLanguage } from '../services/languages';
 
 interface LanguageSelectorProps {
   value: string;
   onChange: (value: string) => void;
   label: string;
+  allowAuto?: boolean; // Offer "Auto-detect" (source pickers only)
+  // Multi-select: `values` holds every chosen language, the first one being `value`.
+  multiple?: boolean;
+  values?: string[];
+  onValuesChange?: (values: string[]) => void;
+  maxValues?: number;
+}
+
+interface OptionSection {
+  label: string;
+  options: { code: LanguageCode; name: string; flag: string }[];
 }
 
-const LanguageSelector: React.FC<LanguageSelectorProps> = ({ value, onChange, label }) => {
-  const selectId = `lang-select-${label.toLowerCase().replace(/\s+/g, '-')}`;
+const toOption = (language: Language) => ({ code: language.code, name: language.name, flag: language.flag });
+
+const LanguageSelector: React.FC<LanguageSelectorProps> = ({
+  value,
+  onChange,
+  label,
+  allowAuto = false,
+  multiple = false,
+  values = [value],
+  onValuesChange,
+  maxValues = Infinity,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [recent, setRecent] = useState<LanguageCode[]>(getRecentLanguages);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const searchRef = useRef<HTMLInputElement>(null);
+  const baseId = useId();
+  const buttonId = `${baseId}-button`;
+  const listId = `${baseId}-list`;
+
+  // Recent picks are pinned on top while browsing; a search shows matches only.
+  const sections = useMemo<OptionSection[]>(() => {
+    const matching = getLanguages().filter(language => matchesLanguage(language, query));
+    const result: OptionSection[] = [];
+    if (!query.trim()) {
+      if (allowAuto) result.push({ label: '', options: [{ code: AUTO_DETECT, name: languageName(AUTO_DETECT), flag: languageFlag(AUTO_DETECT) }] });
+      const pinned = recent.map(getLanguage).filter((l): l is Language => !!l);
+      if (pinned.length > 0) result.push({ label: 'Recent', options: pinned.map(toOption) });
+    }
+    LANGUAGE_GROUPS.forEach(group => {
+      const options = matching.filter(language => language.group === group.id).map(toOption);
+      if (options.length > 0) result.push({ label: group.label, options });
+    });
+    return result;
+  }, [query, recent, allowAuto]);
+
+  const flatOptions = sections.flatMap(section => section.options);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    searchRef.current?.focus();
+    const handlePointer = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handlePointer);
+    return () => document.removeEventListener('mousedown', handlePointer);
+  }, [isOpen]);
+
+  useEffect(() => setActiveIndex(0), [query]);
+
+  const open = () => {
+    setQuery('');
+    setRecent(getRecentLanguages());
+    setIsOpen(true);
+  };
+
+  const isSelected = (code: LanguageCode) => (multiple ? values.includes(code) : code === value);
+
+  // In multi-select the list stays open; the last remaining language can't be removed.
+  const select = (code: LanguageCode) => {
+    if (multiple) {
+      if (values.includes(code)) {
+        if (values.length > 1) onValuesChange?.(values.filter(v => v !== code));
+      } else if (values.length < maxValues) {
+        setRecent(markLanguageUsed(code));
+        onValuesChange?.([...values, code]);
+      }
+      return;
+    }
+    if (code !== AUTO_DETECT) setRecent(markLanguageUsed(code));
+    onChange(code);
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (flatOptions.length === 0) return;
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(i => (i + step + flatOptions.length) % flatOptions.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      const option = flatOptions[activeIndex];
+      if (option) select(option.code);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  let optionIndex = 0;
 
   return (
-    <div className="flex flex-col gap-1.5 w-full">
-      <label 
-        htmlFor={selectId}
+    <div className="flex flex-col gap-1.5 w-full" ref={containerRef}>
+      <label
+        htmlFor={buttonId}
         className="text-xs font-semibold uppercase tracking-wider text-slate-400 px-1"
       >
         {label}
       </label>
       <div className="relative">
-        <select
-          id={selectId}
-          value={value}
-          onChange={(e) => onChange(e.target.value)}
+        <button
+          id={buttonId}
+          type="button"
+          onClick={() => (isOpen ? setIsOpen(false) : open())}
+          aria-haspopup="listbox"
+          aria-expanded={isOpen}
           aria-label={`Select ${label} language`}
-          className="w-full bg-slate-800/50 border border-slate-700/50 text-slate-100 rounded-2xl px-4 py-3 appearance-none focus:outline-none focus:ring-2 focus:ring-indigo-500/50 transition-all cursor-pointer hover:bg-slate-800 focus:bg-slate-800"
+          className="w-full text-left bg-slate-800/50 border border-slate-700/50 text-slate-100 rounded-2xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-indigo-500/50 transition-all cursor-pointer hover:bg-slate-800 focus:bg-slate-800"
         >
-          {LANGUAGES.map((lang) => (
-            <option key={lang.code} value={lang.code}>
-              {lang.flag} {lang.name}
-            </option>
-          ))}
-        </select>
+          {languageFlag(value)} {languageName(value)}
+          {multiple && values.length > 1 && <span className="ml-2 text-xs font-bold text-slate-400">+{values.length - 1}</span>}
+        </button>
         <div className="absolute inset-y-0 right-0 flex items-center pr-4 pointer-events-none">
-          <svg className="w-4 h-4 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <svg className={`w-4 h-4 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" />
           </svg>
         </div>
+
+        {isOpen && (
+          <div className="absolute z-30 mt-2 w-full bg-slate-900 border border-slate-700/50 rounded-2xl shadow-2xl overflow-hidden">
+            <input
+              ref={searchRef}
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Search languages..."
+              role="combobox"
+              aria-expanded={true}
+              aria-controls={listId}
+              aria-activedescendant={flatOptions[activeIndex] ? `${listId}-${activeIndex}` : undefined}
+              aria-label={`Search ${label} languages`}
+              className="w-full bg-slate-950/60 border-b border-slate-800 text-slate-100 text-sm px-4 py-3 focus:outline-none placeholder:text-slate-600"
+            />
+            {multiple && (
+              <p className="px-4 pt-2 text-[10px] text-slate-500">
+                {Number.isFinite(maxValues) ? `Pick up to ${maxValues}. ` : ''}The first one is the main result.
+              </p>
+            )}
+            <ul id={listId} role="listbox" aria-label={label} aria-multiselectable={multiple || undefined} className="max-h-72 overflow-y-auto py-2">
+              {flatOptions.length === 0 && (
+                <li className="px-4 py-3 text-xs text-slate-500 italic">No language matches "{query}"</li>
+              )}
+              {sections.map((section, sectionIndex) => (
+                <li key={`${section.label}-${sectionIndex}`} role="presentation">
+                  {section.label && (
+                    <p className="px-4 pt-2 pb-1 text-[9px] font-black uppercase tracking-widest text-slate-500">{section.label}</p>
+                  )}
+                  <ul role="group" aria-label={section.label || undefined}>
+                    {section.options.map(option => {
+                      const index = optionIndex++;
+                      return (
+                        <li
+                          key={option.code}
+                          id={`${listId}-${index}`}
+                          role="option"
+                          aria-selected={isSelected(option.code)}
+                          onMouseEnter={() => setActiveIndex(index)}
+                          onMouseDown={(e) => e.preventDefault()}
+                          onClick={() => select(option.code)}
+                          className={`px-4 py-2 text-sm cursor-pointer flex items-center gap-2 ${
+                            index === activeIndex ? 'bg-slate-800 text-white' : 'text-slate-300'
+                          } ${isSelected(option.code) ? 'font-bold' : ''}`}
+                        >
+                          <span aria-hidden="true">{option.flag}</span>
+                          {option.name}
+                          {multiple && isSelected(option.code) && (
+                            <span className="ml-auto text-[9px] font-black uppercase tracking-widest text-slate-400">
+                              {option.code === values[0] ? 'Main' : '✓'}
+                            </span>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
     </div>
   );
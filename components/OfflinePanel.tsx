@@ -0,0 +1,102 @@
+import React from 'react';
+import { ThemeConfig } from '../types';
+import { languageFlag } from '../services/languages';
+import { OfflineMatch, QueuedTranslation } from '../services/offline';
+import { vibeName } from '../services/vibes';
+
+interface OfflinePanelProps {
+  matches: OfflineMatch[];
+  queue: QueuedTranslation[];
+  isOnline: boolean;
+  isProcessingQueue: boolean;
+  showPhonetic: boolean;
+  theme: ThemeConfig;
+  onUseMatch: (match: OfflineMatch) => void;
+  onRemoveQueued: (id: string) => void;
+}
+
+const OfflinePanel: React.FC<OfflinePanelProps> = ({
+  matches,
+  queue,
+  isOnline,
+  isProcessingQueue,
+  showPhonetic,
+  theme,
+  onUseMatch,
+  onRemoveQueued,
+}) => {
+  return (
+    <div className="animate-in fade-in slide-in-from-top-4 duration-500" aria-live="polite">
+      <div className="glass border border-white/5 rounded-[2rem] p-6 lg:p-8">
+        <div className="flex items-center gap-3 mb-2">
+          <svg className="w-4 h-4 text-slate-500" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M18.364 5.636a9 9 0 010 12.728m0 0l-2.829-2.829m2.829 2.829L21 21M15.536 8.464a5 5 0 010 7.072m0 0l-2.828-2.828m-4.243 4.243a9 9 0 01-12.728 0m.707-12.021a9 9 0 0112.728 0M5.636 18.364a9 9 0 010-12.728m12.728 0L5.636 18.364" />
+          </svg>
+          <h3 className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-400">Offline Vibes</h3>
+        </div>
+        <p className="text-sm text-slate-500 mb-6 leading-relaxed">
+          {isOnline
+            ? "Back online. Your queued translations are being vibed now."
+            : "No signal, so this one is queued and will translate automatically when you're back online. Meanwhile, here's what we already know."}
+        </p>
+
+        {matches.length > 0 ? (
+          <div className="flex flex-col gap-2 mb-6">
+            {matches.map((match, idx) => (
+              <button
+                key={idx}
+                onClick={() => onUseMatch(match)}
+                className="text-left p-4 rounded-2xl bg-slate-800/30 border border-white/5 hover:bg-slate-800/60 transition-all flex items-center justify-between gap-4 group/match"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="text-[9px] font-black uppercase tracking-widest text-slate-400 bg-slate-800/60 px-2 py-0.5 rounded-full border border-white/5">
+                      {match.source === 'phrasebook' ? 'Saved' : 'Cached'} · {match.score === 1 ? 'Exact' : `${Math.round(match.score * 100)}% match`}
+                    </span>
+                    <span className={`text-[9px] font-black uppercase tracking-tighter text-${theme.accent} opacity-60`}>{vibeName(match.vibeMode)}</span>
+                  </div>
+                  <p className="text-sm text-slate-100 font-bold truncate">
+                    {match.result.translatedText} {showPhonetic && match.result.transliteration ? `(${match.result.transliteration})` : ''}
+                  </p>
+                  <p className="text-[10px] text-slate-500 truncate italic">"{match.text}"</p>
+                </div>
+                <span className={`shrink-0 text-[9px] font-black uppercase tracking-widest text-${theme.accent} opacity-40 group-hover/match:opacity-100`}>Use This</span>
+              </button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-[11px] text-slate-600 italic mb-6">Nothing similar in your past translations yet.</p>
+        )}
+
+        {queue.length > 0 && (
+          <div className="pt-5 border-t border-white/5">
+            <h4 className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-500 mb-3">
+              {isProcessingQueue ? 'Vibing queued requests...' : `Queued (${queue.length})`}
+            </h4>
+            <ul className="flex flex-col gap-2">
+              {queue.map((item) => (
+                <li key={item.id} className="flex items-center justify-between gap-3 text-[11px] text-slate-400">
+                  <span className="truncate">
+                    <span className="font-bold text-slate-500 mr-2">
+                      {languageFlag(item.sourceLang)} → {[item.targetLang, ...(item.extraTargets || [])].map(languageFlag).join(' ')}
+                    </span>
+                    "{item.text}"
+                  </span>
+                  <button
+                    onClick={() => onRemoveQueued(item.id)}
+                    aria-label="Remove from queue"
+                    className="shrink-0 text-slate-600 hover:text-red-400 transition-colors"
+                  >
+                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M6 18L18 6M6 6l12 12" /></svg>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OfflinePanel;
@@ -0,0 +1,242 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { HistoryItem, PhrasebookCollection, PhrasebookEntry, ThemeConfig } from '../types';
+import { languageFlag } from '../services/languages';
+import { deleteCollection, deletePhrase, getCollections, queryPhrasebook, renameCollection } from '../services/phrasebook';
+import { vibeName } from '../services/vibes';
+
+interface PhrasebookViewProps {
+  theme: ThemeConfig;
+  lowPerf: boolean;
+  showPhonetic: boolean;
+  refreshKey: number;
+  onRestore: (item: HistoryItem) => void;
+  onEdit: (entry: PhrasebookEntry) => void;
+  onChanged: () => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+const PhrasebookView: React.FC<PhrasebookViewProps> = ({ theme, lowPerf, showPhonetic, refreshKey, onRestore, onEdit, onChanged }) => {
+  const [collections, setCollections] = useState<PhrasebookCollection[]>([]);
+  const [entries, setEntries] = useState<PhrasebookEntry[]>([]);
+  const [allEntries, setAllEntries] = useState<PhrasebookEntry[]>([]);
+  const [activeCollectionId, setActiveCollectionId] = useState<string | null>(null);
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameDraft, setRenameDraft] = useState('');
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  useEffect(() => {
+    getCollections().then(setCollections);
+  }, [refreshKey]);
+
+  // Counts and tags come from the unfiltered phrasebook so they stay stable while searching.
+  useEffect(() => {
+    queryPhrasebook({}).then(setAllEntries);
+  }, [refreshKey]);
+
+  useEffect(() => {
+    let cancelled = false;
+    queryPhrasebook({
+      search: debouncedSearch,
+      collectionId: activeCollectionId || undefined,
+      tag: activeTag || undefined,
+    }).then(result => {
+      if (!cancelled) setEntries(result);
+    });
+    return () => { cancelled = true; };
+  }, [debouncedSearch, activeCollectionId, activeTag, refreshKey]);
+
+  const counts = useMemo(() => {
+    const map = new Map<string, number>();
+    allEntries.forEach(e => map.set(e.collectionId, (map.get(e.collectionId) || 0) + 1));
+    return map;
+  }, [allEntries]);
+
+  const tags = useMemo(
+    () => Array.from(new Set(allEntries.flatMap(e => e.tags))).sort(),
+    [allEntries]
+  );
+
+  const collectionName = (id: string) => collections.find(c => c.id === id)?.name || 'Unfiled';
+
+  const submitRename = async () => {
+    if (renamingId) await renameCollection(renamingId, renameDraft);
+    setRenamingId(null);
+    onChanged();
+  };
+
+  const handleDeleteCollection = async (id: string) => {
+    await deleteCollection(id);
+    setConfirmingDeleteId(null);
+    if (activeCollectionId === id) setActiveCollectionId(null);
+    onChanged();
+  };
+
+  const chipClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest border transition-all ${
+      active
+        ? `bg-${theme.id}-500/20 text-${theme.accent} border-${theme.id}-500/40`
+        : 'bg-slate-800/40 text-slate-500 border-white/5 hover:text-slate-200'
+    }`;
+
+  return (
+    <div className={`bg-slate-900/40 ${!lowPerf ? 'backdrop-blur-3xl' : ''} border border-white/5 rounded-[2.5rem] p-6 lg:p-10 shadow-2xl`}>
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+        <h2 className={`text-[10px] font-black uppercase tracking-[0.3em] text-${theme.accent}`}>
+          Phrasebook <span className="text-slate-600">({allEntries.length})</span>
+        </h2>
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search phrases, notes, tags..."
+          aria-label="Search phrasebook"
+          className={`md:w-72 bg-slate-950/40 border border-slate-800/50 text-slate-100 rounded-2xl px-5 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-${theme.id}-500/20 placeholder:text-slate-700 placeholder:italic`}
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4" role="group" aria-label="Collections">
+        <button onClick={() => setActiveCollectionId(null)} className={chipClass(activeCollectionId === null)}>
+          All
+        </button>
+        {collections.map(c => (
+          renamingId === c.id ? (
+            <input
+              key={c.id}
+              autoFocus
+              value={renameDraft}
+              onChange={(e) => setRenameDraft(e.target.value)}
+              onBlur={submitRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') submitRename();
+                if (e.key === 'Escape') setRenamingId(null);
+              }}
+              aria-label="Collection name"
+              className="px-3 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest bg-slate-950/60 border border-slate-700 text-slate-100 focus:outline-none w-36"
+            />
+          ) : (
+            <button
+              key={c.id}
+              onClick={() => setActiveCollectionId(c.id)}
+              onDoubleClick={() => { setRenamingId(c.id); setRenameDraft(c.name); }}
+              title="Double-click to rename"
+              className={chipClass(activeCollectionId === c.id)}
+            >
+              {c.name} <span className="opacity-50">{counts.get(c.id) || 0}</span>
+            </button>
+          )
+        ))}
+      </div>
+
+      {activeCollectionId && (
+        <div className="flex items-center gap-4 mb-4 px-1">
+          <button
+            onClick={() => {
+              const active = collections.find(c => c.id === activeCollectionId);
+              if (active) { setRenamingId(active.id); setRenameDraft(active.name); }
+            }}
+            className="text-[10px] font-bold uppercase text-slate-600 hover:text-slate-300 transition-colors tracking-widest"
+          >
+            Rename
+          </button>
+          {confirmingDeleteId === activeCollectionId ? (
+            <div className="flex items-center gap-2">
+              <span className="text-[9px] font-bold uppercase text-red-400 tracking-tighter">Delete it and its {counts.get(activeCollectionId) || 0} phrases?</span>
+              <button
+                onClick={() => handleDeleteCollection(activeCollectionId)}
+                className="text-[10px] font-black uppercase text-red-500 hover:bg-red-500/10 px-2 py-1 rounded-lg transition-colors border border-red-500/20"
+              >
+                Yes, Delete
+              </button>
+              <button
+                onClick={() => setConfirmingDeleteId(null)}
+                className="text-[10px] font-black uppercase text-slate-400 hover:text-slate-200 px-2 py-1 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={() => setConfirmingDeleteId(activeCollectionId)}
+              className="text-[10px] font-bold uppercase text-slate-600 hover:text-red-400 transition-colors tracking-widest"
+            >
+              Delete collection
+            </button>
+          )}
+        </div>
+      )}
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-8" role="group" aria-label="Tags">
+          {tags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+              className={`px-2.5 py-1 rounded-lg text-[10px] font-bold transition-all ${activeTag === tag ? `text-${theme.accent} bg-${theme.id}-500/10` : 'text-slate-600 hover:text-slate-300'}`}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="text-center text-sm text-slate-600 italic py-12">
+          {allEntries.length === 0
+            ? 'Nothing saved yet. Tap the star on any translation to keep it here.'
+            : 'No saved phrases match.'}
+        </p>
+      ) : (
+        <div className="grid gap-3">
+          {entries.map(entry => (
+            <div key={entry.id} className="group glass border border-white/5 rounded-2xl p-4 flex items-start justify-between gap-4">
+              <button onClick={() => onRestore(entry.item)} className="flex-1 min-w-0 text-left focus:outline-none">
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="text-[10px] font-bold text-slate-500 uppercase">
+                    {languageFlag(entry.item.sourceLang)} → {languageFlag(entry.item.targetLang)}
+                  </span>
+                  <span className={`text-[10px] font-black uppercase tracking-tighter text-${theme.accent} opacity-60`}>{vibeName(entry.item.vibeMode)}</span>
+                  {!activeCollectionId && (
+                    <span className="text-[9px] font-black uppercase tracking-widest text-slate-600">{collectionName(entry.collectionId)}</span>
+                  )}
+                </div>
+                <p className="text-sm text-slate-100 font-bold mb-0.5">{entry.item.result.translatedText} {showPhonetic && entry.item.result.transliteration ? `(${entry.item.result.transliteration})` : ''}</p>
+                <p className="text-[10px] text-slate-500 italic">"{entry.item.inputText}"</p>
+                {entry.note && <p className="text-xs text-slate-400 mt-2">{entry.note}</p>}
+                {entry.tags.length > 0 && (
+                  <p className="text-[10px] font-bold text-slate-600 mt-2">{entry.tags.map(t => `#${t}`).join(' ')}</p>
+                )}
+              </button>
+              <div className="shrink-0 flex items-center gap-1">
+                <button
+                  onClick={() => onEdit(entry)}
+                  aria-label="Edit note and tags"
+                  className="p-2 rounded-lg text-slate-600 hover:text-slate-200 transition-colors"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" /></svg>
+                </button>
+                <button
+                  onClick={() => deletePhrase(entry.id).then(onChanged)}
+                  aria-label="Remove from phrasebook"
+                  className="p-2 rounded-lg text-slate-600 hover:text-red-400 transition-colors"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M6 18L18 6M6 6l12 12" /></svg>
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PhrasebookView;
@@ -0,0 +1,132 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ThemeConfig, TranslationResult } from '../types';
+import { speakText } from '../services/geminiService';
+import { getPlaybackStatus, stopPlayback } from '../services/audio';
+import { getLanguage } from '../services/languages';
+import { layoutSegments, pronunciationSegments, TextRun } from '../services/pronunciation';
+import { sleep } from '../services/timing';
+import { getPreferredVoice, getSpeechRate } from '../services/voices';
+
+interface PronunciationPanelProps {
+  result: TranslationResult;
+  language: string;
+  theme: ThemeConfig;
+  showPhonetic: boolean;
+  canSynthesize: boolean; // False offline; cached segments still play
+}
+
+const SLOW_RATE = 0.6;
+const SEGMENT_GAP_MS = 350;
+
+// Plays the translation one word or phrase at a time, highlighting the current
+// segment in both the script and the transliteration.
+const PronunciationPanel: React.FC<PronunciationPanelProps> = ({ result, language, theme, showPhonetic, canSynthesize }) => {
+  const [current, setCurrent] = useState<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isSlow, setIsSlow] = useState(true);
+  // Bumped to cancel a running sequence.
+  const runId = useRef(0);
+  const isRunning = useRef(false);
+
+  const segments = useMemo(() => pronunciationSegments(result, language), [result, language]);
+  const scriptRuns = useMemo(() => layoutSegments(result.translatedText, segments.map(s => s.text)), [result.translatedText, segments]);
+  const phoneticRuns = useMemo(
+    () => layoutSegments(result.transliteration || '', segments.map(s => s.transliteration)),
+    [result.transliteration, segments]
+  );
+  const romanization = getLanguage(language)?.romanization || 'Transliteration';
+
+  const stop = () => {
+    runId.current++;
+    if (isRunning.current) stopPlayback();
+    isRunning.current = false;
+    setIsPlaying(false);
+  };
+
+  useEffect(() => {
+    setCurrent(null);
+    return stop;
+  }, [result]);
+
+  const play = async (start: number, onlyOne = false) => {
+    const run = ++runId.current;
+    isRunning.current = true;
+    setIsPlaying(true);
+    const voice = getPreferredVoice(language);
+    const rate = isSlow ? SLOW_RATE : getSpeechRate();
+    try {
+      for (let i = start; i < segments.length; i++) {
+        setCurrent(i);
+        await speakText(segments[i].text, voice, rate, { cacheOnly: !canSynthesize });
+        // Stopped here, or another clip took over the player.
+        if (runId.current !== run || getPlaybackStatus().state !== 'idle') return;
+        if (onlyOne || i === segments.length - 1) break;
+        await sleep(SEGMENT_GAP_MS);
+        if (runId.current !== run) return;
+      }
+    } finally {
+      if (runId.current === run) {
+        isRunning.current = false;
+        setIsPlaying(false);
+      }
+    }
+  };
+
+  const step = (delta: number) => {
+    const next = Math.min(segments.length - 1, Math.max(0, (current ?? -1) + delta));
+    play(next, true);
+  };
+
+  const renderRuns = (runs: TextRun[]) =>
+    runs.map((run, i) =>
+      run.segment === undefined ? (
+        <span key={i}>{run.text}</span>
+      ) : (
+        <span
+          key={i}
+          onClick={() => play(run.segment!, true)}
+          className={`cursor-pointer rounded-lg transition-colors ${
+            run.segment === current ? `bg-${theme.id}-500/25 text-${theme.accent}` : 'hover:bg-slate-800/60'
+          }`}
+        >
+          {run.text}
+        </span>
+      )
+    );
+
+  const controlClass = 'px-4 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest border border-white/5 bg-slate-800/40 text-slate-300 hover:bg-slate-700/60 transition-all disabled:opacity-40';
+
+  return (
+    <div>
+      <p className="text-3xl lg:text-5xl font-jakarta font-bold text-white leading-[1.4] tracking-tight">
+        {renderRuns(scriptRuns)}
+      </p>
+      {showPhonetic && result.transliteration && (
+        <p className="mt-4 text-xl lg:text-2xl font-mono font-medium text-slate-500 italic" aria-label={romanization}>
+          {renderRuns(phoneticRuns)}
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 mt-6">
+        <button onClick={() => (isPlaying ? stop() : play(0))} className={controlClass}>
+          {isPlaying ? 'Stop' : 'Play all'}
+        </button>
+        <button onClick={() => step(-1)} disabled={isPlaying || current === null || current === 0} aria-label="Previous segment" className={controlClass}>
+          ‹ Prev
+        </button>
+        <button onClick={() => step(1)} disabled={isPlaying || current === segments.length - 1} aria-label="Next segment" className={controlClass}>
+          Next ›
+        </button>
+        <label className="flex items-center gap-2 ml-2 text-[9px] font-black uppercase tracking-widest text-slate-500 cursor-pointer">
+          <input type="checkbox" checked={isSlow} onChange={(e) => setIsSlow(e.target.checked)} />
+          Slow
+        </label>
+        <span className="ml-auto text-[9px] font-bold uppercase tracking-widest text-slate-600" aria-live="polite">
+          {current === null ? `${segments.length} segments` : `${current + 1} / ${segments.length}`}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default PronunciationPanel;
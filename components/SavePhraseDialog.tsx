@@ -0,0 +1,144 @@
+import React, { useEffect, useId, useState } from 'react';
+import { HistoryItem, PhrasebookCollection, PhrasebookEntry, ThemeConfig } from '../types';
+import {
+  createCollection,
+  DEFAULT_COLLECTION_NAME,
+  getCollections,
+  parseTags,
+  savePhrase,
+  updatePhrase,
+} from '../services/phrasebook';
+
+interface SavePhraseDialogProps {
+  item: HistoryItem;
+  entry?: PhrasebookEntry | null; // Editing an existing phrase instead of saving a new one
+  theme: ThemeConfig;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const NEW_COLLECTION = '__new__';
+
+const SavePhraseDialog: React.FC<SavePhraseDialogProps> = ({ item, entry, theme, onClose, onSaved }) => {
+  const [collections, setCollections] = useState<PhrasebookCollection[]>([]);
+  const [collectionId, setCollectionId] = useState(entry?.collectionId || '');
+  const [newCollectionName, setNewCollectionName] = useState('');
+  const [note, setNote] = useState(entry?.note || '');
+  const [tagsText, setTagsText] = useState(entry?.tags.join(', ') || '');
+  const [isSaving, setIsSaving] = useState(false);
+  const titleId = useId();
+
+  useEffect(() => {
+    getCollections().then(list => {
+      setCollections(list);
+      if (!collectionId) setCollectionId(list[0]?.id || NEW_COLLECTION);
+    });
+  }, []);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const targetId = collectionId === NEW_COLLECTION
+        ? (await createCollection(newCollectionName || DEFAULT_COLLECTION_NAME)).id
+        : collectionId;
+      const tags = parseTags(tagsText);
+      if (entry) {
+        await updatePhrase(entry.id, { collectionId: targetId, note: note.trim(), tags });
+      } else {
+        await savePhrase(item, { collectionId: targetId, note, tags });
+      }
+      onSaved();
+      onClose();
+    } catch (e) {
+      console.error("Failed to save phrase", e);
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = `w-full bg-slate-950/40 border border-slate-800/50 text-slate-100 rounded-xl px-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-${theme.id}-500/20 placeholder:text-slate-700 placeholder:italic`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-950/70 backdrop-blur-sm" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-lg glass bg-slate-900/90 border border-white/10 rounded-[2rem] p-6 lg:p-8 shadow-2xl animate-in fade-in zoom-in-95 duration-300"
+      >
+        <h3 id={titleId} className={`text-[10px] font-black uppercase tracking-[0.3em] text-${theme.accent} mb-4`}>
+          {entry ? 'Edit Saved Phrase' : 'Save to Phrasebook'}
+        </h3>
+        <div className="mb-6 p-4 rounded-2xl bg-slate-800/30 border border-white/5">
+          <p className="text-sm text-slate-100 font-bold">{item.result.translatedText}</p>
+          <p className="text-[10px] text-slate-500 italic mt-1">"{item.inputText}"</p>
+        </div>
+
+        <div className="grid gap-4">
+          <label className="flex flex-col gap-1.5">
+            <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">Collection</span>
+            <select value={collectionId} onChange={(e) => setCollectionId(e.target.value)} className={inputClass}>
+              {collections.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              <option value={NEW_COLLECTION}>+ New collection...</option>
+            </select>
+          </label>
+          {collectionId === NEW_COLLECTION && (
+            <input
+              autoFocus
+              value={newCollectionName}
+              onChange={(e) => setNewCollectionName(e.target.value)}
+              placeholder='e.g. "Jeepney", "Palengke", "Office"'
+              aria-label="New collection name"
+              className={inputClass}
+            />
+          )}
+          <label className="flex flex-col gap-1.5">
+            <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">Note</span>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={2}
+              placeholder="When to use it, who taught you..."
+              className={`${inputClass} resize-none`}
+            />
+          </label>
+          <label className="flex flex-col gap-1.5">
+            <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">Tags</span>
+            <input
+              value={tagsText}
+              onChange={(e) => setTagsText(e.target.value)}
+              placeholder="food, directions, polite"
+              className={inputClass}
+            />
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-3 mt-8">
+          <button
+            onClick={onClose}
+            className="px-5 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className={`px-6 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-${theme.primary} hover:bg-${theme.secondary} text-white transition-all disabled:opacity-50`}
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SavePhraseDialog;
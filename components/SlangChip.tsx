@@ -0,0 +1,54 @@
+import React, { useState, useId } from 'react';
+import { SlangDetail, ThemeConfig } from '../types';
+
+const SlangChip: React.FC<{ detail: SlangDetail, theme: ThemeConfig, lowPerf?: boolean }> = ({ detail, theme, lowPerf }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const contentId = useId();
+
+  return (
+    <div className="flex flex-col w-full sm:w-auto">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        aria-controls={contentId}
+        className={`group relative px-4 py-2 rounded-2xl text-xs font-mono transition-all text-left flex items-center justify-between gap-3 border overflow-hidden focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-950 ${
+          isOpen 
+            ? `bg-${theme.id}-500/20 text-${theme.accent} border-${theme.id}-500/40 shadow-xl shadow-${theme.id}-500/10 scale-[1.02] focus:ring-${theme.primary}` 
+            : `bg-slate-800/40 text-slate-400 border-slate-800/80 hover:bg-slate-800 hover:border-slate-700 hover:text-slate-200 focus:ring-slate-500`
+        }`}
+      >
+        <span className="relative z-10 font-bold">{detail.term}</span>
+        <svg 
+          className={`relative z-10 w-3 h-3 transition-transform duration-500 ease-out ${isOpen ? 'rotate-180' : ''}`} 
+          fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M19 9l-7 7-7-7" />
+        </svg>
+        {isOpen && !lowPerf && (
+          <div className={`absolute inset-0 bg-gradient-to-r from-${theme.id}-500/5 to-transparent animate-pulse`} aria-hidden="true" />
+        )}
+      </button>
+      <div 
+        id={contentId}
+        className={`grid-transition ${isOpen ? 'expanded' : ''}`}
+        aria-hidden={!isOpen}
+      >
+        <div className="grid-content">
+          <div className="mt-2 p-4 glass rounded-2xl border border-white/5 shadow-inner">
+            <p className={`text-[12px] text-slate-200 font-medium mb-2 leading-relaxed selection:bg-${theme.id}-500/40`}>
+              {detail.meaning}
+            </p>
+            <div className="flex items-start gap-2 pt-2 border-t border-white/5">
+              <span className={`text-[10px] font-black text-${theme.accent} uppercase tracking-tighter shrink-0 mt-0.5 opacity-80`}>Context:</span>
+              <p className="text-[11px] text-slate-400 italic leading-snug">
+                {detail.context}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SlangChip;
@@ -0,0 +1,149 @@
+import React, { useEffect, useId, useState } from 'react';
+import { ThemeConfig } from '../types';
+import { speakText, synthesizeSpeech } from '../services/geminiService';
+import { encodeWav, getPlaybackStatus, PlaybackStatus, setPlaybackRate, stopPlayback, subscribePlayback } from '../services/audio';
+import { buildSpeechKey, hasCachedSpeech } from '../services/speechCache';
+import { getPreferredVoice, getSpeechRate, setPreferredVoice, setSpeechRate, SPEECH_RATES, TTS_VOICES } from '../services/voices';
+
+interface SpeechControlsProps {
+  text: string;
+  language: string;
+  theme: ThemeConfig;
+  canSynthesize: boolean; // False offline; cached clips still play
+  buttonClass: string;
+}
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Play/stop, replay, voice, speed and WAV download for one piece of text.
+const SpeechControls: React.FC<SpeechControlsProps> = ({ text, language, theme, canSynthesize, buttonClass }) => {
+  const [voice, setVoice] = useState(() => getPreferredVoice(language));
+  const [rate, setRate] = useState(getSpeechRate);
+  const [playback, setPlayback] = useState<PlaybackStatus>(getPlaybackStatus);
+  const [isCached, setIsCached] = useState(false);
+  const [hasPlayed, setHasPlayed] = useState(false);
+  const [showOptions, setShowOptions] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const optionsId = useId();
+
+  const clipId = buildSpeechKey(text, voice);
+  const isActive = playback.clipId === clipId && playback.state !== 'idle';
+  const isAvailable = canSynthesize || isCached;
+
+  useEffect(() => subscribePlayback(setPlayback), []);
+
+  useEffect(() => {
+    setVoice(getPreferredVoice(language));
+  }, [language]);
+
+  useEffect(() => {
+    setHasPlayed(false);
+  }, [text]);
+
+  // Re-checked after each playback, since playing is what fills the cache.
+  useEffect(() => {
+    let cancelled = false;
+    hasCachedSpeech(clipId).then(cached => { if (!cancelled) setIsCached(cached); });
+    return () => { cancelled = true; };
+  }, [clipId, playback.state]);
+
+  const play = () => {
+    setHasPlayed(true);
+    speakText(text, voice, rate, { cacheOnly: !canSynthesize });
+  };
+
+  const changeVoice = (next: string) => {
+    if (isActive) stopPlayback();
+    setVoice(next);
+    setPreferredVoice(language, next);
+  };
+
+  const changeRate = (next: number) => {
+    setRate(next);
+    setSpeechRate(next);
+    if (isActive) setPlaybackRate(next);
+  };
+
+  const download = async () => {
+    setIsExporting(true);
+    try {
+      const pcm = await synthesizeSpeech(text, voice, { cacheOnly: !canSynthesize });
+      if (pcm) downloadBlob(encodeWav(pcm), `kanto-${language}-${voice.toLowerCase()}.wav`);
+    } catch (err) {
+      console.error("Audio export failed", err);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const selectClass = 'bg-slate-950/60 border border-slate-800 text-slate-200 rounded-xl px-2 py-1.5 text-xs focus:outline-none';
+
+  return (
+    <div className="relative flex gap-2">
+      <button
+        onClick={isActive ? stopPlayback : play}
+        disabled={!isActive && !isAvailable}
+        aria-label={isActive ? 'Stop playback' : 'Play translation'}
+        className={`${buttonClass} ${isActive ? `text-${theme.accent}` : ''}`}
+      >
+        {playback.state === 'loading' && isActive ? (
+          <svg className="animate-spin w-5 h-5" fill="none" viewBox="0 0 24 24" aria-hidden="true"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"></path></svg>
+        ) : isActive ? (
+          <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24" aria-hidden="true"><rect x="6" y="6" width="12" height="12" rx="2" /></svg>
+        ) : (
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" /></svg>
+        )}
+      </button>
+      {hasPlayed && (
+        <button onClick={play} disabled={!isAvailable} aria-label="Replay" className={buttonClass}>
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+        </button>
+      )}
+      <button
+        onClick={() => setShowOptions(!showOptions)}
+        aria-expanded={showOptions}
+        aria-controls={optionsId}
+        aria-label="Voice options"
+        className={buttonClass}
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" /></svg>
+      </button>
+
+      {showOptions && (
+        <div id={optionsId} className="absolute right-0 top-full mt-2 z-30 w-60 bg-slate-900 border border-slate-700/50 rounded-2xl shadow-2xl p-4 grid gap-3">
+          <label className="flex items-center justify-between gap-3">
+            <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">Voice</span>
+            <select value={voice} onChange={(e) => changeVoice(e.target.value)} className={selectClass}>
+              {TTS_VOICES.map(v => <option key={v.id} value={v.id}>{v.id} · {v.description}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center justify-between gap-3">
+            <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">Speed</span>
+            <select value={rate} onChange={(e) => changeRate(Number(e.target.value))} className={selectClass}>
+              {SPEECH_RATES.map(r => <option key={r} value={r}>{r}×</option>)}
+            </select>
+          </label>
+          <button
+            onClick={download}
+            disabled={!isAvailable || isExporting}
+            className="px-3 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest border border-white/5 bg-slate-800/40 text-slate-300 hover:bg-slate-700/60 transition-all disabled:opacity-40"
+          >
+            {isExporting ? 'Preparing...' : 'Download WAV'}
+          </button>
+          {!canSynthesize && (
+            <p className="text-[10px] text-slate-500">{isCached ? 'Playing from the offline cache.' : 'Not cached for offline use.'}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpeechControls;
@@ -0,0 +1,228 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ThemeConfig } from '../types';
+import { languageFlag, languageName } from '../services/languages';
+import { getPreferredVoice, getSpeechRate } from '../services/voices';
+import { speakText } from '../services/geminiService';
+import { buildGlossary } from '../services/glossary';
+import { getAllHistory } from '../services/historyStore';
+import { getAllPhrases } from '../services/phrasebook';
+import {
+  buildStudyQueue,
+  Flashcard,
+  FlashcardKind,
+  formatInterval,
+  getReviewStates,
+  newReviewState,
+  phraseCards,
+  ReviewGrade,
+  ReviewState,
+  saveReviewState,
+  scheduleReview,
+  slangCard,
+} from '../services/flashcards';
+
+interface StudyViewProps {
+  theme: ThemeConfig;
+  lowPerf: boolean;
+  canSpeak: boolean;
+  refreshKey: number;
+}
+
+const SETTINGS_KEY_STUDY_AUDIO = 'kanto_setting_study_audio';
+const SETTINGS_KEY_STUDY_DECK = 'kanto_setting_study_deck';
+
+type Deck = 'all' | FlashcardKind;
+
+const GRADES: { id: ReviewGrade; label: string; key: string; className: string }[] = [
+  { id: 'again', label: 'Again', key: '1', className: 'text-red-400 border-red-500/20 hover:bg-red-500/10' },
+  { id: 'hard', label: 'Hard', key: '2', className: 'text-amber-400 border-amber-500/20 hover:bg-amber-500/10' },
+  { id: 'good', label: 'Good', key: '3', className: 'text-emerald-400 border-emerald-500/20 hover:bg-emerald-500/10' },
+  { id: 'easy', label: 'Easy', key: '4', className: 'text-sky-400 border-sky-500/20 hover:bg-sky-500/10' },
+];
+
+const StudyView: React.FC<StudyViewProps> = ({ theme, lowPerf, canSpeak, refreshKey }) => {
+  const [cards, setCards] = useState<Flashcard[]>([]);
+  const [states, setStates] = useState<Map<string, ReviewState>>(new Map());
+  const [queue, setQueue] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [deck, setDeck] = useState<Deck>(() => (localStorage.getItem(SETTINGS_KEY_STUDY_DECK) as Deck) || 'all');
+  const [autoPlay, setAutoPlay] = useState(() => localStorage.getItem(SETTINGS_KEY_STUDY_AUDIO) === 'true');
+
+  useEffect(() => {
+    localStorage.setItem(SETTINGS_KEY_STUDY_DECK, deck);
+    localStorage.setItem(SETTINGS_KEY_STUDY_AUDIO, String(autoPlay));
+  }, [deck, autoPlay]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    Promise.all([getAllHistory(), getAllPhrases(), getReviewStates()]).then(([history, phrases, reviewStates]) => {
+      if (cancelled) return;
+      const glossary = buildGlossary([...history, ...phrases.map(p => p.item)]);
+      const allCards = [...phrases.flatMap(phraseCards), ...glossary.map(slangCard)];
+      const deckCards = deck === 'all' ? allCards : allCards.filter(card => card.kind === deck);
+      const { due, fresh } = buildStudyQueue(deckCards, reviewStates);
+      setCards(allCards);
+      setStates(reviewStates);
+      setQueue([...due, ...fresh].map(card => card.id));
+      setIsRevealed(false);
+      setIsLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [deck, refreshKey]);
+
+  const cardsById = useMemo(() => new Map(cards.map(card => [card.id, card])), [cards]);
+  const current = queue.length > 0 ? cardsById.get(queue[0]) : undefined;
+  const currentState = current ? states.get(current.id) || newReviewState(current.id) : null;
+  const newCount = queue.filter(id => !states.has(id)).length;
+
+  const nextDue = useMemo(() => {
+    let earliest: number | undefined;
+    states.forEach(state => {
+      const card = cardsById.get(state.cardId);
+      if (!card || (deck !== 'all' && card.kind !== deck)) return;
+      if (earliest === undefined || state.due < earliest) earliest = state.due;
+    });
+    return earliest;
+  }, [states, cardsById, deck]);
+
+  const speak = (card: Flashcard) => {
+    if (canSpeak) speakText(card.speech, getPreferredVoice(card.language), getSpeechRate());
+  };
+
+  const reveal = () => {
+    if (!current || isRevealed) return;
+    setIsRevealed(true);
+    if (autoPlay) speak(current);
+  };
+
+  const grade = async (choice: ReviewGrade) => {
+    if (!current || !currentState || !isRevealed) return;
+    const next = scheduleReview(currentState, choice);
+    setStates(prev => new Map(prev).set(current.id, next));
+    // Failed cards go to the back of this session instead of waiting for tomorrow.
+    setQueue(prev => choice === 'again' ? [...prev.slice(1), prev[0]] : prev.slice(1));
+    setIsRevealed(false);
+    setReviewedCount(c => c + 1);
+    await saveReviewState(next);
+  };
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+      if (e.key === ' ' && !isRevealed) {
+        e.preventDefault();
+        reveal();
+        return;
+      }
+      const match = GRADES.find(g => g.key === e.key);
+      if (match && isRevealed) grade(match.id);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  return (
+    <div className={`bg-slate-900/40 ${!lowPerf ? 'backdrop-blur-3xl' : ''} border border-white/5 rounded-[2.5rem] p-6 lg:p-10 shadow-2xl`}>
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+        <div className="flex items-center gap-4">
+          <h2 className={`text-[10px] font-black uppercase tracking-[0.3em] text-${theme.accent}`}>Study</h2>
+          {!isLoading && (
+            <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500">
+              {queue.length - newCount} due · {newCount} new · {reviewedCount} reviewed
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={deck}
+            onChange={(e) => setDeck(e.target.value as Deck)}
+            aria-label="Deck"
+            className="bg-slate-800/50 border border-slate-700/50 text-slate-200 rounded-xl px-3 py-2 text-xs focus:outline-none"
+          >
+            <option value="all">All cards</option>
+            <option value="slang">Slang</option>
+            <option value="phrase">Saved phrases</option>
+          </select>
+          <button
+            onClick={() => setAutoPlay(!autoPlay)}
+            aria-pressed={autoPlay}
+            disabled={!canSpeak}
+            className={`flex items-center gap-2 px-3 py-2 rounded-xl border text-[9px] font-black uppercase tracking-widest transition-all disabled:opacity-40 ${autoPlay ? `bg-${theme.id}-500/10 border-${theme.id}-500/30 text-${theme.accent}` : 'bg-slate-800/40 border-white/5 text-slate-500'}`}
+          >
+            Auto-play audio
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? null : !current ? (
+        <div className="text-center py-16">
+          <p className="text-lg font-bold text-slate-200 mb-2">
+            {cards.length === 0 ? 'No cards yet.' : 'All caught up.'}
+          </p>
+          <p className="text-sm text-slate-500">
+            {cards.length === 0
+              ? 'Translate a few lines or save phrases to your phrasebook, and their slang turns into cards here.'
+              : nextDue
+                ? `Next review ${new Date(nextDue).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })}.`
+                : 'Come back when you have translated something new.'}
+          </p>
+        </div>
+      ) : (
+        <div className={`${!lowPerf ? 'animate-in fade-in duration-300' : ''}`}>
+          <div className="glass border border-white/5 rounded-[2rem] p-8 lg:p-12 min-h-[16rem] flex flex-col items-center justify-center text-center">
+            <span className="text-[9px] font-black uppercase tracking-[0.3em] text-slate-600 mb-6">
+              {current.kind === 'slang' ? 'Slang' : 'Phrase'} · {languageFlag(current.language)} {languageName(current.language)}
+            </span>
+            <p className="text-2xl lg:text-4xl font-jakarta font-bold text-white leading-tight">{current.front}</p>
+
+            {isRevealed ? (
+              <div className="mt-8 pt-8 border-t border-white/5 w-full">
+                <p className={`text-xl lg:text-2xl font-bold text-${theme.accent}`}>{current.back}</p>
+                {current.transliteration && (
+                  <p className="mt-2 text-lg font-mono text-slate-500 italic">{current.transliteration}</p>
+                )}
+                {current.detail && <p className="mt-4 text-sm text-slate-400 italic">{current.detail}</p>}
+                <button
+                  onClick={() => speak(current)}
+                  disabled={!canSpeak}
+                  aria-label="Play audio"
+                  className="mt-6 p-3 rounded-2xl bg-slate-800/50 hover:bg-slate-700 text-slate-300 border border-white/5 transition-all disabled:opacity-40"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" /></svg>
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={reveal}
+                className={`mt-10 px-8 py-3 rounded-2xl bg-${theme.primary} hover:bg-${theme.secondary} text-white text-[10px] font-black uppercase tracking-widest transition-all`}
+              >
+                Show answer <span className="opacity-50 ml-1">(space)</span>
+              </button>
+            )}
+          </div>
+
+          {isRevealed && currentState && (
+            <div className="grid grid-cols-4 gap-3 mt-6">
+              {GRADES.map(g => (
+                <button
+                  key={g.id}
+                  onClick={() => grade(g.id)}
+                  className={`py-3 rounded-2xl border bg-slate-800/30 transition-all flex flex-col items-center gap-1 ${g.className}`}
+                >
+                  <span className="text-[10px] font-black uppercase tracking-widest">{g.label}</span>
+                  <span className="text-[9px] font-bold text-slate-500">{formatInterval(currentState, g.id)} · {g.key}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StudyView;
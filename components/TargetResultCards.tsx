@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { ThemeConfig } from '../types';
+import { isSymbolBased, languageFlag, languageName } from '../services/languages';
+import { TargetTake } from '../services/multiTarget';
+import SlangChip from './SlangChip';
+import SpeechControls from './SpeechControls';
+
+interface TargetResultCardsProps {
+  takes: TargetTake[];
+  theme: ThemeConfig;
+  lowPerf: boolean;
+  showPhonetic: boolean;
+  canSpeak: boolean;
+}
+
+// The extra targets of a multi-target translation, one card each.
+const TargetResultCards: React.FC<TargetResultCardsProps> = ({ takes, theme, lowPerf, showPhonetic, canSpeak }) => {
+  const [copiedLang, setCopiedLang] = useState<string | null>(null);
+
+  const copy = (take: TargetTake) => {
+    const showTransliteration = showPhonetic && isSymbolBased(take.targetLang) && take.transliteration;
+    navigator.clipboard.writeText(showTransliteration ? `${take.text} (${take.transliteration})` : take.text);
+    setCopiedLang(take.targetLang);
+    setTimeout(() => setCopiedLang(current => (current === take.targetLang ? null : current)), 2000);
+  };
+
+  const actionClass = 'px-3 py-1.5 rounded-xl text-[9px] font-black uppercase tracking-widest border border-white/5 bg-slate-800/40 text-slate-400 hover:text-slate-100 hover:bg-slate-700/60 transition-all disabled:opacity-40';
+
+  return (
+    <div className="grid md:grid-cols-2 gap-4">
+      {takes.map(take => (
+        <div
+          key={take.targetLang}
+          className={`bg-slate-900/40 ${!lowPerf ? 'backdrop-blur-3xl' : ''} border border-white/5 rounded-[2rem] p-6 flex flex-col gap-4`}
+          aria-busy={take.status === 'pending' || take.status === 'streaming'}
+        >
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-500">
+              {languageFlag(take.targetLang)} {languageName(take.targetLang)}
+            </span>
+            {take.status === 'pending' && <span className="text-[9px] font-bold uppercase tracking-widest text-slate-600">Queued</span>}
+          </div>
+
+          {take.status === 'error' ? (
+            <p className="text-[11px] font-bold uppercase tracking-widest text-red-400">Failed ({take.errorCode})</p>
+          ) : (
+            <div>
+              <p className="text-xl font-jakarta font-bold text-white leading-snug">
+                {take.text}
+                {take.status === 'streaming' && (
+                  <span className={`inline-block w-1 h-5 ml-1 bg-${theme.accent} ${!lowPerf ? 'animate-pulse' : ''} rounded-full align-middle`} />
+                )}
+              </p>
+              {showPhonetic && isSymbolBased(take.targetLang) && take.transliteration && (
+                <p className={`mt-2 text-sm font-mono text-${theme.accent} opacity-80`}>{take.transliteration}</p>
+              )}
+            </div>
+          )}
+
+          {take.result && take.result.slangUsed.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {take.result.slangUsed.map((detail, i) => <SlangChip key={i} detail={detail} theme={theme} lowPerf={lowPerf} />)}
+            </div>
+          )}
+
+          {take.status === 'done' && (
+            <div className="flex gap-2 mt-auto">
+              <button onClick={() => copy(take)} className={actionClass}>
+                {copiedLang === take.targetLang ? 'Copied' : 'Copy'}
+              </button>
+              <SpeechControls
+                text={take.text}
+                language={take.targetLang}
+                theme={theme}
+                canSynthesize={canSpeak}
+                buttonClass={actionClass}
+              />
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TargetResultCards;
@@ -0,0 +1,169 @@
+import React, { useId, useState } from 'react';
+import { TermRule, ThemeConfig } from '../types';
+import { ANY_LANGUAGE, deleteTermRule, saveTermRule, TermRuleInput } from '../services/terminology';
+import { getLanguages, languageName } from '../services/languages';
+
+interface TerminologyPanelProps {
+  theme: ThemeConfig;
+  rules: TermRule[];
+  defaultTargetLang: string;
+  onChanged: () => void;
+}
+
+const languageLabel = (code: string) => (code === ANY_LANGUAGE ? 'Any' : languageName(code));
+
+const emptyRule = (targetLang: string): TermRuleInput => ({
+  sourceLang: ANY_LANGUAGE,
+  targetLang,
+  source: '',
+  target: '',
+  caseSensitive: false,
+  doNotTranslate: false,
+});
+
+const TerminologyPanel: React.FC<TerminologyPanelProps> = ({ theme, rules, defaultTargetLang, onChanged }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<TermRuleInput>(() => emptyRule(defaultTargetLang));
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const contentId = useId();
+
+  const update = (patch: Partial<TermRuleInput>) => setDraft(prev => ({ ...prev, ...patch }));
+  const canSave = !!draft.source.trim() && (draft.doNotTranslate || !!draft.target.trim());
+
+  const reset = () => {
+    setDraft(emptyRule(draft.targetLang));
+    setEditingId(null);
+  };
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setIsSaving(true);
+    try {
+      await saveTermRule(draft, editingId || undefined);
+      reset();
+      onChanged();
+    } catch (e) {
+      console.error("Failed to save term", e);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEdit = (rule: TermRule) => {
+    const { id, createdAt, ...input } = rule;
+    setDraft(input);
+    setEditingId(id);
+  };
+
+  const handleDelete = async (rule: TermRule) => {
+    try {
+      await deleteTermRule(rule.id);
+      if (editingId === rule.id) reset();
+      onChanged();
+    } catch (e) {
+      console.error("Failed to delete term", e);
+    }
+  };
+
+  const inputClass = `w-full bg-slate-950/40 border border-slate-800/50 text-slate-100 rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-${theme.id}-500/20 placeholder:text-slate-700 placeholder:italic disabled:opacity-40`;
+
+  return (
+    <div className="mt-12">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        aria-controls={contentId}
+        className="w-full flex items-center justify-between px-4 mb-2"
+      >
+        <span className="text-[10px] font-black uppercase tracking-[0.4em] text-slate-500">
+          Terminology{rules.length > 0 && <span className={`ml-2 text-${theme.accent}`}>{rules.length}</span>}
+        </span>
+        <svg className={`w-3 h-3 text-slate-500 transition-transform duration-500 ${isOpen ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      <div id={contentId} className={`grid-transition ${isOpen ? 'expanded' : ''}`} aria-hidden={!isOpen}>
+        <div className="grid-content">
+          <div className="glass rounded-2xl p-5 border border-white/5 mt-2">
+            <p className="text-[11px] text-slate-500 mb-4">
+              Terms that must always come out the same way. They are added to every matching translation and checked afterwards.
+            </p>
+
+            <div className="grid sm:grid-cols-2 gap-3 mb-3">
+              <label className="flex flex-col gap-1.5">
+                <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">From</span>
+                <select value={draft.sourceLang} onChange={(e) => update({ sourceLang: e.target.value })} className={inputClass}>
+                  <option value={ANY_LANGUAGE}>Any language</option>
+                  {getLanguages().map(l => <option key={l.code} value={l.code}>{l.flag} {l.name}</option>)}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1.5">
+                <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">To</span>
+                <select value={draft.targetLang} onChange={(e) => update({ targetLang: e.target.value })} className={inputClass}>
+                  {getLanguages().map(l => <option key={l.code} value={l.code}>{l.flag} {l.name}</option>)}
+                </select>
+              </label>
+              <input value={draft.source} onChange={(e) => update({ source: e.target.value })} placeholder='Term, e.g. "barangay"' aria-label="Source term" className={inputClass} />
+              <input
+                value={draft.doNotTranslate ? draft.source : draft.target}
+                onChange={(e) => update({ target: e.target.value })}
+                disabled={draft.doNotTranslate}
+                placeholder='Always translate as...'
+                aria-label="Required translation"
+                className={inputClass}
+              />
+            </div>
+            <div className="flex flex-wrap items-center gap-4 mb-5">
+              <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                <input type="checkbox" checked={draft.doNotTranslate} onChange={(e) => update({ doNotTranslate: e.target.checked })} />
+                Do not translate
+              </label>
+              <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                <input type="checkbox" checked={draft.caseSensitive} onChange={(e) => update({ caseSensitive: e.target.checked })} />
+                Case sensitive
+              </label>
+              <div className="ml-auto flex gap-2">
+                {editingId && (
+                  <button onClick={reset} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-200 transition-colors">
+                    Cancel
+                  </button>
+                )}
+                <button
+                  onClick={handleSave}
+                  disabled={!canSave || isSaving}
+                  className={`px-5 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-${theme.primary} hover:bg-${theme.secondary} text-white transition-all disabled:opacity-40`}
+                >
+                  {editingId ? 'Update term' : 'Add term'}
+                </button>
+              </div>
+            </div>
+
+            {rules.length > 0 && (
+              <ul className="grid gap-2">
+                {rules.map(rule => (
+                  <li key={rule.id} className={`flex flex-wrap items-center gap-3 p-3 rounded-xl border ${editingId === rule.id ? `border-${theme.id}-500/40` : 'border-white/5'} bg-slate-800/30`}>
+                    <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">
+                      {languageLabel(rule.sourceLang)} → {languageLabel(rule.targetLang)}
+                    </span>
+                    <span className="text-sm text-slate-200">
+                      "{rule.source}" → <span className={`text-${theme.accent}`}>{rule.doNotTranslate ? 'keep as is' : `"${rule.target}"`}</span>
+                    </span>
+                    {rule.caseSensitive && <span className="text-[9px] font-bold uppercase tracking-widest text-slate-500">Aa</span>}
+                    <div className="ml-auto flex gap-3">
+                      <button onClick={() => handleEdit(rule)} className="text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-slate-200 transition-colors">Edit</button>
+                      <button onClick={() => handleDelete(rule)} className="text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-red-400 transition-colors">Delete</button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TerminologyPanel;
@@ -0,0 +1,152 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { SanityFlag, ThemeConfig, TranslationResult, VerificationResult } from '../types';
+import { verifyTranslation } from '../services/geminiService';
+import { isAbortError, toTranslationError, TranslationErrorCode } from '../services/errors';
+import { detectSanityIssues, markDrift, scoreLabel } from '../services/verification';
+
+interface VerificationPanelProps {
+  inputText: string;
+  result: TranslationResult;
+  sourceLang: string;
+  targetLang: string;
+  theme: ThemeConfig;
+  canVerify: boolean;
+}
+
+const SETTINGS_KEY_AUTO_VERIFY = 'kanto_setting_auto_verify';
+
+const FLAG_LABELS: Record<SanityFlag['kind'], string> = {
+  sexualization: 'Possible sexualization',
+  expletive_mapping: 'Expletive turned literal',
+};
+
+const scoreColor = (score: number) =>
+  score >= 90 ? 'bg-emerald-400' : score >= 70 ? 'bg-sky-400' : score >= 40 ? 'bg-amber-400' : 'bg-red-400';
+
+const VerificationPanel: React.FC<VerificationPanelProps> = ({ inputText, result, sourceLang, targetLang, theme, canVerify }) => {
+  const [verification, setVerification] = useState<VerificationResult | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [errorCode, setErrorCode] = useState<TranslationErrorCode | null>(null);
+  const [autoVerify, setAutoVerify] = useState(() => localStorage.getItem(SETTINGS_KEY_AUTO_VERIFY) === 'true');
+  const activeRequest = useRef<AbortController | null>(null);
+
+  // The word-list check needs no network, so it runs on every result.
+  const localFlags = useMemo(() => detectSanityIssues(inputText, result.translatedText), [inputText, result.translatedText]);
+  const flags = verification?.flags ?? localFlags;
+
+  useEffect(() => {
+    localStorage.setItem(SETTINGS_KEY_AUTO_VERIFY, String(autoVerify));
+  }, [autoVerify]);
+
+  const runCheck = async () => {
+    activeRequest.current?.abort();
+    const controller = new AbortController();
+    activeRequest.current = controller;
+    setIsChecking(true);
+    setErrorCode(null);
+    try {
+      setVerification(await verifyTranslation(inputText, result, sourceLang, targetLang, controller.signal));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setErrorCode(toTranslationError(err).code);
+    } finally {
+      if (activeRequest.current === controller) {
+        activeRequest.current = null;
+        setIsChecking(false);
+      }
+    }
+  };
+
+  useEffect(() => {
+    setVerification(null);
+    setErrorCode(null);
+    if (autoVerify && canVerify) runCheck();
+    return () => activeRequest.current?.abort();
+  }, [inputText, result.translatedText]);
+
+  const segments = verification ? markDrift(inputText, verification.drift) : [];
+
+  return (
+    <div className="mt-10 pt-8 border-t border-white/5">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h4 className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-500 flex items-center gap-2">
+          <svg className={`w-4 h-4 text-${theme.accent}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" /></svg>
+          Meaning Check
+        </h4>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-slate-500 cursor-pointer">
+            <input type="checkbox" checked={autoVerify} onChange={(e) => setAutoVerify(e.target.checked)} />
+            Auto
+          </label>
+          <button
+            onClick={runCheck}
+            disabled={!canVerify || isChecking}
+            className="px-4 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest border border-white/5 bg-slate-800/40 text-slate-300 hover:bg-slate-700/60 transition-all disabled:opacity-40"
+          >
+            {isChecking ? 'Checking...' : verification ? 'Check again' : 'Back-translate'}
+          </button>
+        </div>
+      </div>
+
+      {flags.length > 0 && (
+        <ul className="mb-4 grid gap-2" role="alert">
+          {flags.map((flag, i) => (
+            <li key={i} className="p-3 rounded-2xl bg-red-500/10 border border-red-500/20 text-[11px] text-red-300">
+              <span className="font-black uppercase tracking-widest text-[9px] text-red-400 mr-2">{FLAG_LABELS[flag.kind]}</span>
+              "{flag.phrase}" — {flag.reason}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {errorCode && (
+        <p className="text-[11px] font-bold uppercase tracking-widest text-red-400">Check failed ({errorCode})</p>
+      )}
+
+      {verification && (
+        <div className="grid gap-4">
+          <div>
+            <div className="flex items-center justify-between mb-2 text-[10px] font-black uppercase tracking-widest">
+              <span className="text-slate-400">{scoreLabel(verification.score)}</span>
+              <span className="text-slate-200 tabular-nums">{verification.score}/100</span>
+            </div>
+            <div className="h-1.5 rounded-full bg-slate-800/60 overflow-hidden" role="meter" aria-valuemin={0} aria-valuemax={100} aria-valuenow={verification.score} aria-label="Meaning preserved">
+              <div className={`h-full ${scoreColor(verification.score)} transition-all duration-500`} style={{ width: `${verification.score}%` }} />
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div className="glass rounded-2xl p-4 border border-white/5">
+              <p className="text-[9px] font-black uppercase tracking-widest text-slate-500 mb-2">Original</p>
+              <p className="text-sm text-slate-300 leading-relaxed">
+                {segments.map((segment, i) =>
+                  segment.drift
+                    ? <mark key={i} title={segment.drift.issue} className="bg-amber-500/20 text-amber-200 rounded px-0.5">{segment.text}</mark>
+                    : <span key={i}>{segment.text}</span>
+                )}
+              </p>
+            </div>
+            <div className="glass rounded-2xl p-4 border border-white/5">
+              <p className="text-[9px] font-black uppercase tracking-widest text-slate-500 mb-2">Back-translated</p>
+              <p className="text-sm text-slate-300 leading-relaxed">{verification.backTranslation}</p>
+            </div>
+          </div>
+
+          {verification.drift.length > 0 && (
+            <ul className="grid gap-2">
+              {verification.drift.map((d, i) => (
+                <li key={i} className="text-[11px] text-slate-400">
+                  <span className="text-amber-200 font-semibold">"{d.source}"</span>
+                  {d.backTranslated && <> came back as <span className="text-slate-200">"{d.backTranslated}"</span></>}
+                  {d.issue && <> — {d.issue}</>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VerificationPanel;
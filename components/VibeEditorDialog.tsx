@@ -0,0 +1,186 @@
+import React, { useEffect, useId, useState } from 'react';
+import { ThemeConfig, VibeDefinition, VibeMode } from '../types';
+import {
+  BUILT_IN_VIBES,
+  createVibeDraft,
+  deleteCustomVibe,
+  loadCustomVibes,
+  saveCustomVibe,
+  VIBE_PRESETS,
+} from '../services/vibes';
+
+interface VibeEditorDialogProps {
+  theme: ThemeConfig;
+  onClose: () => void;
+  onChanged: (customVibes: VibeDefinition[], savedId?: VibeMode) => void;
+}
+
+const splitWords = (text: string): string[] =>
+  Array.from(new Set(text.split(',').map(word => word.trim()).filter(Boolean)));
+
+const VibeEditorDialog: React.FC<VibeEditorDialogProps> = ({ theme, onClose, onChanged }) => {
+  const [customVibes, setCustomVibes] = useState<VibeDefinition[]>(loadCustomVibes);
+  const [draft, setDraft] = useState<VibeDefinition>(() => customVibes[0] || createVibeDraft());
+  const [bannedText, setBannedText] = useState(draft.bannedWords.join(', '));
+  const titleId = useId();
+
+  const isSaved = customVibes.some(v => v.id === draft.id);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const edit = (vibe: VibeDefinition) => {
+    setDraft(vibe);
+    setBannedText(vibe.bannedWords.join(', '));
+  };
+
+  const update = (patch: Partial<VibeDefinition>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const updateExample = (index: number, patch: Partial<VibeDefinition['examples'][number]>) =>
+    update({ examples: draft.examples.map((example, i) => (i === index ? { ...example, ...patch } : example)) });
+
+  const handleSave = () => {
+    const next = saveCustomVibe({ ...draft, bannedWords: splitWords(bannedText) });
+    setCustomVibes(next);
+    setDraft(next.find(v => v.id === draft.id)!);
+    onChanged(next, draft.id);
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete the "${draft.name}" vibe?`)) return;
+    const next = deleteCustomVibe(draft.id);
+    setCustomVibes(next);
+    edit(next[0] || createVibeDraft());
+    onChanged(next);
+  };
+
+  const inputClass = `w-full bg-slate-950/40 border border-slate-800/50 text-slate-100 rounded-xl px-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-${theme.id}-500/20 placeholder:text-slate-700 placeholder:italic`;
+  const chipClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-xl text-[10px] font-bold border transition-all ${
+      active
+        ? `bg-${theme.id}-500/20 border-${theme.id}-500/50 text-white`
+        : 'bg-slate-800/40 border-white/5 text-slate-400 hover:text-slate-200'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-950/70 backdrop-blur-sm" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-2xl max-h-[90vh] overflow-y-auto glass bg-slate-900/90 border border-white/10 rounded-[2rem] p-6 lg:p-8 shadow-2xl animate-in fade-in zoom-in-95 duration-300"
+      >
+        <h3 id={titleId} className={`text-[10px] font-black uppercase tracking-[0.3em] text-${theme.accent} mb-4`}>
+          Custom Vibes
+        </h3>
+
+        <div className="flex flex-wrap gap-2 mb-3">
+          {customVibes.map(vibe => (
+            <button key={vibe.id} onClick={() => edit(vibe)} className={chipClass(vibe.id === draft.id)}>
+              {vibe.name}
+            </button>
+          ))}
+          <button onClick={() => edit(createVibeDraft())} className={chipClass(!isSaved && !draft.name)}>
+            + New vibe
+          </button>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 mb-6">
+          <span className="text-[9px] font-black uppercase tracking-widest text-slate-600">Start from</span>
+          {[...VIBE_PRESETS, ...BUILT_IN_VIBES.map(vibe => ({ ...vibe, name: `My ${vibe.name}` }))].map(preset => (
+            <button
+              key={preset.name}
+              onClick={() => edit(createVibeDraft(preset))}
+              className="px-2.5 py-1 rounded-lg text-[10px] font-medium text-slate-500 border border-white/5 hover:text-slate-200 hover:bg-slate-800/60 transition-colors"
+            >
+              {preset.name}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid gap-4">
+          <div className="grid sm:grid-cols-2 gap-4">
+            <label className="flex flex-col gap-1.5">
+              <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">Name</span>
+              <input value={draft.name} onChange={(e) => update({ name: e.target.value })} placeholder="Gen Z TikTok" className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1.5">
+              <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">Description</span>
+              <input value={draft.description} onChange={(e) => update({ description: e.target.value })} placeholder="Very online" className={inputClass} />
+            </label>
+          </div>
+          <label className="flex flex-col gap-1.5">
+            <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">Style instructions</span>
+            <textarea
+              value={draft.instructions}
+              onChange={(e) => update({ instructions: e.target.value })}
+              rows={5}
+              placeholder="Translate into {targetLang} the way my titas text in the family group chat..."
+              className={`${inputClass} resize-y`}
+            />
+            <span className="text-[10px] text-slate-600">{'{targetLang}'} is replaced with the language you translate into.</span>
+          </label>
+
+          <div className="flex flex-col gap-1.5">
+            <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">Example pairs</span>
+            {draft.examples.map((example, i) => (
+              <div key={i} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+                <input value={example.source} onChange={(e) => updateExample(i, { source: e.target.value })} placeholder="Original" aria-label={`Example ${i + 1} original`} className={inputClass} />
+                <input value={example.target} onChange={(e) => updateExample(i, { target: e.target.value })} placeholder="In this vibe" aria-label={`Example ${i + 1} translation`} className={inputClass} />
+                <button
+                  onClick={() => update({ examples: draft.examples.filter((_, j) => j !== i) })}
+                  aria-label={`Remove example ${i + 1}`}
+                  className="px-2 text-slate-600 hover:text-red-400 transition-colors"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => update({ examples: [...draft.examples, { source: '', target: '' }] })}
+              className="self-start text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-slate-200 transition-colors"
+            >
+              + Add example
+            </button>
+          </div>
+
+          <label className="flex flex-col gap-1.5">
+            <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">Banned words</span>
+            <input value={bannedText} onChange={(e) => setBannedText(e.target.value)} placeholder="ay, tila" className={inputClass} />
+          </label>
+        </div>
+
+        <div className="flex items-center justify-end gap-3 mt-8">
+          {isSaved && (
+            <button
+              onClick={handleDelete}
+              className="mr-auto px-4 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest text-red-400 hover:bg-red-500/10 transition-colors"
+            >
+              Delete
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="px-5 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-200 transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!draft.name.trim() || !draft.instructions.trim()}
+            className={`px-6 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-${theme.primary} hover:bg-${theme.secondary} text-white transition-all disabled:opacity-50`}
+          >
+            {isSaved ? 'Save changes' : 'Add vibe'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VibeEditorDialog;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { ThemeConfig, VibeMode } from '../types';
+
+export interface VibeOption {
+  id: VibeMode;
+  label: string;
+  desc: string;
+}
+
+interface VibeSelectorProps {
+  options: VibeOption[];
+  value: VibeMode;
+  onChange: (value: VibeMode) => void;
+  theme: ThemeConfig;
+  accessory?: React.ReactNode;
+  onEdit?: () => void; // Opens the custom vibe editor
+}
+
+const VibeSelector: React.FC<VibeSelectorProps> = ({ options, value, onChange, theme, accessory, onEdit }) => {
+  return (
+    <div className="mb-10">
+      <div className="flex items-center justify-between mb-4 px-1">
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500">Select Vibe</span>
+          <div className={`w-1.5 h-1.5 rounded-full bg-${theme.accent}`} />
+          {onEdit && (
+            <button
+              onClick={onEdit}
+              className={`ml-2 text-[9px] font-black uppercase tracking-widest text-slate-600 hover:text-${theme.accent} transition-colors`}
+            >
+              + Custom
+            </button>
+          )}
+        </div>
+        {accessory}
+      </div>
+      <div className="grid grid-cols-3 gap-3">
+        {options.map((opt) => (
+          <button
+            key={opt.id}
+            onClick={() => onChange(opt.id)}
+            className={`flex flex-col items-center justify-center p-4 rounded-2xl border transition-all relative overflow-hidden ${
+              value === opt.id
+                ? `bg-${theme.id}-500/20 border-${theme.id}-500/50 text-white shadow-lg shadow-${theme.id}-500/10`
+                : 'bg-slate-800/40 border-white/5 text-slate-400 hover:bg-slate-800/60 hover:text-slate-200'
+            }`}
+          >
+            <span className="text-xs font-black uppercase tracking-widest mb-1">{opt.label}</span>
+            <span className="text-[9px] font-medium opacity-60 text-center leading-none">{opt.desc}</span>
+            {value === opt.id && (
+              <div className={`absolute bottom-0 left-0 right-0 h-1 bg-${theme.accent} animate-in slide-in-from-bottom-1 duration-300`} />
+            )}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default VibeSelector;
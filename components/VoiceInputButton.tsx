@@ -0,0 +1,147 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { transcribeSpeech } from '../services/geminiService';
+import { ThemeConfig } from '../types';
+import { toTranslationError, TranslationError } from '../services/errors';
+
+interface VoiceInputButtonProps {
+  sourceLang: string;
+  theme: ThemeConfig;
+  disabled?: boolean;
+  autoTranslate: boolean;
+  onAutoTranslateChange: (value: boolean) => void;
+  onTranscript: (text: string) => void;
+  onError: (error: TranslationError) => void;
+}
+
+type RecorderState = 'idle' | 'recording' | 'transcribing';
+
+const PREFERRED_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg'];
+
+const pickMimeType = (): string | undefined => {
+  if (typeof MediaRecorder === 'undefined' || !MediaRecorder.isTypeSupported) return undefined;
+  return PREFERRED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+};
+
+const VoiceInputButton: React.FC<VoiceInputButtonProps> = ({
+  sourceLang,
+  theme,
+  disabled,
+  autoTranslate,
+  onAutoTranslateChange,
+  onTranscript,
+  onError,
+}) => {
+  const [state, setState] = useState<RecorderState>('idle');
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+
+  const isSupported = typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia && typeof MediaRecorder !== 'undefined';
+
+  const releaseStream = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  };
+
+  useEffect(() => () => {
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+    releaseStream();
+  }, []);
+
+  const handleStop = async () => {
+    releaseStream();
+    const audio = new Blob(chunksRef.current, { type: recorderRef.current?.mimeType || 'audio/webm' });
+    chunksRef.current = [];
+    recorderRef.current = null;
+
+    if (audio.size === 0) {
+      setState('idle');
+      return;
+    }
+
+    setState('transcribing');
+    try {
+      const transcript = await transcribeSpeech(audio, sourceLang);
+      if (!transcript) {
+        onError(new TranslationError('EMPTY_RESPONSE'));
+      } else {
+        onTranscript(transcript);
+      }
+    } catch (err) {
+      onError(toTranslationError(err));
+    } finally {
+      setState('idle');
+    }
+  };
+
+  const startRecording = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      streamRef.current = stream;
+      const mimeType = pickMimeType();
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunksRef.current.push(e.data);
+      };
+      recorder.onstop = handleStop;
+      recorderRef.current = recorder;
+      chunksRef.current = [];
+      recorder.start();
+      setState('recording');
+    } catch (err) {
+      console.error("Microphone unavailable:", err);
+      releaseStream();
+      onError(new TranslationError('MIC_DENIED', { cause: err }));
+    }
+  };
+
+  const toggleRecording = () => {
+    if (state === 'recording') {
+      recorderRef.current?.stop();
+    } else if (state === 'idle') {
+      startRecording();
+    }
+  };
+
+  if (!isSupported) return null;
+
+  const isRecording = state === 'recording';
+  const isTranscribing = state === 'transcribing';
+
+  return (
+    <div className="flex items-center gap-2">
+      <button
+        onClick={() => onAutoTranslateChange(!autoTranslate)}
+        aria-pressed={autoTranslate}
+        title="Translate automatically after dictation"
+        className={`flex items-center gap-2 px-3 py-1 rounded-full border transition-all ${autoTranslate ? `bg-${theme.id}-500/10 border-${theme.id}-500/30 text-${theme.accent}` : 'bg-slate-800/40 border-white/5 text-slate-500'}`}
+      >
+        <span className="text-[9px] font-black uppercase tracking-widest">Auto-vibe</span>
+        <div className={`w-2 h-2 rounded-full ${autoTranslate ? `bg-${theme.accent}` : 'bg-slate-600'}`} />
+      </button>
+      <button
+        onClick={toggleRecording}
+        disabled={disabled || isTranscribing}
+        aria-label={isRecording ? 'Stop recording' : 'Dictate with microphone'}
+        aria-pressed={isRecording}
+        className={`p-3 rounded-2xl border transition-all focus:outline-none focus:ring-2 focus:ring-${theme.primary} focus:ring-offset-2 focus:ring-offset-slate-950 ${
+          isRecording
+            ? 'bg-red-500/20 border-red-500/40 text-red-400 animate-pulse'
+            : disabled || isTranscribing
+              ? 'bg-slate-800/20 border-white/5 text-slate-600 cursor-not-allowed'
+              : `bg-slate-800/50 border-white/5 text-slate-300 hover:bg-slate-700 hover:text-${theme.accent} hover:scale-110 active:scale-90`
+        }`}
+      >
+        {isTranscribing ? (
+          <svg className="animate-spin h-5 w-5" fill="none" viewBox="0 0 24 24" aria-hidden="true"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
+        ) : isRecording ? (
+          <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24" aria-hidden="true"><rect x="6" y="6" width="12" height="12" rx="2" /></svg>
+        ) : (
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg>
+        )}
+      </button>
+    </div>
+  );
+};
+
+export default VoiceInputButton;
@@ -0,0 +1,71 @@
+// Kanto service worker: keeps the app shell and its CDN dependencies available
+// offline. Translations themselves are cached in IndexedDB by the app, not here.
+
+const SHELL_CACHE = 'kanto-shell-v1';
+const RUNTIME_CACHE = 'kanto-runtime-v1';
+// Only files every build serves; one missing URL makes `addAll` reject and the install fail.
+// Hashed bundles are picked up by the runtime cache on first load.
+const SHELL_URLS = ['/', '/index.html'];
+
+// Versioned, immutable CDN assets (import map modules, fonts, Tailwind).
+const CDN_HOSTS = ['esm.sh', 'cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys.filter((key) => key !== SHELL_CACHE && key !== RUNTIME_CACHE).map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+const networkFirst = async (request) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match(request) || await caches.match(request);
+    if (cached) return cached;
+    if (request.mode === 'navigate') {
+      const shell = await caches.match('/index.html');
+      if (shell) return shell;
+    }
+    throw err;
+  }
+};
+
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  // Opaque cross-origin responses (status 0) are still worth keeping for fonts and CSS.
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(RUNTIME_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin === self.location.origin) {
+    event.respondWith(networkFirst(request));
+  } else if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request));
+  }
+  // Everything else (the Gemini API in particular) goes straight to the network.
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { encodeWav } from './audio';
+
+const ascii = (view: DataView, offset: number, length: number) =>
+  String.fromCharCode(...Array.from({ length }, (_, i) => view.getUint8(offset + i)));
+
+describe('encodeWav', () => {
+  it('writes a 44-byte RIFF header for 16-bit mono PCM', async () => {
+    const pcm = new Int16Array([0, 1, -1, 32767]);
+    const blob = encodeWav(pcm, 24000);
+    expect(blob.type).toBe('audio/wav');
+    expect(blob.size).toBe(44 + pcm.length * 2);
+
+    const view = new DataView(await blob.arrayBuffer());
+    expect(ascii(view, 0, 4)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(36 + pcm.length * 2);
+    expect(ascii(view, 8, 8)).toBe('WAVEfmt ');
+    expect(view.getUint32(16, true)).toBe(16);
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(24000);
+    expect(view.getUint32(28, true)).toBe(48000);
+    expect(view.getUint16(32, true)).toBe(2);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(ascii(view, 36, 4)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(pcm.length * 2);
+  });
+
+  it('appends the samples little-endian after the header', async () => {
+    const view = new DataView(await encodeWav(new Int16Array([-2, 300])).arrayBuffer());
+    expect(view.getInt16(44, true)).toBe(-2);
+    expect(view.getInt16(46, true)).toBe(300);
+  });
+});
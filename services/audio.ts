@@ -0,0 +1,116 @@
+import { TTS_SAMPLE_RATE } from "./translationProvider";
+
+// Playback for synthesized speech. One shared <audio> element plays the PCM wrapped
+// as WAV, so slower speeds keep their pitch and a new clip simply replaces the old
+// one. Components subscribe to know which clip is loading or playing.
+
+export type PlaybackState = 'idle' | 'loading' | 'playing';
+
+export interface PlaybackStatus {
+  state: PlaybackState;
+  clipId: string | null;
+}
+
+const IDLE: PlaybackStatus = { state: 'idle', clipId: null };
+
+let status: PlaybackStatus = IDLE;
+const listeners = new Set<(status: PlaybackStatus) => void>();
+
+let element: HTMLAudioElement | null = null;
+let objectUrl: string | null = null;
+let active: { finish: () => void } | null = null;
+
+const setStatus = (next: PlaybackStatus) => {
+  status = next;
+  listeners.forEach(listener => listener(status));
+};
+
+export const getPlaybackStatus = (): PlaybackStatus => status;
+
+export const subscribePlayback = (listener: (status: PlaybackStatus) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const writeAscii = (view: DataView, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+};
+
+// A 44-byte RIFF header in front of 16-bit mono little-endian PCM.
+export const encodeWav = (pcm: Int16Array, sampleRate: number = TTS_SAMPLE_RATE): Blob => {
+  const header = new DataView(new ArrayBuffer(44));
+  const dataSize = pcm.length * 2;
+  writeAscii(header, 0, 'RIFF');
+  header.setUint32(4, 36 + dataSize, true);
+  writeAscii(header, 8, 'WAVE');
+  writeAscii(header, 12, 'fmt ');
+  header.setUint32(16, 16, true);             // fmt chunk size
+  header.setUint16(20, 1, true);              // PCM
+  header.setUint16(22, 1, true);              // mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true); // bytes per second
+  header.setUint16(32, 2, true);              // bytes per frame
+  header.setUint16(34, 16, true);             // bits per sample
+  writeAscii(header, 36, 'data');
+  header.setUint32(40, dataSize, true);
+  const body = new Int16Array(pcm); // Copy so the Blob owns a plain ArrayBuffer
+  return new Blob([header.buffer, body.buffer], { type: 'audio/wav' });
+};
+
+// Stops whatever is loading or playing; pending `playPcm` promises resolve.
+export const stopPlayback = () => {
+  const clip = active;
+  active = null;
+  clip?.finish();
+  if (element) {
+    element.pause();
+    element.removeAttribute('src');
+  }
+  if (objectUrl) {
+    URL.revokeObjectURL(objectUrl);
+    objectUrl = null;
+  }
+  setStatus(IDLE);
+};
+
+// Marks a clip as loading; the returned status is current until something else starts or stops.
+export const startLoading = (clipId: string): PlaybackStatus => {
+  stopPlayback();
+  const loading: PlaybackStatus = { state: 'loading', clipId };
+  setStatus(loading);
+  return loading;
+};
+
+export const setPlaybackRate = (rate: number) => {
+  if (element && active) element.playbackRate = rate;
+};
+
+// Resolves when the clip ends or is stopped.
+export const playPcm = (pcm: Int16Array, clipId: string, rate = 1): Promise<void> => {
+  stopPlayback();
+  const audio = element ?? (element = new Audio());
+  objectUrl = URL.createObjectURL(encodeWav(pcm));
+  audio.src = objectUrl;
+  // Loading a new source resets playbackRate to the default, so set both.
+  audio.defaultPlaybackRate = rate;
+  audio.playbackRate = rate;
+  setStatus({ state: 'playing', clipId });
+
+  return new Promise<void>(resolve => {
+    const finish = () => {
+      audio.removeEventListener('ended', onEnded);
+      resolve();
+    };
+    const onEnded = () => {
+      if (active?.finish === finish) stopPlayback();
+    };
+    audio.addEventListener('ended', onEnded);
+    active = { finish };
+    audio.play().catch(err => {
+      console.error("Playback failed", err);
+      if (active?.finish === finish) stopPlayback();
+    });
+  });
+};
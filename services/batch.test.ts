@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { TranslationResult } from '../types';
+import { batchFileName, getSegments, parseBatchDocument, renderBatchDocument, runBatch, segmentContext } from './batch';
+import { TranslationError } from './errors';
+
+const result = (translatedText: string): TranslationResult => ({ translatedText, explanation: '', slangUsed: [], vibe: '' });
+
+describe('parseBatchDocument / renderBatchDocument', () => {
+  it('translates non-empty text lines and keeps the rest', () => {
+    const doc = parseBatchDocument('one\n\ntwo', 'list.txt');
+    expect(getSegments(doc)).toEqual([{ text: 'one', position: 0 }, { text: 'two', position: 2 }]);
+    expect(renderBatchDocument(doc, new Map([[0, 'isa']]))).toBe('isa\n\ntwo');
+    expect(batchFileName(doc, 'tl')).toBe('list.tl.txt');
+  });
+
+  it('picks the text column of a CSV and adds the translation next to it', () => {
+    const doc = parseBatchDocument('id,text\n1,"Hello, you"\n2,Bye', 'strings.csv');
+    expect(doc.format === 'csv' && doc.column).toBe(1);
+    expect(getSegments(doc).map(segment => segment.text)).toEqual(['Hello, you', 'Bye']);
+    expect(renderBatchDocument(doc, new Map([[1, 'Kumusta, ikaw']]))).toBe(
+      'id,text,text_translated\r\n1,"Hello, you","Kumusta, ikaw"\r\n2,Bye,'
+    );
+  });
+
+  it('writes every subtitle cue back, falling back to the source for missing or empty translations', () => {
+    const doc = parseBatchDocument('1\n00:00:01,000 --> 00:00:02,000\nHi\n\n2\n00:00:03,000 --> 00:00:04,000\nBye\n', 'ep1.srt');
+    expect(renderBatchDocument(doc, new Map([[0, '  ']]))).toBe(
+      '1\n00:00:01,000 --> 00:00:02,000\nHi\n\n2\n00:00:03,000 --> 00:00:04,000\nBye\n'
+    );
+    expect(renderBatchDocument(doc, new Map([[1, 'Paalam']]))).toContain('2\n00:00:03,000 --> 00:00:04,000\nPaalam\n');
+  });
+
+  it('gives subtitle cues their neighbours as context', () => {
+    const doc = parseBatchDocument('1\n00:00:01,000 --> 00:00:02,000\nA\n\n2\n00:00:03,000 --> 00:00:04,000\nB\n', 'x.srt');
+    expect(segmentContext(doc, 1)?.subtitle).toMatchObject({ before: ['A'], after: [] });
+    expect(segmentContext(parseBatchDocument('a', 'x.txt'), 0)).toBeUndefined();
+  });
+});
+
+describe('runBatch', () => {
+  const options = (overrides: Partial<Parameters<typeof runBatch>[2]> = {}) => ({
+    concurrency: 2,
+    minIntervalMs: 0,
+    maxAttempts: 3,
+    signal: new AbortController().signal,
+    onRowStart: () => {},
+    onRowDone: () => {},
+    onRowError: () => {},
+    ...overrides,
+  });
+
+  it('never runs more rows at once than the concurrency allows', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const done: number[] = [];
+    await runBatch([0, 1, 2, 3, 4], async (row) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+      return result(`row ${row}`);
+    }, options({ onRowDone: (row) => done.push(row) }));
+    expect(peak).toBe(2);
+    expect(done.sort()).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('retries retryable errors and reports the rest after one attempt', async () => {
+    const calls = new Map<number, number>();
+    const errors: [number, string, number][] = [];
+    await runBatch([0, 1], async (row) => {
+      const attempt = (calls.get(row) || 0) + 1;
+      calls.set(row, attempt);
+      if (row === 0 && attempt < 3) throw new TranslationError('SERVER_ERROR');
+      if (row === 1) throw new TranslationError('SAFETY_BLOCK');
+      return result('ok');
+    }, options({ onRowError: (row, error, attempts) => errors.push([row, error.code, attempts]) }));
+    expect(calls.get(0)).toBe(3);
+    expect(errors).toEqual([[1, 'SAFETY_BLOCK', 1]]);
+  });
+
+  it('stops taking new rows once aborted', async () => {
+    const controller = new AbortController();
+    const started: number[] = [];
+    await runBatch([0, 1, 2], async (row) => {
+      started.push(row);
+      controller.abort();
+      throw new TranslationError('ABORTED');
+    }, options({ concurrency: 1, signal: controller.signal }));
+    expect(started).toEqual([0]);
+  });
+});
@@ -0,0 +1,215 @@
+import { TranslationContext, TranslationResult } from "../types";
+import { csvCell, parseCsv } from "./csv";
+import { isAbortError, toTranslationError, TranslationError } from "./errors";
+import {
+  DEFAULT_MAX_LINE_LENGTH,
+  detectSubtitleFormat,
+  parseSubtitles,
+  serializeSubtitles,
+  SubtitleDocument,
+  wrapSubtitleText,
+} from "./subtitles";
+import { sleep } from "./timing";
+
+// Batch / document translation. A document is split into segments, the segments are
+// translated with bounded concurrency and spacing between requests, and the results
+// are written back into the same format the document came in.
+
+export type BatchDocument =
+  | { format: 'text'; fileName?: string; lines: string[] }
+  | { format: 'csv'; fileName?: string; rows: string[][]; column: number; hasHeader: boolean }
+  | { format: 'subtitles'; fileName?: string; subtitles: SubtitleDocument; maxLineLength: number };
+
+export interface BatchSegment {
+  text: string;
+  // Position inside the document: line, row or cue index.
+  position: number;
+}
+
+export type BatchRowStatus = 'pending' | 'running' | 'done' | 'error';
+
+export interface BatchRow extends BatchSegment {
+  status: BatchRowStatus;
+  result?: TranslationResult;
+  error?: TranslationError;
+  attempts: number;
+}
+
+export interface BatchRunOptions {
+  concurrency: number;
+  minIntervalMs: number; // Minimum spacing between request starts
+  maxAttempts: number;   // Per row, including the first try; only retryable errors are retried
+  signal: AbortSignal;
+  onRowStart: (rowIndex: number) => void;
+  onRowDone: (rowIndex: number, result: TranslationResult) => void;
+  onRowError: (rowIndex: number, error: TranslationError, attempts: number) => void;
+}
+
+export const DEFAULT_CONCURRENCY = 2;
+export const DEFAULT_MIN_INTERVAL_MS = 500;
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+// ---------------------------------------------------------------------------
+// Parsing and rebuilding
+
+const TEXT_COLUMN_NAMES = ['text', 'source', 'string', 'value', 'english', 'en', 'message'];
+
+// Picks the column most likely to hold translatable text: a well-known header name,
+// otherwise the column with the longest average content.
+const guessCsvColumn = (rows: string[][]): number => {
+  const header = rows[0] || [];
+  const named = header.findIndex(cell => TEXT_COLUMN_NAMES.includes(cell.trim().toLowerCase()));
+  if (named >= 0) return named;
+  let best = 0;
+  let bestLength = -1;
+  header.forEach((_, column) => {
+    const length = rows.slice(1).reduce((sum, row) => sum + (row[column] || '').length, 0);
+    if (length > bestLength) {
+      best = column;
+      bestLength = length;
+    }
+  });
+  return best;
+};
+
+export const parseBatchDocument = (text: string, fileName?: string): BatchDocument => {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  const subtitleFormat = detectSubtitleFormat(text, fileName);
+  if (subtitleFormat) {
+    return { format: 'subtitles', fileName, subtitles: parseSubtitles(text, subtitleFormat), maxLineLength: DEFAULT_MAX_LINE_LENGTH };
+  }
+  if (extension === 'csv') {
+    const rows = parseCsv(text);
+    return { format: 'csv', fileName, rows, column: guessCsvColumn(rows), hasHeader: true };
+  }
+  return { format: 'text', fileName, lines: text.split(/\r?\n/) };
+};
+
+export const getSegments = (doc: BatchDocument): BatchSegment[] => {
+  switch (doc.format) {
+    case 'text':
+      return doc.lines
+        .map((text, position) => ({ text, position }))
+        .filter(segment => segment.text.trim());
+    case 'csv':
+      return doc.rows
+        .map((row, position) => ({ text: row[doc.column] || '', position }))
+        .filter(segment => segment.text.trim() && !(doc.hasHeader && segment.position === 0));
+    case 'subtitles':
+      return doc.subtitles.cues
+        .map((cue, position) => ({ text: cue.text, position }))
+        .filter(segment => segment.text.trim());
+  }
+};
+
+// Untranslated or failed segments keep their original text so the output is always complete.
+export const renderBatchDocument = (doc: BatchDocument, translations: Map<number, string>): string => {
+  switch (doc.format) {
+    case 'text':
+      return doc.lines.map((line, i) => translations.get(i) ?? line).join('\n');
+    case 'csv':
+      return doc.rows
+        .map((row, i) => {
+          const added = doc.hasHeader && i === 0
+            ? `${row[doc.column] || 'text'}_translated`
+            : translations.get(i) ?? '';
+          return [...row.slice(0, doc.column + 1), added, ...row.slice(doc.column + 1)].map(csvCell).join(',');
+        })
+        .join('\r\n');
+    case 'subtitles':
+      return serializeSubtitles({
+        ...doc.subtitles,
+        cues: doc.subtitles.cues.map((cue, i) => ({ ...cue, text: displayText(doc, translations.get(i))?.trim() || cue.text })),
+      });
+  }
+};
+
+// Translated cue text as it will be written out, wrapped to the line limit.
+export const displayText = (doc: BatchDocument, text: string | undefined): string | undefined =>
+  text !== undefined && doc.format === 'subtitles' ? wrapSubtitleText(text, doc.maxLineLength) : text;
+
+// Neighbouring cues let the model keep a sentence that spans several cues coherent.
+const SUBTITLE_CONTEXT_CUES = 2;
+
+export const segmentContext = (doc: BatchDocument, position: number): TranslationContext | undefined => {
+  if (doc.format !== 'subtitles') return undefined;
+  const texts = doc.subtitles.cues.map(cue => cue.text);
+  return {
+    subtitle: {
+      before: texts.slice(Math.max(0, position - SUBTITLE_CONTEXT_CUES), position).filter(text => text.trim()),
+      after: texts.slice(position + 1, position + 1 + SUBTITLE_CONTEXT_CUES).filter(text => text.trim()),
+      maxLineLength: doc.maxLineLength,
+    },
+  };
+};
+
+export const batchExtension = (doc: BatchDocument): string => {
+  if (doc.format === 'subtitles') return doc.subtitles.format;
+  return doc.format === 'text' ? 'txt' : doc.format;
+};
+
+export const batchFileName = (doc: BatchDocument, targetLang: string): string => {
+  const extension = batchExtension(doc);
+  const base = doc.fileName ? doc.fileName.replace(/\.[^.]+$/, '') : 'kanto-batch';
+  return `${base}.${targetLang}.${extension}`;
+};
+
+// ---------------------------------------------------------------------------
+// Running
+
+// Spaces request starts at least `minIntervalMs` apart across all workers. A quota
+// error with a retry hint pushes the next slot out for everyone, not just one row.
+const createRateLimiter = (minIntervalMs: number) => {
+  let nextSlot = 0;
+  return {
+    wait: async (signal: AbortSignal) => {
+      const now = Date.now();
+      const startAt = Math.max(now, nextSlot);
+      nextSlot = startAt + minIntervalMs;
+      if (startAt > now) await sleep(startAt - now, signal);
+    },
+    backOff: (ms: number) => {
+      nextSlot = Math.max(nextSlot, Date.now() + ms);
+    },
+  };
+};
+
+export const runBatch = async (
+  rowIndices: number[],
+  translate: (rowIndex: number, signal: AbortSignal) => Promise<TranslationResult>,
+  options: BatchRunOptions
+): Promise<void> => {
+  const limiter = createRateLimiter(options.minIntervalMs);
+  const queue = [...rowIndices];
+
+  const translateRow = async (rowIndex: number) => {
+    for (let attempt = 1; ; attempt++) {
+      await limiter.wait(options.signal);
+      options.onRowStart(rowIndex);
+      try {
+        options.onRowDone(rowIndex, await translate(rowIndex, options.signal));
+        return;
+      } catch (err) {
+        if (isAbortError(err) || options.signal.aborted) throw err;
+        const error = toTranslationError(err);
+        if (!error.retryable || attempt >= options.maxAttempts) {
+          options.onRowError(rowIndex, error, attempt);
+          return;
+        }
+        limiter.backOff(error.retryAfterMs ?? options.minIntervalMs * 2 ** attempt);
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (queue.length > 0 && !options.signal.aborted) {
+      await translateRow(queue.shift()!);
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.max(1, options.concurrency) }, worker));
+  } catch (err) {
+    if (!isAbortError(err)) throw err;
+  }
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { csvCell, parseCsv } from './csv';
+
+describe('csvCell', () => {
+  it('quotes cells with commas, quotes or line breaks', () => {
+    expect(csvCell('plain')).toBe('plain');
+    expect(csvCell('a, b')).toBe('"a, b"');
+    expect(csvCell('say "hi"')).toBe('"say ""hi"""');
+    expect(csvCell('two\nlines')).toBe('"two\nlines"');
+  });
+
+  it('writes numbers and leaves undefined empty', () => {
+    expect(csvCell(3)).toBe('3');
+    expect(csvCell(-3)).toBe('-3');
+    expect(csvCell(undefined)).toBe('');
+  });
+
+  it('puts an apostrophe before text a spreadsheet would run as a formula', () => {
+    expect(csvCell('=HYPERLINK("http://x")')).toBe(`"'=HYPERLINK(""http://x"")"`);
+    expect(csvCell('+63 912')).toBe("'+63 912");
+    expect(csvCell('-5')).toBe("'-5");
+    expect(csvCell('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(csvCell("'=1")).toBe("''=1");
+    expect(csvCell("it's = fine")).toBe("it's = fine");
+  });
+});
+
+describe('parseCsv', () => {
+  it('reads quoted fields, doubled quotes and both line endings', () => {
+    expect(parseCsv('a,"b, c"\r\n"say ""hi""",d\n')).toEqual([['a', 'b, c'], ['say "hi"', 'd']]);
+  });
+
+  it('keeps line breaks inside quotes and skips blank rows', () => {
+    expect(parseCsv('"two\nlines",x\n\n,\ny')).toEqual([['two\nlines', 'x'], ['y']]);
+  });
+
+  it('reads back what csvCell writes', () => {
+    const values = ['plain', 'a, b', 'say "hi"', 'two\r\nlines', '', '=1+1', "'@x", "'quoted"];
+    expect(parseCsv(values.map(csvCell).join(','))).toEqual([values]);
+  });
+});
@@ -0,0 +1,54 @@
+// Comma-separated values, as spreadsheets and translation tools exchange them.
+
+// Spreadsheets run a cell starting with one of =+-@ as a formula, so such text is
+// written with a leading apostrophe. Text that already starts with apostrophes before
+// one of those gets another, so parseCsv can strip exactly one and read it back.
+const FORMULA_START = /^'*[=+\-@]/;
+
+export const csvCell = (value: string | number | undefined): string => {
+  const raw = value === undefined ? '' : String(value);
+  const text = typeof value === 'string' && FORMULA_START.test(value) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const unescapeCell = (cell: string): string => (cell.startsWith("'") && FORMULA_START.test(cell) ? cell.slice(1) : cell);
+
+// Minimal RFC 4180 reader: quoted fields, doubled quotes, CRLF or LF. Undoes the
+// apostrophe csvCell puts in front of formula-like text.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell !== '')).map(r => r.map(unescapeCell));
+};
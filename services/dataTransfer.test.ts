@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { HistoryItem } from '../types';
+import { EXPORT_VERSION, ImportError, KantoExport, migrateExport, parseImportFile, toAnkiTsv, toCsv } from './dataTransfer';
+import { validateHistoryItem } from './historyStore';
+
+const item: HistoryItem = {
+  id: 'h1',
+  timestamp: Date.UTC(2025, 0, 2),
+  inputText: 'How are you?',
+  sourceLang: 'en',
+  targetLang: 'tl',
+  vibeMode: 'casual',
+  result: { translatedText: 'Kumusta, pre?', explanation: 'Casual', slangUsed: [], vibe: 'Chill' },
+  targets: [{ targetLang: 'ja', result: { translatedText: '元気？', transliteration: 'Genki?', explanation: '', slangUsed: [], vibe: '' } }],
+};
+
+const exportOf = (overrides: Partial<KantoExport> = {}): KantoExport => ({
+  format: 'kanto-export',
+  version: EXPORT_VERSION,
+  exportedAt: 0,
+  history: [item],
+  phrasebook: {
+    collections: [{ id: 'c1', name: 'Travel', createdAt: 0 }],
+    entries: [{ id: 'p1', collectionId: 'c1', savedAt: Date.UTC(2025, 0, 3), note: 'Use with friends', tags: ['greeting'], item }],
+  },
+  glossary: [],
+  ...overrides,
+});
+
+describe('validateHistoryItem', () => {
+  it('accepts a stored item and keeps every target', () => {
+    expect(validateHistoryItem(JSON.parse(JSON.stringify(item)))).toEqual(item);
+  });
+
+  it('fills defaults for optional fields and drops malformed nested entries', () => {
+    const validated = validateHistoryItem({
+      inputText: 'Hi',
+      sourceLang: 'en',
+      targetLang: 'tl',
+      timestamp: '2025-01-02T00:00:00.000Z',
+      result: { translatedText: 'Uy', slangUsed: [{ term: 'uy' }, { meaning: 'no term' }, 'junk'] },
+      targets: [{ targetLang: 'ja' }, { targetLang: 'ko', result: { translatedText: '안녕' } }],
+    });
+    expect(validated).toMatchObject({
+      timestamp: Date.UTC(2025, 0, 2),
+      vibeMode: 'casual',
+      result: { translatedText: 'Uy', explanation: '', vibe: '', slangUsed: [{ term: 'uy', meaning: '', context: '' }] },
+      targets: [{ targetLang: 'ko', result: { translatedText: '안녕' } }],
+    });
+    expect(validated?.id).toBeTruthy();
+  });
+
+  it.each([
+    ['null', null],
+    ['an array', []],
+    ['a missing result', { inputText: 'Hi', sourceLang: 'en', targetLang: 'tl' }],
+    ['blank input', { inputText: ' ', sourceLang: 'en', targetLang: 'tl', result: { translatedText: 'x' } }],
+    ['a non-string language', { inputText: 'Hi', sourceLang: 1, targetLang: 'tl', result: { translatedText: 'x' } }],
+  ])('rejects %s', (_, value) => {
+    expect(validateHistoryItem(value)).toBeNull();
+  });
+});
+
+describe('migrateExport', () => {
+  it('upgrades the bare history array of version 0', () => {
+    expect(migrateExport([item])).toEqual({ history: [item], phrasebook: { collections: [], entries: [] } });
+  });
+
+  it('reads the current version', () => {
+    expect(migrateExport(exportOf()).history).toEqual([item]);
+  });
+
+  it.each([
+    ['not an export', { hello: 'world' }, "This file isn't a Kanto export."],
+    ['a newer version', { format: 'kanto-export', version: EXPORT_VERSION + 1 }, 'This export was made by a newer version of Kanto.'],
+    ['a negative version', { format: 'kanto-export', version: -1 }, "This export's version isn't recognized."],
+    ['a fractional version', { format: 'kanto-export', version: 0.5 }, "This export's version isn't recognized."],
+  ])('rejects %s with an ImportError', (_, raw, message) => {
+    expect(() => migrateExport(raw)).toThrow(ImportError);
+    expect(() => migrateExport(raw)).toThrow(message);
+  });
+});
+
+describe('CSV export and import', () => {
+  it('writes one row per target and regroups them on import', () => {
+    const csv = toCsv(exportOf());
+    const lines = csv.split('\r\n');
+    expect(lines).toHaveLength(5);
+    expect(lines[1]).toContain('history,h1,');
+    expect(lines[2]).toContain(',ja,casual,How are you?,元気？,Genki?,');
+
+    const imported = parseImportFile('backup.csv', csv);
+    const history = imported.history.map(validateHistoryItem);
+    expect(history).toEqual([item]);
+
+    const entries = imported.phrasebook.entries as { note: string; tags: string[]; item: unknown }[];
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ note: 'Use with friends', tags: ['greeting'] });
+    expect(validateHistoryItem(entries[0].item)?.targets).toEqual(item.targets);
+    expect(imported.phrasebook.collections).toMatchObject([{ name: 'Travel' }]);
+  });
+
+  it('rejects CSV files without Kanto columns', () => {
+    expect(() => parseImportFile('other.csv', 'a,b\n1,2')).toThrow(ImportError);
+  });
+
+  it('rejects files that are not JSON', () => {
+    expect(() => parseImportFile('backup.json', '{nope')).toThrow("This file isn't valid JSON.");
+  });
+});
+
+describe('toAnkiTsv', () => {
+  it('makes one escaped card per target and de-duplicates repeats', () => {
+    const tsv = toAnkiTsv(exportOf({ history: [item, { ...item, id: 'h2' }] }));
+    const cards = tsv.split('\n').filter(line => !line.startsWith('#'));
+    expect(cards).toEqual([
+      'How are you?\tKumusta, pre?<br><small>Use with friends</small>\tkanto phrase tl Travel greeting',
+      'How are you?\t元気？<br><i>Genki?</i><br><small>Use with friends</small>\tkanto phrase ja Travel greeting',
+      'How are you?\tKumusta, pre?\tkanto history tl',
+      'How are you?\t元気？\tkanto history ja',
+    ]);
+  });
+});
@@ -0,0 +1,389 @@
+import { HistoryItem, PhrasebookCollection, PhrasebookEntry } from "../types";
+import { csvCell, parseCsv } from "./csv";
+import { buildGlossary, GlossaryEntry } from "./glossary";
+import { addHistoryItems, getAllHistory, validateHistoryItem } from "./historyStore";
+import { itemTranslations } from "./multiTarget";
+import { createCollection, getAllPhrases, getCollections, phraseKey, putPhrases } from "./phrasebook";
+import { isRecord, isString, stringOr } from "./guards";
+import { normalizeCacheText } from "./translationCache";
+
+// Backup and sharing. JSON is the lossless, versioned format that round-trips;
+// CSV is for spreadsheets (and can be re-imported); the Anki TSV is export-only.
+// The glossary is always derived, so it is exported for reading but rebuilt on import.
+
+export const EXPORT_FORMAT = 'kanto-export';
+export const EXPORT_VERSION = 1;
+
+export type ExportFormat = 'json' | 'csv' | 'anki';
+
+export interface ExportSelection {
+  history: boolean;
+  phrasebook: boolean;
+  glossary: boolean;
+}
+
+export interface KantoExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  history: HistoryItem[];
+  phrasebook: {
+    collections: PhrasebookCollection[];
+    entries: PhrasebookEntry[];
+  };
+  glossary: GlossaryEntry[];
+}
+
+export interface ImportReport {
+  historyAdded: number;
+  phrasesAdded: number;
+  duplicates: number;
+  invalid: number;
+}
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Export
+
+export const buildExport = async (selection: ExportSelection): Promise<KantoExport> => {
+  const [history, collections, entries] = await Promise.all([getAllHistory(), getCollections(), getAllPhrases()]);
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: Date.now(),
+    history: selection.history ? history : [],
+    phrasebook: selection.phrasebook ? { collections, entries } : { collections: [], entries: [] },
+    glossary: selection.glossary ? buildGlossary([...history, ...entries.map(e => e.item)]) : [],
+  };
+};
+
+const CSV_COLUMNS = [
+  'kind', 'id', 'timestamp', 'sourceLang', 'targetLang', 'vibeMode', 'input', 'translation',
+  'transliteration', 'explanation', 'vibe', 'collection', 'note', 'tags',
+] as const;
+
+type CsvRow = Partial<Record<typeof CSV_COLUMNS[number], string>>;
+
+// One row per target language; rows sharing an id are regrouped on import.
+const itemRows = (kind: string, item: HistoryItem): CsvRow[] =>
+  itemTranslations(item).map(({ targetLang, result }) => ({
+    kind,
+    id: item.id,
+    timestamp: new Date(item.timestamp).toISOString(),
+    sourceLang: item.sourceLang,
+    targetLang,
+    vibeMode: item.vibeMode,
+    input: item.inputText,
+    translation: result.translatedText,
+    transliteration: result.transliteration,
+    explanation: result.explanation,
+    vibe: result.vibe,
+  }));
+
+export const toCsv = (data: KantoExport): string => {
+  const collectionNames = new Map(data.phrasebook.collections.map(c => [c.id, c.name]));
+  const rows: CsvRow[] = [
+    ...data.history.flatMap(item => itemRows('history', item)),
+    ...data.phrasebook.entries.flatMap(entry => itemRows('phrase', entry.item).map(row => ({
+      ...row,
+      id: entry.id,
+      timestamp: new Date(entry.savedAt).toISOString(),
+      collection: collectionNames.get(entry.collectionId),
+      note: entry.note,
+      tags: entry.tags.join(', '),
+    }))),
+    ...data.glossary.map(entry => ({
+      kind: 'slang',
+      id: entry.key,
+      timestamp: new Date(entry.lastSeen).toISOString(),
+      targetLang: entry.language,
+      vibeMode: entry.vibeMode,
+      input: entry.term,
+      translation: entry.meanings.join(' / '),
+      explanation: entry.contexts.join(' / '),
+      note: `${entry.count}`,
+    })),
+  ];
+  return [
+    CSV_COLUMNS.join(','),
+    ...rows.map(row => CSV_COLUMNS.map(column => csvCell(row[column])).join(',')),
+  ].join('\r\n');
+};
+
+const ankiField = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/[\t\r\n]+/g, ' ');
+
+const ankiTag = (text: string) => text.trim().replace(/\s+/g, '_');
+
+// Tab-separated "front, back, tags" that Anki's File > Import understands directly.
+export const toAnkiTsv = (data: KantoExport): string => {
+  const collectionNames = new Map(data.phrasebook.collections.map(c => [c.id, c.name]));
+  const lines: string[] = [];
+  const seen = new Set<string>();
+  const addCard = (front: string, back: string, tags: string[]) => {
+    const key = `${front}␟${back}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    lines.push([ankiField(front), back, tags.map(ankiTag).filter(Boolean).join(' ')].join('\t'));
+  };
+
+  data.phrasebook.entries.forEach(entry => {
+    const { item } = entry;
+    itemTranslations(item).forEach(({ targetLang, result }) => {
+      const back = [
+        ankiField(result.translatedText),
+        result.transliteration ? `<i>${ankiField(result.transliteration)}</i>` : '',
+        entry.note ? `<small>${ankiField(entry.note)}</small>` : '',
+      ].filter(Boolean).join('<br>');
+      addCard(item.inputText, back, ['kanto', 'phrase', targetLang, collectionNames.get(entry.collectionId) || '', ...entry.tags]);
+    });
+  });
+  data.glossary.forEach(entry => {
+    const back = [
+      ankiField(entry.meanings.join(' / ')),
+      entry.contexts[0] ? `<i>${ankiField(entry.contexts[0])}</i>` : '',
+    ].filter(Boolean).join('<br>');
+    addCard(entry.term, back, ['kanto', 'slang', entry.language, entry.vibeMode]);
+  });
+  data.history.forEach(item => {
+    itemTranslations(item).forEach(({ targetLang, result }) => {
+      addCard(item.inputText, ankiField(result.translatedText), ['kanto', 'history', targetLang]);
+    });
+  });
+
+  return ['#separator:tab', '#html:true', '#tags column:3', ...lines].join('\n');
+};
+
+export const exportFileName = (format: ExportFormat, now: Date = new Date()) => {
+  const stamp = now.toISOString().slice(0, 10);
+  return format === 'json' ? `kanto-backup-${stamp}.json`
+    : format === 'csv' ? `kanto-export-${stamp}.csv`
+    : `kanto-anki-${stamp}.txt`;
+};
+
+export const serializeExport = (data: KantoExport, format: ExportFormat): string =>
+  format === 'json' ? JSON.stringify(data, null, 2)
+    : format === 'csv' ? toCsv(data)
+    : toAnkiTsv(data);
+
+// ---------------------------------------------------------------------------
+// Validation and migration
+
+// A file as read back: the outer shape is known, every record is still checked on import.
+export interface ImportedData {
+  history: unknown[];
+  phrasebook: {
+    collections: unknown[];
+    entries: unknown[];
+  };
+}
+
+// Each step upgrades an export by one version. Version 0 is the bare array that
+// used to live in the `kanto_history` localStorage key.
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+  0: items => ({
+    format: EXPORT_FORMAT,
+    version: 1,
+    exportedAt: Date.now(),
+    history: items,
+    phrasebook: { collections: [], entries: [] },
+    glossary: [],
+  }),
+};
+
+export const migrateExport = (raw: unknown): ImportedData => {
+  const version = Array.isArray(raw) ? 0 : isRecord(raw) && raw.format === EXPORT_FORMAT ? raw.version : undefined;
+  if (typeof version !== 'number') throw new ImportError("This file isn't a Kanto export.");
+  if (version > EXPORT_VERSION) throw new ImportError('This export was made by a newer version of Kanto.');
+  if (!Number.isInteger(version) || version < 0) throw new ImportError("This export's version isn't recognized.");
+  let data = raw;
+  for (let step = version; step < EXPORT_VERSION; step++) data = MIGRATIONS[step](data);
+  const current = isRecord(data) ? data : {};
+  const phrasebook = isRecord(current.phrasebook) ? current.phrasebook : {};
+  return {
+    history: Array.isArray(current.history) ? current.history : [],
+    phrasebook: {
+      collections: Array.isArray(phrasebook.collections) ? phrasebook.collections : [],
+      entries: Array.isArray(phrasebook.entries) ? phrasebook.entries : [],
+    },
+  };
+};
+
+// A CSV row group on its way to `validateHistoryItem`; cells are strings, so the
+// timestamp is still ISO text.
+interface CsvItem {
+  id?: string;
+  timestamp?: string;
+  inputText?: string;
+  sourceLang?: string;
+  targetLang?: string;
+  vibeMode?: string;
+  result: CsvResult;
+  targets?: { targetLang?: string; result: CsvResult }[];
+}
+
+interface CsvResult {
+  translatedText?: string;
+  explanation?: string;
+  transliteration?: string;
+  vibe?: string;
+}
+
+interface CsvPhrase {
+  id?: string;
+  collectionId: string;
+  savedAt: number;
+  note: string;
+  tags: string[];
+  item: CsvItem;
+}
+
+// Reads back the CSV produced by `toCsv`. Slang rows are skipped; the glossary is derived.
+const fromCsv = (text: string): ImportedData => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header || !header.includes('kind') || !header.includes('translation')) {
+    throw new ImportError("This CSV doesn't have Kanto's columns.");
+  }
+  const records = rows.map(cells => Object.fromEntries(header.map((name, i) => [name, cells[i] ?? ''])) as CsvRow);
+  const collections = new Map<string, PhrasebookCollection>();
+  // Rows of a multi-target entry share an id; the first one is the main target.
+  const grouped = (kind: string): CsvRow[][] => {
+    const groups = new Map<string, CsvRow[]>();
+    records.filter(r => r.kind === kind).forEach((r, i) => {
+      const key = r.id || `row␟${i}`;
+      groups.set(key, [...(groups.get(key) || []), r]);
+    });
+    return Array.from(groups.values());
+  };
+  const rowResult = (r: CsvRow): CsvResult => ({
+    translatedText: r.translation,
+    explanation: r.explanation,
+    transliteration: r.transliteration || undefined,
+    vibe: r.vibe,
+  });
+  const toItem = ([r, ...extra]: CsvRow[]): CsvItem => ({
+    id: r.id,
+    timestamp: r.timestamp,
+    inputText: r.input,
+    sourceLang: r.sourceLang,
+    targetLang: r.targetLang,
+    vibeMode: r.vibeMode,
+    result: rowResult(r),
+    targets: extra.length ? extra.map(t => ({ targetLang: t.targetLang, result: rowResult(t) })) : undefined,
+  });
+
+  const entries = grouped('phrase').map((rows): CsvPhrase => {
+    const [r] = rows;
+    const name = r.collection || '';
+    if (!collections.has(name)) collections.set(name, { id: crypto.randomUUID(), name, createdAt: Date.now() });
+    return {
+      id: r.id,
+      collectionId: collections.get(name)!.id,
+      savedAt: Date.parse(r.timestamp || ''),
+      note: r.note || '',
+      tags: (r.tags || '').split(',').map(t => t.trim()).filter(Boolean),
+      item: { ...toItem(rows), id: crypto.randomUUID() },
+    };
+  });
+
+  return {
+    history: grouped('history').map(toItem),
+    phrasebook: { collections: Array.from(collections.values()), entries },
+  };
+};
+
+export const parseImportFile = (fileName: string, text: string): ImportedData => {
+  if (/\.csv$/i.test(fileName)) return fromCsv(text);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new ImportError("This file isn't valid JSON.");
+  }
+  return migrateExport(raw);
+};
+
+// ---------------------------------------------------------------------------
+// Import
+
+const contentKey = (item: HistoryItem) =>
+  [
+    normalizeCacheText(item.inputText),
+    item.sourceLang,
+    item.vibeMode,
+    ...itemTranslations(item).flatMap(({ targetLang, result }) => [targetLang, result.translatedText]),
+  ].join('␟');
+
+export const importData = async (data: ImportedData): Promise<ImportReport> => {
+  const report: ImportReport = { historyAdded: 0, phrasesAdded: 0, duplicates: 0, invalid: 0 };
+
+  const existingHistory = await getAllHistory();
+  const historyIds = new Set(existingHistory.map(item => item.id));
+  const historyKeys = new Set(existingHistory.map(contentKey));
+  const newHistory: HistoryItem[] = [];
+  data.history.forEach(raw => {
+    const item = validateHistoryItem(raw);
+    if (!item) {
+      report.invalid++;
+      return;
+    }
+    const key = contentKey(item);
+    if (historyIds.has(item.id) || historyKeys.has(key)) {
+      report.duplicates++;
+      return;
+    }
+    historyIds.add(item.id);
+    historyKeys.add(key);
+    newHistory.push(item);
+  });
+  if (newHistory.length) await addHistoryItems(newHistory);
+  report.historyAdded = newHistory.length;
+
+  // Collections are matched by name so the same list shared twice merges instead of doubling.
+  const collectionIds = new Map<string, string>();
+  for (const collection of data.phrasebook.collections) {
+    if (!isRecord(collection) || !isString(collection.id)) continue;
+    const local = await createCollection(stringOr(collection.name, ''));
+    collectionIds.set(collection.id, local.id);
+  }
+
+  const existingPhrases = await getAllPhrases();
+  const phraseIds = new Set(existingPhrases.map(entry => entry.id));
+  const phraseKeys = new Set(existingPhrases.map(entry => `${entry.collectionId}␟${phraseKey(entry.item)}`));
+  const newPhrases: PhrasebookEntry[] = [];
+  for (const raw of data.phrasebook.entries) {
+    const item = isRecord(raw) ? validateHistoryItem(raw.item) : null;
+    if (!isRecord(raw) || !item) {
+      report.invalid++;
+      continue;
+    }
+    const collectionId = (isString(raw.collectionId) && collectionIds.get(raw.collectionId)) || (await createCollection('')).id;
+    const key = `${collectionId}␟${phraseKey(item)}`;
+    if ((isString(raw.id) && phraseIds.has(raw.id)) || phraseKeys.has(key)) {
+      report.duplicates++;
+      continue;
+    }
+    const savedAt = typeof raw.savedAt === 'number' && Number.isFinite(raw.savedAt) ? raw.savedAt : item.timestamp;
+    const entry: PhrasebookEntry = {
+      id: isString(raw.id) && raw.id ? raw.id : crypto.randomUUID(),
+      collectionId,
+      savedAt,
+      note: stringOr(raw.note, ''),
+      tags: Array.isArray(raw.tags) ? raw.tags.filter(isString) : [],
+      item,
+    };
+    phraseIds.add(entry.id);
+    phraseKeys.add(key);
+    newPhrases.push(entry);
+  }
+  if (newPhrases.length) await putPhrases(newPhrases);
+  report.phrasesAdded = newPhrases.length;
+
+  return report;
+};
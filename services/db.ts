@@ -0,0 +1,103 @@
+// Thin promise wrapper over the single IndexedDB database Kanto keeps locally.
+// Stores are created in `upgrade`, one block per schema version, so older
+// databases are migrated step by step.
+
+const DB_NAME = 'kanto';
+const DB_VERSION = 6;
+
+export const STORE_TRANSLATIONS = 'translations';
+export const STORE_HISTORY = 'history';
+export const STORE_PHRASEBOOK = 'phrasebook';
+export const STORE_COLLECTIONS = 'collections';
+export const STORE_REVIEWS = 'reviews';
+export const STORE_TERMINOLOGY = 'terminology';
+export const STORE_SPEECH = 'speech';
+
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    const translations = db.createObjectStore(STORE_TRANSLATIONS, { keyPath: 'key' });
+    translations.createIndex('lastAccessed', 'lastAccessed');
+  }
+  if (oldVersion < 2) {
+    const history = db.createObjectStore(STORE_HISTORY, { keyPath: 'id' });
+    history.createIndex('timestamp', 'timestamp');
+  }
+  if (oldVersion < 3) {
+    const phrasebook = db.createObjectStore(STORE_PHRASEBOOK, { keyPath: 'id' });
+    phrasebook.createIndex('collectionId', 'collectionId');
+    db.createObjectStore(STORE_COLLECTIONS, { keyPath: 'id' });
+  }
+  if (oldVersion < 4) {
+    db.createObjectStore(STORE_REVIEWS, { keyPath: 'cardId' });
+  }
+  if (oldVersion < 5) {
+    db.createObjectStore(STORE_TERMINOLOGY, { keyPath: 'id' });
+  }
+  if (oldVersion < 6) {
+    const speech = db.createObjectStore(STORE_SPEECH, { keyPath: 'key' });
+    speech.createIndex('lastAccessed', 'lastAccessed');
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isIndexedDbAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (!isIndexedDbAvailable()) {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => {
+        const db = request.result;
+        // Step aside when another tab needs to upgrade the schema.
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+    });
+    // Let a later call try again instead of caching the failure forever.
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs `fn` in a transaction over `storeNames` and resolves with its result once the
+// transaction commits; a failure anywhere rolls back every store.
+export const withStores = async <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  fn: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await fn(tx);
+  await done;
+  return result;
+};
+
+// Runs `fn` in a transaction and resolves with its result once the transaction commits.
+export const withStore = <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> => withStores([storeName], mode, tx => fn(tx.objectStore(storeName)));
@@ -0,0 +1,76 @@
+export type TranslationErrorCode =
+  | 'QUOTA_EXCEEDED'
+  | 'SAFETY_BLOCK'
+  | 'CONFIG_ERROR'
+  | 'PARSE_ERROR'
+  | 'OFFLINE'
+  | 'EMPTY_RESPONSE'
+  | 'SERVER_ERROR'
+  | 'MIC_DENIED'
+  | 'ABORTED'
+  | 'UNKNOWN_ERROR';
+
+const ERROR_CODES: TranslationErrorCode[] = [
+  'QUOTA_EXCEEDED', 'SAFETY_BLOCK', 'CONFIG_ERROR', 'PARSE_ERROR', 'OFFLINE',
+  'EMPTY_RESPONSE', 'SERVER_ERROR', 'MIC_DENIED', 'ABORTED', 'UNKNOWN_ERROR',
+];
+
+// Transient failures that a later attempt can plausibly fix.
+const RETRYABLE_CODES: TranslationErrorCode[] = ['QUOTA_EXCEEDED', 'SERVER_ERROR', 'PARSE_ERROR'];
+
+interface TranslationErrorOptions {
+  retryAfterMs?: number;
+  status?: number;
+  cause?: unknown;
+}
+
+export class TranslationError extends Error {
+  readonly code: TranslationErrorCode;
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number;
+  readonly status?: number;
+
+  constructor(code: TranslationErrorCode, options: TranslationErrorOptions = {}) {
+    // The message stays equal to the code so older `err.message` checks keep working.
+    super(code, { cause: options.cause });
+    this.name = 'TranslationError';
+    this.code = code;
+    this.retryable = RETRYABLE_CODES.includes(code);
+    this.retryAfterMs = options.retryAfterMs;
+    this.status = options.status;
+  }
+}
+
+export const isErrorCode = (value: unknown): value is TranslationErrorCode =>
+  typeof value === 'string' && (ERROR_CODES as string[]).includes(value);
+
+export const toTranslationError = (err: unknown): TranslationError => {
+  if (err instanceof TranslationError) return err;
+  const message = err instanceof Error ? err.message : String(err);
+  return new TranslationError(isErrorCode(message) ? message : 'UNKNOWN_ERROR', { cause: err });
+};
+
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof TranslationError ? err.code === 'ABORTED' : err instanceof Error && err.message === 'ABORTED';
+
+const parseRetryDelay = (message: string): number | undefined => {
+  // Gemini embeds google.rpc.RetryInfo in the error body, e.g. "retryDelay": "31s".
+  const match = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+export const fromHttpStatus = (status: number, message: string, cause?: unknown): TranslationError => {
+  if (status === 429) {
+    return new TranslationError('QUOTA_EXCEEDED', { status, cause, retryAfterMs: parseRetryDelay(message) });
+  }
+  if (status === 400 && /API_KEY_INVALID|API key not valid/i.test(message)) {
+    return new TranslationError('CONFIG_ERROR', { status, cause });
+  }
+  if (status === 401 || status === 403 || status === 404) {
+    return new TranslationError('CONFIG_ERROR', { status, cause });
+  }
+  if (status >= 500) {
+    return new TranslationError('SERVER_ERROR', { status, cause, retryAfterMs: parseRetryDelay(message) });
+  }
+  return new TranslationError('UNKNOWN_ERROR', { status, cause });
+};
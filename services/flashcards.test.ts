@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { HistoryItem, PhrasebookEntry } from '../types';
+import { buildStudyQueue, Flashcard, formatInterval, newReviewState, phraseCards, scheduleReview } from './flashcards';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 0, 1);
+
+const item: HistoryItem = {
+  id: 'h1',
+  timestamp: NOW,
+  inputText: 'Thank you',
+  sourceLang: 'en',
+  targetLang: 'tl',
+  vibeMode: 'casual',
+  result: { translatedText: 'Salamat', transliteration: 'sa-la-mat', explanation: '', slangUsed: [], vibe: '' },
+  targets: [{ targetLang: 'ja', result: { translatedText: 'ありがとう', transliteration: 'arigatou', explanation: '', slangUsed: [], vibe: '' } }],
+};
+
+const entry: PhrasebookEntry = { id: 'p1', collectionId: 'c1', savedAt: NOW, note: '', tags: [], item };
+
+describe('phraseCards', () => {
+  it('makes one card per target and keeps the plain id for the main one', () => {
+    const cards = phraseCards(entry);
+    expect(cards.map(card => card.id)).toEqual(['phrase␟p1', 'phrase␟p1␟ja']);
+    expect(cards.map(card => card.back)).toEqual(['Salamat', 'ありがとう']);
+    expect(cards.map(card => card.language)).toEqual(['tl', 'ja']);
+  });
+
+  it('shows a transliteration only for symbol-based answers', () => {
+    expect(phraseCards(entry).map(card => card.transliteration)).toEqual([undefined, 'arigatou']);
+  });
+});
+
+describe('scheduleReview', () => {
+  it('steps through the SM-2 intervals of 1, 6 and then interval times ease', () => {
+    let state = newReviewState('c', NOW);
+    const intervals: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      state = scheduleReview(state, 'good', NOW);
+      intervals.push(state.interval);
+    }
+    expect(intervals).toEqual([1, 6, 15]);
+    expect(state.easeFactor).toBe(2.5);
+    expect(state.due).toBe(NOW + 15 * DAY_MS);
+  });
+
+  it('adjusts the ease by grade', () => {
+    const state = newReviewState('c', NOW);
+    expect(scheduleReview(state, 'easy', NOW).easeFactor).toBeCloseTo(2.6);
+    expect(scheduleReview(state, 'hard', NOW).easeFactor).toBeCloseTo(2.36);
+  });
+
+  it('restarts a failed card and brings it back within the session', () => {
+    const learned = { ...newReviewState('c', NOW), repetitions: 4, interval: 30 };
+    const failed = scheduleReview(learned, 'again', NOW);
+    expect(failed).toMatchObject({ repetitions: 0, interval: 0, lapses: 1, due: NOW + 10 * 60 * 1000, lastReviewed: NOW });
+    expect(failed.easeFactor).toBeCloseTo(1.96);
+  });
+
+  it('never lets the ease drop below 1.3', () => {
+    const state = { ...newReviewState('c', NOW), easeFactor: 1.4 };
+    expect(scheduleReview(state, 'again', NOW).easeFactor).toBe(1.3);
+  });
+});
+
+describe('formatInterval', () => {
+  it('labels minutes, days and months', () => {
+    const state = newReviewState('c', NOW);
+    expect(formatInterval(state, 'again', NOW)).toBe('10m');
+    expect(formatInterval(state, 'good', NOW)).toBe('1d');
+    expect(formatInterval({ ...state, repetitions: 2, interval: 15 }, 'good', NOW)).toBe('1mo');
+  });
+});
+
+describe('buildStudyQueue', () => {
+  it('puts the most overdue cards first and leaves unseen ones for the fresh batch', () => {
+    const card = (id: string) => ({ id }) as Flashcard;
+    const cards = ['later', 'due', 'overdue', 'new'].map(card);
+    const states = new Map([
+      ['later', newReviewState('later', NOW + DAY_MS)],
+      ['due', newReviewState('due', NOW - 1)],
+      ['overdue', newReviewState('overdue', NOW - DAY_MS)],
+    ]);
+    const queue = buildStudyQueue(cards, states, NOW);
+    expect(queue.due.map(c => c.id)).toEqual(['overdue', 'due']);
+    expect(queue.fresh.map(c => c.id)).toEqual(['new']);
+  });
+});
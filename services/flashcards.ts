@@ -0,0 +1,162 @@
+import { HistoryItem, PhrasebookEntry } from "../types";
+import { isSymbolBased } from "./languages";
+import { requestToPromise, STORE_REVIEWS, withStore } from "./db";
+import { GlossaryEntry } from "./glossary";
+import { itemTranslations } from "./multiTarget";
+
+// Study mode: flashcards derived from the slang glossary and the phrasebook,
+// scheduled with SM-2. Cards themselves are rebuilt on demand; only the review
+// state per card id is persisted, so deleting a phrase simply retires its card.
+
+export type FlashcardKind = 'slang' | 'phrase';
+
+export interface Flashcard {
+  id: string;
+  kind: FlashcardKind;
+  front: string;
+  back: string;
+  detail?: string;          // Usage context shown under the answer
+  transliteration?: string; // Phonetic guide for ja/ko/zh answers
+  speech: string;           // What gets read aloud on the answer side
+  language: string;
+  sourceItem?: HistoryItem;
+}
+
+export interface ReviewState {
+  cardId: string;
+  easeFactor: number;
+  interval: number; // days
+  repetitions: number;
+  lapses: number;
+  due: number;
+  lastReviewed: number;
+}
+
+// SM-2 quality scores behind the four answer buttons.
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+const GRADE_QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+const MIN_EASE = 1.3;
+const INITIAL_EASE = 2.5;
+export const NEW_CARDS_PER_SESSION = 20;
+
+export const slangCard = (entry: GlossaryEntry): Flashcard => ({
+  id: `slang␟${entry.key}`,
+  kind: 'slang',
+  front: entry.term,
+  back: entry.meanings.join(' / '),
+  detail: entry.contexts[0],
+  speech: entry.term,
+  language: entry.language,
+});
+
+// One card per target language; the main target keeps the plain id so existing
+// review state carries over.
+export const phraseCards = (entry: PhrasebookEntry): Flashcard[] => {
+  const { item } = entry;
+  return itemTranslations(item).map(({ targetLang, result }, i) => ({
+    id: i === 0 ? `phrase␟${entry.id}` : `phrase␟${entry.id}␟${targetLang}`,
+    kind: 'phrase',
+    front: item.inputText,
+    back: result.translatedText,
+    detail: entry.note || undefined,
+    transliteration: isSymbolBased(targetLang) ? result.transliteration : undefined,
+    speech: result.translatedText,
+    language: targetLang,
+    sourceItem: item,
+  }));
+};
+
+export const newReviewState = (cardId: string, now: number = Date.now()): ReviewState => ({
+  cardId,
+  easeFactor: INITIAL_EASE,
+  interval: 0,
+  repetitions: 0,
+  lapses: 0,
+  due: now,
+  lastReviewed: 0,
+});
+
+export const scheduleReview = (state: ReviewState, grade: ReviewGrade, now: number = Date.now()): ReviewState => {
+  const quality = GRADE_QUALITY[grade];
+  const easeFactor = Math.max(
+    MIN_EASE,
+    state.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  // A failed card starts over and comes back later in the same session.
+  if (quality < 3) {
+    return {
+      ...state,
+      easeFactor,
+      interval: 0,
+      repetitions: 0,
+      lapses: state.lapses + 1,
+      due: now + RELEARN_DELAY_MS,
+      lastReviewed: now,
+    };
+  }
+
+  const repetitions = state.repetitions + 1;
+  const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(state.interval * easeFactor);
+  return {
+    ...state,
+    easeFactor,
+    interval,
+    repetitions,
+    due: now + interval * DAY_MS,
+    lastReviewed: now,
+  };
+};
+
+// Human label for how far a grade would push the card, e.g. "10m", "6d".
+export const formatInterval = (state: ReviewState, grade: ReviewGrade, now: number = Date.now()): string => {
+  const delay = scheduleReview(state, grade, now).due - now;
+  if (delay < DAY_MS) return `${Math.max(1, Math.round(delay / 60000))}m`;
+  const days = Math.round(delay / DAY_MS);
+  return days < 30 ? `${days}d` : `${Math.round(days / 30)}mo`;
+};
+
+export const getReviewStates = async (): Promise<Map<string, ReviewState>> => {
+  try {
+    const states = await withStore(STORE_REVIEWS, 'readonly', (store) =>
+      requestToPromise<ReviewState[]>(store.getAll())
+    );
+    return new Map(states.map(state => [state.cardId, state]));
+  } catch (e) {
+    console.error("Review state read failed", e);
+    return new Map();
+  }
+};
+
+export const saveReviewState = async (state: ReviewState): Promise<void> => {
+  try {
+    await withStore(STORE_REVIEWS, 'readwrite', (store) => requestToPromise(store.put(state)));
+  } catch (e) {
+    console.error("Review state write failed", e);
+  }
+};
+
+export interface StudyQueue {
+  due: Flashcard[];
+  fresh: Flashcard[];
+}
+
+// Due cards first (most overdue first), then a capped batch of never-seen cards.
+export const buildStudyQueue = (
+  cards: Flashcard[],
+  states: Map<string, ReviewState>,
+  now: number = Date.now()
+): StudyQueue => {
+  const due = cards
+    .filter(card => {
+      const state = states.get(card.id);
+      return state && state.due <= now;
+    })
+    .sort((a, b) => states.get(a.id)!.due - states.get(b.id)!.due);
+  const fresh = cards.filter(card => !states.has(card.id)).slice(0, NEW_CARDS_PER_SESSION);
+  return { due, fresh };
+};
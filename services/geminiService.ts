@@ -1,180 +1,147 @@
+import { TranslationContext, TranslationResult, VerificationResult, VibeMode } from "../types";
+import { getTranslationProvider } from "./translationProvider";
+import { PartialTranslationResult } from "./streamingJson";
+import { TranslationError } from "./errors";
+import { buildCacheKey, CachedTranslation, getCachedTranslation, putCachedTranslation } from "./translationCache";
+import { getVibe, vibeCacheId } from "./vibes";
+import { detectSanityIssues, mergeFlags } from "./verification";
+import { checkTerminology, findApplicableRules, getTermRules } from "./terminology";
+import { buildSpeechKey, getCachedSpeech, putCachedSpeech } from "./speechCache";
+import { getPlaybackStatus, playPcm, startLoading, stopPlayback } from "./audio";
+import { DEFAULT_VOICE } from "./voices";
 
-import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
-import { TranslationResult, VibeMode } from "../types";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+export interface TranslateOptions {
+  context?: TranslationContext;
+  signal?: AbortSignal;
+  // Skip the cache lookup ("force re-vibe"); the fresh result still replaces the cached one.
+  bypassCache?: boolean;
+  // Answer from the cache or fail with OFFLINE, without touching the provider.
+  cacheOnly?: boolean;
+  onCacheHit?: (entry: CachedTranslation) => void;
+  // Also ask for ranked alternatives; only the single-translation view shows them.
+  alternatives?: boolean;
+}
 
 export const translateWithSlangStream = async (
   text: string,
   sourceLang: string,
   targetLang: string,
   vibeMode: VibeMode,
-  onChunk: (textSoFar: string) => void
+  onUpdate: (partial: PartialTranslationResult) => void,
+  { context, signal, bypassCache, cacheOnly, onCacheHit, alternatives = false }: TranslateOptions = {}
 ): Promise<TranslationResult> => {
-  const model = "gemini-3-flash-preview";
-  
-  let stylisticContext = "";
-  if (vibeMode === 'formal') {
-    stylisticContext = `Translate using formal, grammatically perfect, and standard "textbook" ${targetLang}. Use full words, no contractions, and proper sentence structure. Avoid code-switching.`;
-  } else if (vibeMode === 'casual') {
-    stylisticContext = `Translate using "Real Talk" ${targetLang}. 
-    - PRIORITY: Brevity and natural flow. 
-    - STRUCTURE: Use Predicate-First structure. 
-    - CONTRACTIONS: Use native shortcuts like "'yung", "'to", "dun", "n'yo". 
-    - VIBE: Sound like a native speaker. Drop redundant pronouns.`;
-  } else if (vibeMode === 'taglish') {
-    stylisticContext = `Translate into modern "Urban Taglish" (Manila style). 
-    - MIXING: Seamlessly blend English and Tagalog as urban Filipinos do. 
-    - STYLE: Use modern inflections. 
-    - SLANG: Include current social media terms. 
-    - FLOW: It should sound like a casual chat message.`;
-  }
-
-  const sourceContext = sourceLang === 'auto' 
-    ? "the source language is unknown, please DETECT IT automatically" 
-    : `the source language is ${sourceLang}`;
+  if (signal?.aborted) throw new TranslationError('ABORTED');
 
-  const prompt = `
-    Translate the following text from ${sourceContext} to ${targetLang}.
-    
-    STYLE REQUIREMENT: 
-    ${stylisticContext}
-    
-    SMART CORRECTION & SANITY GUARD:
-    - The source text may contain spelling errors. Predict the intended word.
-    - CRITICAL: DO NOT sexualize the translation unless the source text is explicitly and unmistakably sexual. 
-    - If the user uses "shit" or other common expletives as intensifiers (e.g., "intense shit"), treat them as exclamations of intensity or the literal act. 
-    - NEVER map "shit" to anatomical references unless specified.
-    
-    TRANSLITERATION REQUIREMENT:
-    - If ${targetLang} uses non-Latin characters (like Chinese Hanzi, Japanese Kanji/Kana, or Korean Hangul), you MUST provide a phonetic pronunciation in the 'transliteration' field (e.g., Pinyin for Chinese, Romaji for Japanese). 
-    - If the target language uses Latin script, leave 'transliteration' empty or null.
-
-    CRITICAL FOR TAGALOG: 
-    - If mode is NOT formal, NEVER use "ay" as a linker if it can be avoided. 
-    - Use "parang" instead of "tila".
-    
-    Text to translate: "${text}"
-  `;
-
-  try {
-    const responseStream = await ai.models.generateContentStream({
-      model,
-      contents: prompt,
-      config: {
-        thinkingConfig: { thinkingBudget: 0 },
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            translatedText: {
-              type: Type.STRING,
-              description: "The main script translation.",
-            },
-            transliteration: {
-              type: Type.STRING,
-              description: "Phonetic guide (e.g., Pinyin, Romaji) if symbols are used.",
-            },
-            explanation: {
-              type: Type.STRING,
-              description: "Brief note on corrections or nuance.",
-            },
-            slangUsed: {
-              type: Type.ARRAY,
-              items: { 
-                type: Type.OBJECT,
-                properties: {
-                  term: { type: Type.STRING },
-                  meaning: { type: Type.STRING },
-                  context: { type: Type.STRING }
-                },
-                required: ["term", "meaning", "context"]
-              },
-              description: "Shortcuts or slang used.",
-            },
-            vibe: {
-              type: Type.STRING,
-              description: "The specific sub-vibe.",
-            },
-            detectedLanguage: {
-              type: Type.STRING,
-              description: "The name of the language detected from the input text (e.g., 'English', 'Tagalog'). Only needed if sourceLang was 'auto'.",
-            }
-          },
-          required: ["translatedText", "explanation", "slangUsed", "vibe"],
-        },
-      },
-    });
+  const vibe = getVibe(vibeMode);
+  // Matching terminology rides along in the context, so editing a rule also changes the cache key.
+  const rules = findApplicableRules(await getTermRules(), text, sourceLang, targetLang);
+  const fullContext = rules.length ? { ...context, terminology: rules } : context;
+  const withTermCheck = (result: TranslationResult): TranslationResult =>
+    rules.length ? { ...result, termViolations: checkTerminology(result.translatedText, rules) } : result;
 
-    let fullText = "";
-    for await (const chunk of responseStream) {
-      const c = chunk as GenerateContentResponse;
-      const part = c.text;
-      if (part) {
-        fullText += part;
-        const match = fullText.match(/"translatedText":\s*"((?:[^"\\]|\\.)*)"/);
-        if (match && match[1]) {
-          onChunk(match[1].replace(/\\n/g, '\n').replace(/\\"/g, '"'));
-        }
-      }
+  const cacheKey = buildCacheKey(text, sourceLang, targetLang, vibeCacheId(vibe), fullContext);
+  if (!bypassCache) {
+    const cached = await getCachedTranslation(cacheKey);
+    if (signal?.aborted) throw new TranslationError('ABORTED');
+    // An entry cached without alternatives can't answer a request that wants them, unless offline.
+    if (cached && (!alternatives || cached.result.alternatives || cacheOnly)) {
+      onCacheHit?.(cached);
+      onUpdate(cached.result);
+      return withTermCheck(cached.result);
     }
-
-    return JSON.parse(fullText) as TranslationResult;
-  } catch (error: any) {
-    console.error("Gemini API Error:", error);
-    const errorMessage = error.message || "";
-    if (errorMessage.includes("429")) throw new Error("QUOTA_EXCEEDED");
-    if (!navigator.onLine) throw new Error("OFFLINE");
-    throw new Error("UNKNOWN_ERROR");
   }
+  if (cacheOnly) throw new TranslationError('OFFLINE');
+
+  const result = await getTranslationProvider().translateStream({ text, sourceLang, targetLang, vibeMode, vibe, context: fullContext, alternatives, signal }, (partial) => {
+    if (!signal?.aborted) onUpdate(partial);
+  });
+  putCachedTranslation(cacheKey, { text, sourceLang, targetLang, vibeMode, result });
+  return withTermCheck(result);
 };
 
 export const translateWithSlang = async (
   text: string,
   sourceLang: string,
   targetLang: string,
-  vibeMode: VibeMode
+  vibeMode: VibeMode,
+  options?: TranslateOptions
 ): Promise<TranslationResult> => {
-  return translateWithSlangStream(text, sourceLang, targetLang, vibeMode, () => {});
+  return translateWithSlangStream(text, sourceLang, targetLang, vibeMode, () => {}, options);
 };
 
-export const speakText = async (text: string, voiceName: string = 'Kore') => {
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text }] }],
-      config: {
-        responseModalities: ['AUDIO'],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName },
-          },
-        },
-      },
-    });
+// Back-translation pass. The model's own flags are merged with the local word-list
+// check, which also looks at the back-translation it just produced.
+export const verifyTranslation = async (
+  sourceText: string,
+  result: TranslationResult,
+  sourceLang: string,
+  targetLang: string,
+  signal?: AbortSignal
+): Promise<VerificationResult> => {
+  const verification = await getTranslationProvider().verifyTranslation({
+    sourceText,
+    translatedText: result.translatedText,
+    sourceLang: sourceLang === 'auto' ? result.detectedLanguage || 'the language of the original' : sourceLang,
+    targetLang,
+    signal,
+  });
+  return {
+    ...verification,
+    flags: mergeFlags(verification.flags, detectSanityIssues(sourceText, result.translatedText, verification.backTranslation)),
+  };
+};
 
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!base64Audio) return;
+export interface SpeechOptions {
+  // Answer from the speech cache only; a miss returns null without calling the provider.
+  cacheOnly?: boolean;
+}
 
-    const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-    const binaryString = atob(base64Audio);
-    const bytes = new Uint8Array(binaryString.length);
-    for (let i = 0; i < binaryString.length; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
-    }
+// Raw 24 kHz PCM for `text`, from the speech cache or freshly synthesized (and cached).
+export const synthesizeSpeech = async (
+  text: string,
+  voiceName: string = DEFAULT_VOICE,
+  { cacheOnly = false }: SpeechOptions = {}
+): Promise<Int16Array | null> => {
+  const key = buildSpeechKey(text, voiceName);
+  const cached = await getCachedSpeech(key);
+  if (cached || cacheOnly) return cached;
+  const pcm = await getTranslationProvider().synthesizeSpeech(text, voiceName);
+  if (pcm) putCachedSpeech(key, pcm);
+  return pcm;
+};
 
-    const dataInt16 = new Int16Array(bytes.buffer);
-    const buffer = audioCtx.createBuffer(1, dataInt16.length, 24000);
-    const channelData = buffer.getChannelData(0);
-    for (let i = 0; i < dataInt16.length; i++) {
-      channelData[i] = dataInt16[i] / 32768.0;
+// Plays `text` through the shared player. Resolves when playback ends or is stopped;
+// errors are logged rather than thrown, as read-aloud is never critical.
+export const speakText = async (text: string, voiceName: string = DEFAULT_VOICE, rate = 1, options: SpeechOptions = {}) => {
+  const clipId = buildSpeechKey(text, voiceName);
+  const loading = startLoading(clipId);
+  try {
+    const pcm = await synthesizeSpeech(text, voiceName, options);
+    // Stopped, or another clip started, while this one was loading.
+    if (getPlaybackStatus() !== loading) return;
+    if (!pcm) {
+      stopPlayback();
+      return;
     }
-
-    const source = audioCtx.createBufferSource();
-    source.buffer = buffer;
-    source.connect(audioCtx.destination);
-    source.start();
+    await playPcm(pcm, clipId, rate);
   } catch (err) {
     console.error("TTS failed:", err);
+    if (getPlaybackStatus() === loading) stopPlayback();
   }
 };
+
+const blobToBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => {
+    const dataUrl = reader.result as string;
+    resolve(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  };
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+export const transcribeSpeech = async (audio: Blob, sourceLang: string): Promise<string> => {
+  const audioBase64 = await blobToBase64(audio);
+  const mimeType = (audio.type || 'audio/webm').split(';')[0];
+  return getTranslationProvider().transcribeAudio(audioBase64, mimeType, sourceLang);
+};
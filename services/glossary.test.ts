@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { HistoryItem, SlangDetail } from '../types';
+import { buildGlossary, groupGlossary } from './glossary';
+
+const item = (id: string, timestamp: number, slangUsed: SlangDetail[], overrides: Partial<HistoryItem> = {}): HistoryItem => ({
+  id,
+  timestamp,
+  inputText: `Input ${id}`,
+  sourceLang: 'en',
+  targetLang: 'tl',
+  vibeMode: 'casual',
+  result: { translatedText: `Output ${id}`, explanation: '', slangUsed, vibe: '' },
+  ...overrides,
+});
+
+const slang = (term: string, meaning = 'idol', context = ''): SlangDetail => ({ term, meaning, context });
+
+describe('buildGlossary', () => {
+  it('merges spellings that differ only in case, accents and spacing', () => {
+    const [entry, ...rest] = buildGlossary([
+      item('1', 1, [slang('lodi', 'idol', 'praise')]),
+      item('2', 2, [slang(' Lódi ', 'Idol', 'Praise')]),
+    ]);
+    expect(rest).toEqual([]);
+    expect(entry).toMatchObject({ term: 'Lódi', count: 2, lastSeen: 2, meanings: ['idol'], contexts: ['praise'] });
+    expect(entry.examples.map(example => example.itemId)).toEqual(['2', '1']);
+  });
+
+  it('keeps distinct meanings and skips blank terms', () => {
+    const entries = buildGlossary([item('1', 1, [slang('petmalu', 'amazing'), slang('  ', 'nothing')]), item('2', 2, [slang('petmalu', 'awesome')])]);
+    expect(entries).toHaveLength(1);
+    expect(entries[0].meanings).toEqual(['amazing', 'awesome']);
+  });
+
+  it('counts an item once even when it is listed twice or explains a term twice', () => {
+    const repeated = item('1', 1, [slang('lodi'), slang('LODI')]);
+    expect(buildGlossary([repeated, repeated])[0].count).toBe(1);
+  });
+
+  it('keeps languages and vibes apart', () => {
+    const entries = buildGlossary([
+      item('1', 1, [slang('lodi')]),
+      item('2', 2, [slang('lodi')], { vibeMode: 'taglish' }),
+      item('3', 3, [slang('lodi')], { targetLang: 'ceb' }),
+    ]);
+    expect(entries.map(entry => [entry.language, entry.vibeMode])).toEqual([['tl', 'casual'], ['tl', 'taglish'], ['ceb', 'casual']]);
+  });
+
+  it('collects slang from every target of a multi-target entry', () => {
+    const entries = buildGlossary([
+      item('1', 1, [slang('lodi')], {
+        targets: [{ targetLang: 'ceb', result: { translatedText: 'Output ceb', explanation: '', slangUsed: [slang('bai', 'friend')], vibe: '' } }],
+      }),
+    ]);
+    expect(entries.map(entry => [entry.term, entry.language])).toEqual([['lodi', 'tl'], ['bai', 'ceb']]);
+    expect(entries[1].examples[0].translatedText).toBe('Output ceb');
+  });
+});
+
+describe('groupGlossary', () => {
+  it('groups by language and vibe, largest group first', () => {
+    const groups = groupGlossary(buildGlossary([
+      item('1', 1, [slang('bai')], { targetLang: 'ceb' }),
+      item('2', 2, [slang('lodi'), slang('petmalu')]),
+      item('3', 3, [slang('charot')], { targetLang: 'bik' }),
+    ]));
+    expect(groups.map(group => [group.language, group.entries.length])).toEqual([['tl', 2], ['bik', 1], ['ceb', 1]]);
+  });
+});
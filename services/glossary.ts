@@ -0,0 +1,111 @@
+import { HistoryItem, SlangDetail, VibeMode } from "../types";
+import { itemTranslations } from "./multiTarget";
+
+// Builds a browsable glossary out of every `slangUsed` entry Kanto has produced.
+// Terms are merged case- and accent-insensitively within one target language and
+// vibe, keeping each distinct explanation and the sentences the term appeared in.
+
+export interface GlossaryExample {
+  itemId: string;
+  inputText: string;
+  translatedText: string;
+  timestamp: number;
+}
+
+export interface GlossaryEntry {
+  key: string;
+  term: string;
+  language: string; // The target language the slang was used in
+  vibeMode: VibeMode;
+  meanings: string[];
+  contexts: string[];
+  examples: GlossaryExample[];
+  count: number;
+  lastSeen: number;
+}
+
+export interface GlossaryGroup {
+  language: string;
+  vibeMode: VibeMode;
+  entries: GlossaryEntry[];
+}
+
+export const normalizeTerm = (term: string): string =>
+  term.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+const addDistinct = (list: string[], value: string) => {
+  const trimmed = value.trim();
+  if (trimmed && !list.some(existing => existing.toLowerCase() === trimmed.toLowerCase())) list.push(trimmed);
+};
+
+// `items` may contain the same translation more than once (history plus phrasebook);
+// each item id is only counted once.
+export const buildGlossary = (items: HistoryItem[]): GlossaryEntry[] => {
+  const entries = new Map<string, GlossaryEntry>();
+  const seenItems = new Set<string>();
+
+  for (const item of items) {
+    if (seenItems.has(item.id)) continue;
+    seenItems.add(item.id);
+
+    const seenInItem = new Set<string>();
+    // Every target of a multi-target entry contributes its own slang.
+    const details = itemTranslations(item).flatMap(({ targetLang, result }) =>
+      (result.slangUsed || []).map((detail: SlangDetail) => ({ detail, targetLang, result }))
+    );
+    details.forEach(({ detail, targetLang, result }) => {
+      const normalized = normalizeTerm(detail.term);
+      if (!normalized) return;
+      const key = [normalized, targetLang, item.vibeMode].join('␟');
+      // A term explained twice in one answer still only appeared once.
+      if (seenInItem.has(key)) return;
+      seenInItem.add(key);
+
+      let entry = entries.get(key);
+      if (!entry) {
+        entry = {
+          key,
+          term: detail.term.trim(),
+          language: targetLang,
+          vibeMode: item.vibeMode,
+          meanings: [],
+          contexts: [],
+          examples: [],
+          count: 0,
+          lastSeen: 0,
+        };
+        entries.set(key, entry);
+      }
+      entry.count++;
+      addDistinct(entry.meanings, detail.meaning);
+      addDistinct(entry.contexts, detail.context);
+      if (!entry.examples.some(e => e.translatedText === result.translatedText)) {
+        entry.examples.push({
+          itemId: item.id,
+          inputText: item.inputText,
+          translatedText: result.translatedText,
+          timestamp: item.timestamp,
+        });
+      }
+      if (item.timestamp > entry.lastSeen) {
+        entry.lastSeen = item.timestamp;
+        entry.term = detail.term.trim(); // Show the most recent spelling
+      }
+    });
+  }
+
+  entries.forEach(entry => entry.examples.sort((a, b) => b.timestamp - a.timestamp));
+  return Array.from(entries.values());
+};
+
+export const groupGlossary = (entries: GlossaryEntry[]): GlossaryGroup[] => {
+  const groups = new Map<string, GlossaryGroup>();
+  entries.forEach(entry => {
+    const key = `${entry.language}␟${entry.vibeMode}`;
+    if (!groups.has(key)) groups.set(key, { language: entry.language, vibeMode: entry.vibeMode, entries: [] });
+    groups.get(key)!.entries.push(entry);
+  });
+  return Array.from(groups.values()).sort((a, b) =>
+    b.entries.length - a.entries.length || a.language.localeCompare(b.language)
+  );
+};
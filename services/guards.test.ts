@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { toTranslationContext, toTranslationResult } from './guards';
+
+describe('toTranslationContext', () => {
+  it('keeps the fields the user sets and drops the rest', () => {
+    expect(toTranslationContext({
+      situation: 'texting my tita',
+      audience: 42,
+      previousTurns: [{ source: 'Hi', target: 'Uy' }, { source: 'Hello' }, 'junk'],
+      terminology: [{ id: 'r1' }],
+    })).toEqual({ situation: 'texting my tita', previousTurns: [{ source: 'Hi', target: 'Uy' }] });
+  });
+
+  it('returns an empty context for anything that is not an object', () => {
+    expect(toTranslationContext(null)).toEqual({});
+    expect(toTranslationContext(['situation'])).toEqual({});
+  });
+});
+
+describe('toTranslationResult', () => {
+  it('needs translated text and fills in the other fields', () => {
+    expect(toTranslationResult({ explanation: 'x' })).toBeNull();
+    expect(toTranslationResult({ translatedText: 'Kumusta', slangUsed: [{ term: 'pre' }, { meaning: 'x' }] })).toEqual({
+      translatedText: 'Kumusta',
+      explanation: '',
+      slangUsed: [{ term: 'pre', meaning: '', context: '' }],
+      vibe: '',
+    });
+  });
+});
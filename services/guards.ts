@@ -0,0 +1,61 @@
+import { TranslationContext, TranslationResult } from "../types";
+
+// Narrowing helpers for data Kanto didn't produce itself in this session: imported
+// files, localStorage and model output.
+
+export type UnknownRecord = Record<string, unknown>;
+
+export const isString = (value: unknown): value is string => typeof value === 'string';
+
+export const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The object entries of `value`, or nothing if it isn't an array.
+export const recordsOf = (value: unknown): UnknownRecord[] => (Array.isArray(value) ? value.filter(isRecord) : []);
+
+export const stringOr = (value: unknown, fallback: string): string => (isString(value) ? value : fallback);
+
+// The parts of a stored context the user sets; anything else is dropped.
+export const toTranslationContext = (value: unknown): TranslationContext => {
+  if (!isRecord(value)) return {};
+  const previousTurns = recordsOf(value.previousTurns).flatMap(turn =>
+    isString(turn.source) && isString(turn.target) ? [{ source: turn.source, target: turn.target }] : []
+  );
+  return {
+    previousTurns: previousTurns.length > 0 ? previousTurns : undefined,
+    situation: isString(value.situation) ? value.situation : undefined,
+    audience: isString(value.audience) ? value.audience : undefined,
+  };
+};
+
+// A stored or imported result; null when it has no translated text.
+export const toTranslationResult = (value: unknown): TranslationResult | null => {
+  if (!isRecord(value) || !isString(value.translatedText)) return null;
+  return {
+    translatedText: value.translatedText,
+    explanation: stringOr(value.explanation, ''),
+    slangUsed: recordsOf(value.slangUsed).flatMap(s =>
+      isString(s.term) ? [{ term: s.term, meaning: stringOr(s.meaning, ''), context: stringOr(s.context, '') }] : []
+    ),
+    vibe: stringOr(value.vibe, ''),
+    transliteration: isString(value.transliteration) ? value.transliteration : undefined,
+    segments: Array.isArray(value.segments)
+      ? recordsOf(value.segments).flatMap(s =>
+          isString(s.text) && s.text.trim() ? [{ text: s.text, transliteration: stringOr(s.transliteration, '') }] : []
+        )
+      : undefined,
+    detectedLanguage: isString(value.detectedLanguage) ? value.detectedLanguage : undefined,
+    alternatives: Array.isArray(value.alternatives)
+      ? recordsOf(value.alternatives).flatMap(a =>
+          isString(a.translatedText)
+            ? [{
+                translatedText: a.translatedText,
+                transliteration: isString(a.transliteration) ? a.transliteration : undefined,
+                vibe: stringOr(a.vibe, ''),
+                note: stringOr(a.note, ''),
+              }]
+            : []
+        )
+      : undefined,
+  };
+};
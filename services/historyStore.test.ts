@@ -0,0 +1,86 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { HistoryItem } from '../types';
+import { addHistoryItems, countHistory, deleteHistoryItem, getAllHistory, migrateLegacyHistory, queryHistory } from './historyStore';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2025, 0, 1);
+
+const item = (id: string, day: number, overrides: Partial<HistoryItem> = {}): HistoryItem => ({
+  id,
+  timestamp: START + day * DAY_MS,
+  inputText: 'Good morning',
+  sourceLang: 'en',
+  targetLang: 'tl',
+  vibeMode: 'casual',
+  result: { translatedText: 'Magandang umaga', explanation: '', slangUsed: [], vibe: '' },
+  ...overrides,
+});
+
+const ids = async (filters: Parameters<typeof queryHistory>[0], offset = 0, limit = 10) =>
+  (await queryHistory(filters, offset, limit)).items.map(entry => entry.id);
+
+describe('queryHistory', () => {
+  beforeAll(async () => {
+    await addHistoryItems([
+      item('a', 0),
+      item('b', 1, { inputText: 'See you later', result: { translatedText: 'Kita tayo mamaya', explanation: '', slangUsed: [], vibe: '' } }),
+      item('c', 2, { targetLang: 'ja', result: { translatedText: 'おはよう', transliteration: 'Ohayou', explanation: '', slangUsed: [], vibe: '' } }),
+      item('d', 3, { sourceLang: 'auto', vibeMode: 'formal' }),
+      item('e', 4, { inputText: 'Café is open' }),
+    ], { maxItems: null, maxAgeDays: null });
+  });
+
+  it('returns everything newest first', async () => {
+    expect(await ids({})).toEqual(['e', 'd', 'c', 'b', 'a']);
+  });
+
+  it('pages through the matches', async () => {
+    const page = await queryHistory({}, 1, 2);
+    expect(page.items.map(entry => entry.id)).toEqual(['d', 'c']);
+    expect(page.hasMore).toBe(true);
+    expect((await queryHistory({}, 3, 2)).hasMore).toBe(false);
+    expect(await countHistory()).toBe(5);
+  });
+
+  it('filters by language, vibe and date range', async () => {
+    expect(await ids({ sourceLang: 'auto' })).toEqual(['d']);
+    expect(await ids({ targetLang: 'ja' })).toEqual(['c']);
+    expect(await ids({ vibeMode: 'formal' })).toEqual(['d']);
+    expect(await ids({ from: START + DAY_MS, to: START + 2 * DAY_MS })).toEqual(['c', 'b']);
+  });
+
+  it('needs every search term somewhere in the input, translation or transliteration', async () => {
+    expect(await ids({ search: 'later' })).toEqual(['b']);
+    expect(await ids({ search: 'kita mamaya' })).toEqual(['b']);
+    expect(await ids({ search: 'ohayou' })).toEqual(['c']);
+    expect(await ids({ search: 'CAFÉ' })).toEqual(['e']);
+    expect(await ids({ search: 'kita umaga' })).toEqual([]);
+  });
+
+  it('combines filters', async () => {
+    const page = await queryHistory({ search: 'morning', targetLang: 'tl', vibeMode: 'casual' }, 0, 10);
+    expect(page.items.map(entry => entry.id)).toEqual(['a']);
+    expect(page.hasMore).toBe(false);
+  });
+});
+
+describe('migrateLegacyHistory', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('moves the readable entries into the store and drops the rest', async () => {
+    const removeItem = vi.fn();
+    const legacy = [item('legacy', 10), { id: 'no-result', inputText: 'Hi', sourceLang: 'en', targetLang: 'tl' }, 'junk'];
+    vi.stubGlobal('localStorage', { getItem: () => JSON.stringify(legacy), removeItem });
+
+    await migrateLegacyHistory();
+
+    const stored = (await getAllHistory()).map(entry => entry.id);
+    expect(stored).toContain('legacy');
+    expect(stored).not.toContain('no-result');
+    expect(removeItem).toHaveBeenCalledWith('kanto_history');
+    await deleteHistoryItem('legacy');
+  });
+});
@@ -0,0 +1,232 @@
+import { HistoryItem, TargetTranslation, VibeMode } from "../types";
+import { requestToPromise, STORE_HISTORY, withStore } from "./db";
+import { isRecord, isString, recordsOf, stringOr, toTranslationResult } from "./guards";
+import { itemTranslations } from "./multiTarget";
+import { DEFAULT_VIBE } from "./vibes";
+
+// Translation history in IndexedDB. There is no fixed cap; instead a user-configurable
+// retention policy trims by count and/or age after every write.
+
+const LEGACY_STORAGE_KEY = 'kanto_history';
+const RETENTION_KEY = 'kanto_setting_history_retention';
+
+export interface HistoryRetention {
+  maxItems: number | null;   // null keeps everything
+  maxAgeDays: number | null; // null never expires
+}
+
+export const DEFAULT_RETENTION: HistoryRetention = { maxItems: 5000, maxAgeDays: null };
+
+export interface HistoryFilters {
+  search?: string;
+  sourceLang?: string;
+  targetLang?: string;
+  vibeMode?: VibeMode;
+  from?: number; // inclusive timestamp
+  to?: number;   // inclusive timestamp
+}
+
+export interface HistoryPage {
+  items: HistoryItem[];
+  hasMore: boolean; // Another match exists past this page
+}
+
+export const loadRetention = (): HistoryRetention => {
+  try {
+    const saved = localStorage.getItem(RETENTION_KEY);
+    return saved ? { ...DEFAULT_RETENTION, ...JSON.parse(saved) } : DEFAULT_RETENTION;
+  } catch (e) {
+    return DEFAULT_RETENTION;
+  }
+};
+
+export const saveRetention = (retention: HistoryRetention) => {
+  localStorage.setItem(RETENTION_KEY, JSON.stringify(retention));
+};
+
+const toTargets = (value: unknown): TargetTranslation[] =>
+  recordsOf(value).flatMap(t => {
+    const result = toTranslationResult(t.result);
+    return isString(t.targetLang) && result ? [{ targetLang: t.targetLang, result }] : [];
+  });
+
+// A history entry from an import or the legacy localStorage blob; null if it can't be used.
+export const validateHistoryItem = (value: unknown): HistoryItem | null => {
+  if (!isRecord(value)) return null;
+  const result = toTranslationResult(value.result);
+  if (!result || !isString(value.inputText) || !value.inputText.trim()) return null;
+  if (!isString(value.sourceLang) || !isString(value.targetLang)) return null;
+  const timestamp = typeof value.timestamp === 'number' ? value.timestamp : Date.parse(stringOr(value.timestamp, ''));
+  return {
+    id: isString(value.id) && value.id ? value.id : crypto.randomUUID(),
+    timestamp: Number.isFinite(timestamp) ? timestamp : Date.now(),
+    inputText: value.inputText,
+    sourceLang: value.sourceLang,
+    targetLang: value.targetLang,
+    // Custom vibe ids are kept even if this device doesn't have that vibe; it only affects labels.
+    vibeMode: isString(value.vibeMode) && value.vibeMode ? value.vibeMode : DEFAULT_VIBE,
+    result,
+    targets: Array.isArray(value.targets) ? toTargets(value.targets) : undefined,
+  };
+};
+
+const normalize = (text: string) => text.normalize('NFC').toLowerCase();
+
+// Every search term must appear somewhere in the input or the output.
+const matchesSearch = (item: HistoryItem, terms: string[]): boolean => {
+  if (terms.length === 0) return true;
+  const haystack = normalize([
+    item.inputText,
+    ...itemTranslations(item).flatMap(({ result }) => [result.translatedText, result.transliteration || '']),
+  ].join('\n'));
+  return terms.every(term => haystack.includes(term));
+};
+
+const matchesFilters = (item: HistoryItem, filters: HistoryFilters, terms: string[]): boolean =>
+  (!filters.sourceLang || item.sourceLang === filters.sourceLang) &&
+  (!filters.targetLang || itemTranslations(item).some(t => t.targetLang === filters.targetLang)) &&
+  (!filters.vibeMode || item.vibeMode === filters.vibeMode) &&
+  (filters.from === undefined || item.timestamp >= filters.from) &&
+  (filters.to === undefined || item.timestamp <= filters.to) &&
+  matchesSearch(item, terms);
+
+// Walks the timestamp index newest-first, so pages come back in display order. The
+// walk stops at the first match past the page instead of visiting the whole store.
+export const queryHistory = async (
+  filters: HistoryFilters,
+  offset: number,
+  limit: number
+): Promise<HistoryPage> => {
+  const terms = normalize(filters.search || '').split(/\s+/).filter(Boolean);
+  try {
+    return await withStore(STORE_HISTORY, 'readonly', (store) => new Promise<HistoryPage>((resolve, reject) => {
+      const items: HistoryItem[] = [];
+      let skipped = 0;
+      const cursorRequest = store.index('timestamp').openCursor(null, 'prev');
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) {
+          resolve({ items, hasMore: false });
+          return;
+        }
+        const item = cursor.value as HistoryItem;
+        if (matchesFilters(item, filters, terms)) {
+          if (items.length >= limit) {
+            resolve({ items, hasMore: true });
+            return;
+          }
+          if (skipped < offset) skipped++;
+          else items.push(item);
+        }
+        cursor.continue();
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+    }));
+  } catch (e) {
+    console.error("History query failed", e);
+    return { items: [], hasMore: false };
+  }
+};
+
+export const countHistory = async (): Promise<number> => {
+  try {
+    return await withStore(STORE_HISTORY, 'readonly', (store) => requestToPromise(store.count()));
+  } catch (e) {
+    console.error("History count failed", e);
+    return 0;
+  }
+};
+
+export const getRecentHistory = async (limit: number): Promise<HistoryItem[]> =>
+  (await queryHistory({}, 0, limit)).items;
+
+export const getAllHistory = async (): Promise<HistoryItem[]> => {
+  try {
+    const items = await withStore(STORE_HISTORY, 'readonly', (store) =>
+      requestToPromise<HistoryItem[]>(store.getAll())
+    );
+    return items.sort((a, b) => b.timestamp - a.timestamp);
+  } catch (e) {
+    console.error("History read failed", e);
+    return [];
+  }
+};
+
+const applyRetention = (store: IDBObjectStore, retention: HistoryRetention) =>
+  new Promise<void>((resolve, reject) => {
+    const cutoff = retention.maxAgeDays !== null ? Date.now() - retention.maxAgeDays * 24 * 60 * 60 * 1000 : null;
+    let kept = 0;
+    const cursorRequest = store.index('timestamp').openCursor(null, 'prev');
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      const item = cursor.value as HistoryItem;
+      const tooMany = retention.maxItems !== null && kept >= retention.maxItems;
+      const tooOld = cutoff !== null && item.timestamp < cutoff;
+      if (tooMany || tooOld) {
+        cursor.delete();
+      } else {
+        kept++;
+      }
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+
+export const addHistoryItems = async (items: HistoryItem[], retention: HistoryRetention = loadRetention()): Promise<void> => {
+  try {
+    await withStore(STORE_HISTORY, 'readwrite', async (store) => {
+      items.forEach(item => store.put(item));
+      await applyRetention(store, retention);
+    });
+  } catch (e) {
+    console.error("History write failed", e);
+  }
+};
+
+export const addHistoryItem = (item: HistoryItem): Promise<void> => addHistoryItems([item]);
+
+export const enforceRetention = async (retention: HistoryRetention): Promise<void> => {
+  try {
+    await withStore(STORE_HISTORY, 'readwrite', (store) => applyRetention(store, retention));
+  } catch (e) {
+    console.error("History retention failed", e);
+  }
+};
+
+export const deleteHistoryItem = async (id: string): Promise<void> => {
+  try {
+    await withStore(STORE_HISTORY, 'readwrite', (store) => requestToPromise(store.delete(id)));
+  } catch (e) {
+    console.error("History delete failed", e);
+  }
+};
+
+export const clearHistory = async (): Promise<void> => {
+  try {
+    await withStore(STORE_HISTORY, 'readwrite', (store) => requestToPromise(store.clear()));
+  } catch (e) {
+    console.error("History clear failed", e);
+  }
+};
+
+// One-time move of the old 20-item localStorage blob into IndexedDB.
+export const migrateLegacyHistory = async (): Promise<void> => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return;
+  try {
+    const stored: unknown = JSON.parse(saved);
+    const items = Array.isArray(stored)
+      ? stored.map(validateHistoryItem).filter((item): item is HistoryItem => item !== null)
+      : [];
+    await withStore(STORE_HISTORY, 'readwrite', (store) => {
+      items.forEach(item => store.put(item));
+    });
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  } catch (e) {
+    console.error("Failed to migrate history", e);
+  }
+};
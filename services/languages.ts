@@ -0,0 +1,94 @@
+import { Language, LanguageCode, LanguageGroup, VibeMode } from "../types";
+import { BUILT_IN_VIBES } from "./vibes";
+
+// The language registry. Built-in languages ship with the app; `registerLanguage`
+// adds more at runtime, and every selector and lookup reads from here.
+
+const RECENT_LANGUAGES_KEY = 'kanto_setting_recent_languages';
+const MAX_RECENT_LANGUAGES = 4;
+
+export const AUTO_DETECT: LanguageCode = 'auto';
+
+// Only Tagalog and English speakers actually mix the two into Taglish.
+const NO_TAGLISH: VibeMode[] = ['formal', 'casual'];
+
+const BUILT_IN_LANGUAGES: Language[] = [
+  { code: 'tl', name: 'Tagalog/Filipino', flag: '🇵🇭', group: 'philippines', script: 'latin', voice: 'Kore', aliases: ['Filipino', 'Pilipino'] },
+  { code: 'ceb', name: 'Cebuano', flag: '🇵🇭', group: 'philippines', script: 'latin', vibes: NO_TAGLISH, voice: 'Aoede', aliases: ['Bisaya', 'Binisaya', 'Visayan'] },
+  { code: 'ilo', name: 'Ilocano', flag: '🇵🇭', group: 'philippines', script: 'latin', vibes: NO_TAGLISH, voice: 'Charon', aliases: ['Ilokano', 'Iloko'] },
+  { code: 'hil', name: 'Hiligaynon', flag: '🇵🇭', group: 'philippines', script: 'latin', vibes: NO_TAGLISH, voice: 'Leda', aliases: ['Ilonggo'] },
+  { code: 'pam', name: 'Kapampangan', flag: '🇵🇭', group: 'philippines', script: 'latin', vibes: NO_TAGLISH, voice: 'Orus', aliases: ['Pampango', 'Pampanga'] },
+  { code: 'bik', name: 'Bikol', flag: '🇵🇭', group: 'philippines', script: 'latin', vibes: NO_TAGLISH, voice: 'Zephyr', aliases: ['Bicol', 'Bikolano', 'Bicolano'] },
+  { code: 'war', name: 'Waray', flag: '🇵🇭', group: 'philippines', script: 'latin', vibes: NO_TAGLISH, voice: 'Fenrir', aliases: ['Winaray', 'Samarenyo'] },
+  { code: 'en', name: 'English', flag: '🇺🇸', group: 'global', script: 'latin', voice: 'Puck' },
+  { code: 'es', name: 'Spanish', flag: '🇪🇸', group: 'global', script: 'latin', vibes: NO_TAGLISH, voice: 'Aoede', aliases: ['Español'] },
+  { code: 'fr', name: 'French', flag: '🇫🇷', group: 'global', script: 'latin', vibes: NO_TAGLISH, voice: 'Charon', aliases: ['Français'] },
+  { code: 'ja', name: 'Japanese', flag: '🇯🇵', group: 'asia', script: 'japanese', romanization: 'Romaji', vibes: NO_TAGLISH, voice: 'Leda', aliases: ['日本語', 'Nihongo'] },
+  { code: 'ko', name: 'Korean', flag: '🇰🇷', group: 'asia', script: 'hangul', romanization: 'Romanization', vibes: NO_TAGLISH, voice: 'Zephyr', aliases: ['한국어', 'Hangul'] },
+  { code: 'zh', name: 'Chinese', flag: '🇨🇳', group: 'asia', script: 'han', romanization: 'Pinyin', vibes: NO_TAGLISH, voice: 'Kore', aliases: ['Mandarin', '中文'] },
+];
+
+export const LANGUAGE_GROUPS: { id: LanguageGroup; label: string }[] = [
+  { id: 'philippines', label: 'Philippines' },
+  { id: 'asia', label: 'Asia' },
+  { id: 'global', label: 'Global' },
+];
+
+const registry = new Map<LanguageCode, Language>(BUILT_IN_LANGUAGES.map(language => [language.code, language]));
+
+// Adds a language, or replaces the one with the same code.
+export const registerLanguage = (language: Language) => {
+  if (language.code === AUTO_DETECT) throw new Error(`"${AUTO_DETECT}" is reserved for auto-detection`);
+  registry.set(language.code, language);
+};
+
+export const getLanguages = (): Language[] => [...registry.values()];
+
+export const getLanguage = (code: LanguageCode): Language | undefined => registry.get(code);
+
+export const languageName = (code: LanguageCode): string =>
+  code === AUTO_DETECT ? 'Auto-detect' : getLanguage(code)?.name || code;
+
+export const languageFlag = (code: LanguageCode): string =>
+  code === AUTO_DETECT ? '✨' : getLanguage(code)?.flag || '🌐';
+
+// How a language is named in prompts: codes like "pam" or "hil" are too obscure on their own.
+export const describeLanguage = (code: LanguageCode): string => {
+  const language = getLanguage(code);
+  return language ? `${language.name} (${code})` : code;
+};
+
+export const isSymbolBased = (code: LanguageCode): boolean => {
+  const script = getLanguage(code)?.script;
+  return !!script && script !== 'latin';
+};
+
+export const defaultVoice = (code: LanguageCode): string | undefined => getLanguage(code)?.voice;
+
+// Custom vibes are the user's own call, so only built-in ones are restricted.
+export const supportsVibe = (code: LanguageCode, vibe: VibeMode): boolean => {
+  const supported = getLanguage(code)?.vibes;
+  return !supported || supported.includes(vibe) || !BUILT_IN_VIBES.some(v => v.id === vibe);
+};
+
+export const matchesLanguage = (language: Language, query: string): boolean => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return [language.name, language.code, ...(language.aliases || [])].some(name => name.toLowerCase().includes(needle));
+};
+
+export const getRecentLanguages = (): LanguageCode[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENT_LANGUAGES_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(code => typeof code === 'string' && registry.has(code)) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const markLanguageUsed = (code: LanguageCode): LanguageCode[] => {
+  if (!registry.has(code)) return getRecentLanguages();
+  const next = [code, ...getRecentLanguages().filter(c => c !== code)].slice(0, MAX_RECENT_LANGUAGES);
+  localStorage.setItem(RECENT_LANGUAGES_KEY, JSON.stringify(next));
+  return next;
+};
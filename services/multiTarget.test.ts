@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { HistoryItem } from '../types';
+import { finishedTake, finishedTargets, itemTranslations, MAX_TARGETS, normalizeTargets, pendingTake, runConcurrently } from './multiTarget';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 1));
+
+describe('normalizeTargets', () => {
+  it('keeps the main target first and drops repeats', () => {
+    expect(normalizeTargets('tl', ['ceb', 'tl', 'en', 'ceb'])).toEqual(['tl', 'ceb', 'en']);
+  });
+
+  it('caps the list at MAX_TARGETS', () => {
+    expect(normalizeTargets('tl', ['ceb', 'en', 'ja', 'ko', 'zh'])).toHaveLength(MAX_TARGETS);
+  });
+});
+
+describe('itemTranslations', () => {
+  it('lists the main target before the extras', () => {
+    const result = { translatedText: 'x', explanation: '', slangUsed: [], vibe: '' };
+    const item: HistoryItem = {
+      id: '1', timestamp: 0, inputText: 'x', sourceLang: 'en', targetLang: 'tl', vibeMode: 'casual', result,
+      targets: [{ targetLang: 'ceb', result }],
+    };
+    expect(itemTranslations(item).map(t => t.targetLang)).toEqual(['tl', 'ceb']);
+    expect(itemTranslations({ ...item, targets: undefined }).map(t => t.targetLang)).toEqual(['tl']);
+  });
+});
+
+describe('finishedTargets', () => {
+  it('keeps only the takes that finished', () => {
+    const result = { translatedText: 'x', explanation: '', slangUsed: [], vibe: '' };
+    const takes = [
+      finishedTake({ targetLang: 'ceb', result }),
+      pendingTake('en'),
+      { ...pendingTake('ja'), status: 'error' as const, errorCode: 'OFFLINE' as const },
+    ];
+    expect(finishedTargets(takes)).toEqual([{ targetLang: 'ceb', result }]);
+  });
+});
+
+describe('runConcurrently', () => {
+  it('runs every item once with at most `limit` in flight', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const seen: [string, number][] = [];
+    await runConcurrently(['a', 'b', 'c', 'd', 'e'], 2, async (item, index) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await tick();
+      seen.push([item, index]);
+      inFlight--;
+    });
+    expect(peak).toBe(2);
+    expect(seen.sort()).toEqual([['a', 0], ['b', 1], ['c', 2], ['d', 3], ['e', 4]]);
+  });
+
+  it('starts items in order', async () => {
+    const started: number[] = [];
+    await runConcurrently([0, 1, 2, 3], 2, async (item) => {
+      started.push(item);
+      await tick();
+    });
+    expect(started).toEqual([0, 1, 2, 3]);
+  });
+
+  it('treats a limit below one as one', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    await runConcurrently([1, 2, 3], 0, async () => {
+      peak = Math.max(peak, ++inFlight);
+      await tick();
+      inFlight--;
+    });
+    expect(peak).toBe(1);
+  });
+
+  it('rejects with the first error a task throws', async () => {
+    await expect(runConcurrently([1, 2], 2, async (item) => {
+      if (item === 2) throw new Error('boom');
+    })).rejects.toThrow('boom');
+  });
+
+  it('stops starting items once the tasks see an abort', async () => {
+    const controller = new AbortController();
+    const started: number[] = [];
+    await runConcurrently([0, 1, 2, 3], 1, async (item) => {
+      if (controller.signal.aborted) return;
+      started.push(item);
+      if (item === 1) controller.abort();
+      await tick();
+    });
+    expect(started).toEqual([0, 1]);
+  });
+});
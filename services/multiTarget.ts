@@ -0,0 +1,59 @@
+import { HistoryItem, TargetTranslation, TranslationResult } from "../types";
+import { TranslationErrorCode } from "./errors";
+
+// Multi-target translation: one input fanned out to several target languages. The
+// first target is the main result; the rest stream into their own cards and are
+// stored on the same history entry.
+
+export const MAX_TARGETS = 4;
+export const TARGET_CONCURRENCY = 2;
+
+export interface TargetTake {
+  targetLang: string;
+  status: 'pending' | 'streaming' | 'done' | 'error';
+  text: string;
+  transliteration: string;
+  result?: TranslationResult;
+  errorCode?: TranslationErrorCode;
+}
+
+export const pendingTake = (targetLang: string): TargetTake => ({ targetLang, status: 'pending', text: '', transliteration: '' });
+
+export const finishedTake = ({ targetLang, result }: TargetTranslation): TargetTake => ({
+  targetLang,
+  status: 'done',
+  text: result.translatedText,
+  transliteration: result.transliteration || '',
+  result,
+});
+
+// The takes that finished, shaped like the targets of a history entry.
+export const finishedTargets = (takes: TargetTake[]): TargetTranslation[] =>
+  takes.flatMap(take => (take.status === 'done' && take.result ? [{ targetLang: take.targetLang, result: take.result }] : []));
+
+// Keeps the main target first and drops duplicates and anything past MAX_TARGETS.
+export const normalizeTargets = (targetLang: string, extraTargets: string[]): string[] =>
+  [...new Set([targetLang, ...extraTargets])].slice(0, MAX_TARGETS);
+
+// Every translation on a history entry, main target first.
+export const itemTranslations = (item: HistoryItem): TargetTranslation[] => [
+  { targetLang: item.targetLang, result: item.result },
+  ...(item.targets || []),
+];
+
+// Runs `task` for every item with at most `limit` in flight. Tasks are expected to
+// handle their own errors; the first one that throws still rejects the whole run.
+export const runConcurrently = async <T>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<void>
+): Promise<void> => {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      await task(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+};
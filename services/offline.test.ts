@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { TranslationResult } from '../types';
+import { enqueueOfflineTranslation, findOfflineMatches, loadOfflineQueue, OfflineCandidate, QueuedTranslation, textSimilarity } from './offline';
+
+const result = (translatedText: string): TranslationResult => ({ translatedText, explanation: '', slangUsed: [], vibe: '' });
+
+const candidate = (overrides: Partial<OfflineCandidate> = {}): OfflineCandidate => ({
+  text: 'Where is the bathroom?',
+  sourceLang: 'en',
+  targetLang: 'tl',
+  vibeMode: 'casual',
+  result: result('Saan ang CR?'),
+  source: 'history',
+  ...overrides,
+});
+
+describe('textSimilarity', () => {
+  it('scores identical text as 1 regardless of spacing and case', () => {
+    expect(textSimilarity('  Where is   the bathroom? ', 'Where is the bathroom?')).toBe(1);
+    expect(textSimilarity('WHERE IS THE BATHROOM?', 'Where is the bathroom?')).toBe(1);
+  });
+
+  it('tolerates typos but not unrelated text', () => {
+    expect(textSimilarity('Where is the bathroom?', 'Where is the bathrom')).toBeGreaterThan(0.8);
+    expect(textSimilarity('Where is the bathroom?', 'Good morning')).toBeLessThan(0.3);
+  });
+
+  it('scores empty text as no match', () => {
+    expect(textSimilarity('', 'Hello')).toBe(0);
+  });
+});
+
+describe('findOfflineMatches', () => {
+  it('keeps close matches for the same target, best first', () => {
+    const matches = findOfflineMatches('Where is the bathrom', 'en', 'tl', 'casual', [
+      candidate({ text: 'Where is the bathroom', result: result('Nasaan ang banyo') }),
+      candidate(),
+      candidate({ text: 'Good morning', result: result('Magandang umaga') }),
+      candidate({ targetLang: 'ceb', result: result('Asa ang CR?') }),
+    ]);
+    expect(matches.map(match => match.result.translatedText)).toEqual(['Nasaan ang banyo', 'Saan ang CR?']);
+    expect(matches[0].score).toBeGreaterThan(matches[1].score);
+  });
+
+  it('skips other source languages unless either side was auto-detected', () => {
+    const fromJapanese = candidate({ sourceLang: 'ja' });
+    expect(findOfflineMatches('Where is the bathroom?', 'en', 'tl', 'casual', [fromJapanese])).toEqual([]);
+    expect(findOfflineMatches('Where is the bathroom?', 'auto', 'tl', 'casual', [fromJapanese])).toHaveLength(1);
+    expect(findOfflineMatches('Where is the bathroom?', 'en', 'tl', 'casual', [candidate({ sourceLang: 'auto' })])).toHaveLength(1);
+  });
+
+  it('ranks other vibes below the requested one', () => {
+    const [formal, casual] = findOfflineMatches('Where is the bathroom?', 'en', 'tl', 'casual', [
+      candidate({ vibeMode: 'formal', result: result('Nasaan po ang palikuran?') }),
+      candidate(),
+    ]).map(match => match.score);
+    expect(formal).toBe(1);
+    expect(casual).toBeLessThan(1);
+  });
+
+  it('keeps the best copy of a translation found in several places', () => {
+    const matches = findOfflineMatches('Where is the bathroom?', 'en', 'tl', 'casual', [
+      candidate({ text: 'Where is the bathrom?', source: 'cache' }),
+      candidate({ source: 'history' }),
+    ]);
+    expect(matches).toEqual([expect.objectContaining({ source: 'history', score: 1 })]);
+  });
+});
+
+describe('enqueueOfflineTranslation', () => {
+  it('adds a request once', () => {
+    const request: Omit<QueuedTranslation, 'id' | 'queuedAt'> = { text: 'Hello', sourceLang: 'en', targetLang: 'tl', vibeMode: 'casual' };
+    const queue = enqueueOfflineTranslation([], request);
+    expect(queue).toEqual([expect.objectContaining({ ...request, id: expect.any(String) })]);
+    expect(enqueueOfflineTranslation(queue, { ...request, text: ' Hello ' })).toBe(queue);
+    expect(enqueueOfflineTranslation(queue, { ...request, vibeMode: 'formal' })).toHaveLength(2);
+  });
+
+  it('treats a different set of extra targets as a new request', () => {
+    const request: Omit<QueuedTranslation, 'id' | 'queuedAt'> = { text: 'Hello', sourceLang: 'en', targetLang: 'tl', extraTargets: ['ceb'], vibeMode: 'casual' };
+    const queue = enqueueOfflineTranslation([], request);
+    expect(queue[0].extraTargets).toEqual(['ceb']);
+    expect(enqueueOfflineTranslation(queue, { ...request })).toBe(queue);
+    expect(enqueueOfflineTranslation(queue, { ...request, extraTargets: ['ceb', 'ja'] })).toHaveLength(2);
+    expect(enqueueOfflineTranslation(queue, { ...request, extraTargets: undefined })).toHaveLength(2);
+  });
+});
+
+describe('loadOfflineQueue', () => {
+  const stubStoredQueue = (stored: string) => {
+    vi.stubGlobal('localStorage', { getItem: () => stored });
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps well-formed requests and drops the rest', () => {
+    const queued = { id: 'q1', queuedAt: 5, text: 'Hello', sourceLang: 'en', targetLang: 'tl', extraTargets: ['ceb', 3], vibeMode: 'casual', context: { situation: 'At work', previousTurns: [{ source: 'Hi' }] } };
+    stubStoredQueue(JSON.stringify([queued, { id: 'q2', text: 'Hello' }, { ...queued, id: 'q3', text: '  ' }, 'junk', null]));
+    expect(loadOfflineQueue()).toEqual([{ ...queued, extraTargets: ['ceb'], context: { situation: 'At work' } }]);
+  });
+
+  it('returns an empty queue for anything that is not a list', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    stubStoredQueue('{"id":"q1"}');
+    expect(loadOfflineQueue()).toEqual([]);
+    stubStoredQueue('not json');
+    expect(loadOfflineQueue()).toEqual([]);
+  });
+});
@@ -0,0 +1,171 @@
+import { HistoryItem, TranslationContext, TranslationResult, VibeMode } from "../types";
+import { getAllCachedTranslations, normalizeCacheText } from "./translationCache";
+import { isRecord, isString, toTranslationContext } from "./guards";
+import { getAllHistory } from "./historyStore";
+import { itemTranslations } from "./multiTarget";
+import { getAllPhrases } from "./phrasebook";
+
+// Offline support: fuzzy lookup over everything translated before, and a persisted
+// queue of requests to replay once the browser reports it is back online.
+
+export type OfflineMatchSource = 'cache' | 'history' | 'phrasebook';
+
+export interface OfflineMatch {
+  text: string;
+  sourceLang: string;
+  targetLang: string;
+  vibeMode: VibeMode;
+  result: TranslationResult;
+  score: number; // 0..1, 1 means the normalized text is identical
+  source: OfflineMatchSource;
+}
+
+export interface OfflineCandidate {
+  text: string;
+  sourceLang: string;
+  targetLang: string;
+  vibeMode: VibeMode;
+  result: TranslationResult;
+  source: OfflineMatchSource;
+}
+
+const MIN_FUZZY_SCORE = 0.55;
+const OTHER_VIBE_PENALTY = 0.9;
+const MAX_MATCHES = 5;
+
+const bigrams = (text: string): Map<string, number> => {
+  const grams = new Map<string, number>();
+  const padded = ` ${text} `;
+  for (let i = 0; i < padded.length - 1; i++) {
+    const gram = padded.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) || 0) + 1);
+  }
+  return grams;
+};
+
+// Sørensen–Dice coefficient over character bigrams; forgiving of typos and word order.
+export const textSimilarity = (a: string, b: string): number => {
+  const left = normalizeCacheText(a).toLowerCase();
+  const right = normalizeCacheText(b).toLowerCase();
+  if (left === right) return 1;
+  if (!left || !right) return 0;
+
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+  let overlap = 0;
+  let total = 0;
+  leftGrams.forEach((count, gram) => {
+    overlap += Math.min(count, rightGrams.get(gram) || 0);
+    total += count;
+  });
+  rightGrams.forEach(count => { total += count; });
+  return (2 * overlap) / total;
+};
+
+export const findOfflineMatches = (
+  text: string,
+  sourceLang: string,
+  targetLang: string,
+  vibeMode: VibeMode,
+  candidates: OfflineCandidate[]
+): OfflineMatch[] => {
+  const best = new Map<string, OfflineMatch>();
+
+  for (const candidate of candidates) {
+    if (candidate.targetLang !== targetLang) continue;
+    if (sourceLang !== 'auto' && candidate.sourceLang !== 'auto' && candidate.sourceLang !== sourceLang) continue;
+
+    let score = textSimilarity(text, candidate.text);
+    if (candidate.vibeMode !== vibeMode) score *= OTHER_VIBE_PENALTY;
+    if (score < MIN_FUZZY_SCORE) continue;
+
+    // The same translation often sits in both the cache and history; keep the best copy.
+    const dedupeKey = `${candidate.result.translatedText}|${candidate.vibeMode}`;
+    const existing = best.get(dedupeKey);
+    if (!existing || existing.score < score) {
+      best.set(dedupeKey, { ...candidate, score });
+    }
+  }
+
+  return Array.from(best.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_MATCHES);
+};
+
+export const collectOfflineCandidates = async (): Promise<OfflineCandidate[]> => {
+  const [cached, history, phrases] = await Promise.all([getAllCachedTranslations(), getAllHistory(), getAllPhrases()]);
+  const fromItem = (item: HistoryItem, source: OfflineMatchSource): OfflineCandidate[] =>
+    itemTranslations(item).map(({ targetLang, result }) => ({
+      text: item.inputText,
+      sourceLang: item.sourceLang,
+      targetLang,
+      vibeMode: item.vibeMode,
+      result,
+      source,
+    }));
+  return [
+    ...cached.map(entry => ({ ...entry, source: 'cache' as const })),
+    ...history.flatMap(item => fromItem(item, 'history')),
+    ...phrases.flatMap(entry => fromItem(entry.item, 'phrasebook')),
+  ];
+};
+
+const QUEUE_KEY = 'kanto_offline_queue';
+
+export interface QueuedTranslation {
+  id: string;
+  queuedAt: number;
+  text: string;
+  sourceLang: string;
+  targetLang: string;
+  extraTargets?: string[]; // Other targets requested alongside targetLang; replayed together
+  vibeMode: VibeMode;
+  context?: TranslationContext;
+}
+
+// Entries that don't look like a queued request are dropped rather than replayed.
+const toQueuedTranslation = (value: unknown): QueuedTranslation | null => {
+  if (!isRecord(value) || !isString(value.id) || !isString(value.text) || !value.text.trim()) return null;
+  if (!isString(value.sourceLang) || !isString(value.targetLang) || !isString(value.vibeMode)) return null;
+  const extraTargets = Array.isArray(value.extraTargets) ? value.extraTargets.filter(isString) : [];
+  return {
+    id: value.id,
+    queuedAt: typeof value.queuedAt === 'number' ? value.queuedAt : Date.now(),
+    text: value.text,
+    sourceLang: value.sourceLang,
+    targetLang: value.targetLang,
+    extraTargets: extraTargets.length > 0 ? extraTargets : undefined,
+    vibeMode: value.vibeMode,
+    context: value.context === undefined ? undefined : toTranslationContext(value.context),
+  };
+};
+
+export const loadOfflineQueue = (): QueuedTranslation[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(QUEUE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.map(toQueuedTranslation).filter((q): q is QueuedTranslation => q !== null) : [];
+  } catch (e) {
+    console.error("Failed to parse offline queue", e);
+    return [];
+  }
+};
+
+export const saveOfflineQueue = (queue: QueuedTranslation[]) => {
+  localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+};
+
+// Adds a request unless an identical one is already waiting.
+export const enqueueOfflineTranslation = (
+  queue: QueuedTranslation[],
+  request: Omit<QueuedTranslation, 'id' | 'queuedAt'>
+): QueuedTranslation[] => {
+  const duplicate = queue.some(item =>
+    normalizeCacheText(item.text) === normalizeCacheText(request.text) &&
+    item.sourceLang === request.sourceLang &&
+    item.targetLang === request.targetLang &&
+    (item.extraTargets || []).join(',') === (request.extraTargets || []).join(',') &&
+    item.vibeMode === request.vibeMode
+  );
+  if (duplicate) return queue;
+  return [...queue, { ...request, id: crypto.randomUUID(), queuedAt: Date.now() }];
+};
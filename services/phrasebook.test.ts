@@ -0,0 +1,37 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { HistoryItem } from '../types';
+import { createCollection, deleteCollection, getAllPhrases, getCollections, renameCollection, savePhrase } from './phrasebook';
+
+const item: HistoryItem = {
+  id: 'h1',
+  timestamp: 0,
+  inputText: 'Good morning',
+  sourceLang: 'en',
+  targetLang: 'tl',
+  vibeMode: 'casual',
+  result: { translatedText: 'Magandang umaga', explanation: '', slangUsed: [], vibe: '' },
+};
+
+describe('phrasebook collections', () => {
+  it('renames a collection and ignores blank names', async () => {
+    const collection = await createCollection('Jeepney');
+    await renameCollection(collection.id, '  Jeep  ');
+    await renameCollection(collection.id, '   ');
+    expect((await getCollections()).find(c => c.id === collection.id)?.name).toBe('Jeep');
+    await deleteCollection(collection.id);
+  });
+
+  it('deletes a collection together with its phrases', async () => {
+    const market = await createCollection('Palengke');
+    const office = await createCollection('Office');
+    await savePhrase(item, { collectionId: market.id });
+    await savePhrase(item, { collectionId: market.id });
+    const kept = await savePhrase(item, { collectionId: office.id });
+
+    await deleteCollection(market.id);
+
+    expect((await getCollections()).map(c => c.id)).toEqual([office.id]);
+    expect((await getAllPhrases()).map(entry => entry.id)).toEqual([kept.id]);
+  });
+});
@@ -0,0 +1,156 @@
+import { HistoryItem, PhrasebookCollection, PhrasebookEntry } from "../types";
+import { requestToPromise, STORE_COLLECTIONS, STORE_PHRASEBOOK, withStore, withStores } from "./db";
+import { normalizeCacheText } from "./translationCache";
+
+// The personal phrasebook: translations the user chose to keep, grouped into named
+// collections with notes and tags. It lives in its own stores, so history retention
+// never touches it; entries only go away when the user deletes them.
+
+export const DEFAULT_COLLECTION_NAME = 'Favorites';
+
+export interface PhrasebookFilters {
+  search?: string;
+  collectionId?: string;
+  tag?: string;
+}
+
+export interface SavePhraseOptions {
+  collectionId: string;
+  note?: string;
+  tags?: string[];
+}
+
+// "#Food, street food ,food" -> ["food", "street food"]
+export const parseTags = (text: string): string[] =>
+  Array.from(new Set(
+    text.split(',')
+      .map(tag => tag.trim().replace(/^#+/, '').replace(/\s+/g, ' ').toLowerCase())
+      .filter(Boolean)
+  ));
+
+// Identifies "the same translation" regardless of which history entry it came from.
+export const phraseKey = (item: HistoryItem): string =>
+  [normalizeCacheText(item.inputText), item.targetLang, item.result.translatedText].join('␟');
+
+export const getCollections = async (): Promise<PhrasebookCollection[]> => {
+  try {
+    const collections = await withStore(STORE_COLLECTIONS, 'readonly', (store) =>
+      requestToPromise<PhrasebookCollection[]>(store.getAll())
+    );
+    return collections.sort((a, b) => a.createdAt - b.createdAt);
+  } catch (e) {
+    console.error("Phrasebook collections read failed", e);
+    return [];
+  }
+};
+
+// Returns the existing collection when the name is already taken (case-insensitive).
+export const createCollection = async (name: string): Promise<PhrasebookCollection> => {
+  const trimmed = name.trim() || DEFAULT_COLLECTION_NAME;
+  const existing = (await getCollections()).find(c => c.name.toLowerCase() === trimmed.toLowerCase());
+  if (existing) return existing;
+
+  const collection: PhrasebookCollection = { id: crypto.randomUUID(), name: trimmed, createdAt: Date.now() };
+  await withStore(STORE_COLLECTIONS, 'readwrite', (store) => requestToPromise(store.put(collection)));
+  return collection;
+};
+
+export const renameCollection = async (id: string, name: string): Promise<void> => {
+  const trimmed = name.trim();
+  if (!trimmed) return;
+  try {
+    await withStore(STORE_COLLECTIONS, 'readwrite', async (store) => {
+      const collection = await requestToPromise<PhrasebookCollection | undefined>(store.get(id));
+      if (collection) store.put({ ...collection, name: trimmed });
+    });
+  } catch (e) {
+    console.error("Phrasebook collection rename failed", e);
+  }
+};
+
+// Deleting a collection deletes the phrases filed under it, in one transaction so a
+// failure never leaves phrases pointing at a missing collection.
+export const deleteCollection = async (id: string): Promise<void> => {
+  try {
+    await withStores([STORE_PHRASEBOOK, STORE_COLLECTIONS], 'readwrite', async (tx) => {
+      const phrases = tx.objectStore(STORE_PHRASEBOOK);
+      const keys = await requestToPromise(phrases.index('collectionId').getAllKeys(id));
+      keys.forEach(key => phrases.delete(key));
+      tx.objectStore(STORE_COLLECTIONS).delete(id);
+    });
+  } catch (e) {
+    console.error("Phrasebook collection delete failed", e);
+  }
+};
+
+export const getAllPhrases = async (): Promise<PhrasebookEntry[]> => {
+  try {
+    const entries = await withStore(STORE_PHRASEBOOK, 'readonly', (store) =>
+      requestToPromise<PhrasebookEntry[]>(store.getAll())
+    );
+    return entries.sort((a, b) => b.savedAt - a.savedAt);
+  } catch (e) {
+    console.error("Phrasebook read failed", e);
+    return [];
+  }
+};
+
+const matchesSearch = (entry: PhrasebookEntry, terms: string[]): boolean => {
+  if (terms.length === 0) return true;
+  const haystack = [
+    entry.item.inputText,
+    entry.item.result.translatedText,
+    entry.item.result.transliteration || '',
+    entry.note,
+    entry.tags.join(' '),
+  ].join('\n').normalize('NFC').toLowerCase();
+  return terms.every(term => haystack.includes(term));
+};
+
+// Phrasebooks stay small enough to filter in memory, newest first.
+export const queryPhrasebook = async (filters: PhrasebookFilters): Promise<PhrasebookEntry[]> => {
+  const terms = (filters.search || '').normalize('NFC').toLowerCase().split(/\s+/).filter(Boolean);
+  return (await getAllPhrases()).filter(entry =>
+    (!filters.collectionId || entry.collectionId === filters.collectionId) &&
+    (!filters.tag || entry.tags.includes(filters.tag)) &&
+    matchesSearch(entry, terms)
+  );
+};
+
+export const savePhrase = async (item: HistoryItem, options: SavePhraseOptions): Promise<PhrasebookEntry> => {
+  const entry: PhrasebookEntry = {
+    id: crypto.randomUUID(),
+    collectionId: options.collectionId,
+    savedAt: Date.now(),
+    note: options.note?.trim() || '',
+    tags: options.tags || [],
+    item,
+  };
+  await withStore(STORE_PHRASEBOOK, 'readwrite', (store) => requestToPromise(store.put(entry)));
+  return entry;
+};
+
+// Writes entries as-is, keeping their ids; used when importing a backup.
+export const putPhrases = async (entries: PhrasebookEntry[]): Promise<void> => {
+  await withStore(STORE_PHRASEBOOK, 'readwrite', (store) => {
+    entries.forEach(entry => store.put(entry));
+  });
+};
+
+export const updatePhrase = async (
+  id: string,
+  patch: Partial<Pick<PhrasebookEntry, 'collectionId' | 'note' | 'tags'>>
+): Promise<void> => {
+  await withStore(STORE_PHRASEBOOK, 'readwrite', async (store) => {
+    const entry = await requestToPromise<PhrasebookEntry | undefined>(store.get(id));
+    if (entry) store.put({ ...entry, ...patch });
+  });
+};
+
+export const deletePhrase = async (id: string): Promise<void> => {
+  try {
+    await withStore(STORE_PHRASEBOOK, 'readwrite', (store) => requestToPromise(store.delete(id)));
+  } catch (e) {
+    console.error("Phrasebook delete failed", e);
+  }
+};
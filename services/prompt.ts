@@ -0,0 +1,266 @@
+import { Type } from "@google/genai";
+import { TranslationContext, VibeDefinition } from "../types";
+import { describeLanguage } from "./languages";
+
+const getStylisticContext = (vibe: VibeDefinition, targetLang: string): string => {
+  const instructions = vibe.instructions.replace(/\{targetLang\}/g, targetLang);
+  const examples = vibe.examples.length
+    ? `\n    EXAMPLES OF THIS STYLE (original => translation):\n${vibe.examples.map(e => `    - "${e.source}" => "${e.target}"`).join("\n")}`
+    : "";
+  const banned = vibe.bannedWords.length
+    ? `\n    NEVER use these words: ${vibe.bannedWords.map(word => `"${word}"`).join(", ")}.`
+    : "";
+  return `${instructions}${examples}${banned}`;
+};
+
+const MAX_ALTERNATIVES = 3;
+
+// Only requested where they are shown; batch rows, cues and compare columns skip them.
+const ALTERNATIVES_INSTRUCTIONS = `
+    ALTERNATIVES:
+    - In 'alternatives', give up to ${MAX_ALTERNATIVES} other natural ways to say it within the requested style, ranked best first, excluding the main translation.
+    - Each alternative needs its own 'vibe', a short 'note' on when you would use it instead, and its own 'transliteration' when the target language uses non-Latin characters.
+    - Only include alternatives that actually differ in wording; an empty list is fine for very short text.
+`;
+
+// Only the most recent turns are sent; older ones rarely change pronouns or tone.
+const MAX_CONTEXT_TURNS = 8;
+
+const getConversationContext = (context?: TranslationContext): string => {
+  const turns = (context?.previousTurns || []).slice(-MAX_CONTEXT_TURNS);
+  if (turns.length === 0) return "";
+
+  const lines = turns.map((turn, i) => `    ${i + 1}. "${turn.source}" => "${turn.target}"`).join("\n");
+  return `
+    CONVERSATION SO FAR (oldest first, original => translation):
+${lines}
+    - Keep pronouns, names, references and tone consistent with these earlier messages.
+    - Resolve short replies ("sige", "'yun na lang", "same") against what was said before.
+    - Translate ONLY the new text below; do not repeat earlier messages.
+    `;
+};
+
+const getSituationContext = (context?: TranslationContext): string => {
+  const situation = context?.situation?.trim();
+  const audience = context?.audience?.trim();
+  if (!situation && !audience) return "";
+
+  return `
+    SITUATION:
+    ${situation ? `- Setting: ${situation}` : ""}
+    ${audience ? `- The translation will be read by: ${audience}. Pick honorifics (po/opo), pronouns and register that fit them, within the requested style.` : ""}
+    `;
+};
+
+// Subtitle cues often split one sentence across several cues, so the neighbours are
+// shown for coherence while only the current cue is translated.
+const getSubtitleContext = (context?: TranslationContext): string => {
+  const subtitle = context?.subtitle;
+  if (!subtitle) return "";
+
+  const quote = (cues: string[]) => cues.map(cue => `"${cue.replace(/\n/g, ' ')}"`).join(" ");
+  return `
+    SUBTITLE CUE:
+    - The text is one cue of a subtitle track. ${subtitle.before.length ? `Previous cues: ${quote(subtitle.before)}.` : "It is the first cue."} ${subtitle.after.length ? `Next cues: ${quote(subtitle.after)}.` : "It is the last cue."}
+    - If the sentence continues across cues, translate only this cue's part so the cues still read naturally in order.
+    - Keep the same number of line breaks as the original where possible${subtitle.maxLineLength ? `, and keep every line under ${subtitle.maxLineLength} characters` : ""}. Be concise; viewers have seconds to read it.
+    - Keep any markup such as <i>...</i> or speaker tags around the matching words.
+    `;
+};
+
+const getTerminologyContext = (context?: TranslationContext): string => {
+  const rules = context?.terminology || [];
+  if (rules.length === 0) return "";
+
+  const lines = rules.map(rule => {
+    const casing = rule.caseSensitive ? " (exact capitalization)" : "";
+    return rule.doNotTranslate
+      ? `    - "${rule.source}" => keep as "${rule.source}", do not translate${casing}`
+      : `    - "${rule.source}" => always "${rule.target}"${casing}`;
+  }).join("\n");
+  return `
+    REQUIRED TERMINOLOGY (overrides the style requirement):
+${lines}
+    - Use these renderings even if a more natural or slangier word exists. Inflect around them, not inside them.
+    `;
+};
+
+export const buildTranslationPrompt = (
+  text: string,
+  sourceLang: string,
+  targetLang: string,
+  vibe: VibeDefinition,
+  context?: TranslationContext,
+  { alternatives = false }: { alternatives?: boolean } = {}
+): string => {
+  const target = describeLanguage(targetLang);
+  const stylisticContext = getStylisticContext(vibe, target);
+  const conversationContext = getConversationContext(context);
+  const situationContext = getSituationContext(context);
+  const subtitleContext = getSubtitleContext(context);
+  const terminologyContext = getTerminologyContext(context);
+
+  const sourceContext = sourceLang === 'auto' 
+    ? "the source language is unknown, please DETECT IT automatically" 
+    : `the source language is ${describeLanguage(sourceLang)}`;
+
+  return `
+    Translate the following text from ${sourceContext} to ${target}.
+    
+    STYLE REQUIREMENT: 
+    ${stylisticContext}
+    
+    SMART CORRECTION & SANITY GUARD:
+    - The source text may contain spelling errors. Predict the intended word.
+    - CRITICAL: DO NOT sexualize the translation unless the source text is explicitly and unmistakably sexual. 
+    - If the user uses "shit" or other common expletives as intensifiers (e.g., "intense shit"), treat them as exclamations of intensity or the literal act. 
+    - NEVER map "shit" to anatomical references unless specified.
+    
+    TRANSLITERATION REQUIREMENT:
+    - If ${target} uses non-Latin characters (like Chinese Hanzi, Japanese Kanji/Kana, or Korean Hangul), you MUST provide a phonetic pronunciation in the 'transliteration' field (e.g., Pinyin for Chinese, Romaji for Japanese). 
+    - If the target language uses Latin script, leave 'transliteration' empty or null.
+    - For non-Latin scripts, also split the translation into short words or phrases in 'segments', in order, each with its own 'transliteration'. Joined together, the segment texts must reproduce 'translatedText' (punctuation may be left out).
+    ${alternatives ? ALTERNATIVES_INSTRUCTIONS : ""}
+    CRITICAL FOR TAGALOG: 
+    - If mode is NOT formal, NEVER use "ay" as a linker if it can be avoided. 
+    - Use "parang" instead of "tila".
+    ${situationContext}
+    ${conversationContext}
+    ${subtitleContext}
+    ${terminologyContext}
+    Text to translate: "${text}"
+  `;
+};
+
+const ALTERNATIVES_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      translatedText: { type: Type.STRING },
+      transliteration: { type: Type.STRING },
+      vibe: { type: Type.STRING },
+      note: { type: Type.STRING }
+    },
+    required: ["translatedText", "vibe", "note"]
+  },
+  description: "Other ways to say it, ranked best first.",
+};
+
+const TRANSLATION_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    translatedText: {
+      type: Type.STRING,
+      description: "The main script translation.",
+    },
+    transliteration: {
+      type: Type.STRING,
+      description: "Phonetic guide (e.g., Pinyin, Romaji) if symbols are used.",
+    },
+    explanation: {
+      type: Type.STRING,
+      description: "Brief note on corrections or nuance.",
+    },
+    slangUsed: {
+      type: Type.ARRAY,
+      items: { 
+        type: Type.OBJECT,
+        properties: {
+          term: { type: Type.STRING },
+          meaning: { type: Type.STRING },
+          context: { type: Type.STRING }
+        },
+        required: ["term", "meaning", "context"]
+      },
+      description: "Shortcuts or slang used.",
+    },
+    vibe: {
+      type: Type.STRING,
+      description: "The specific sub-vibe.",
+    },
+    detectedLanguage: {
+      type: Type.STRING,
+      description: "The name of the language detected from the input text (e.g., 'English', 'Tagalog'). Only needed if sourceLang was 'auto'.",
+    },
+    segments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING },
+          transliteration: { type: Type.STRING }
+        },
+        required: ["text", "transliteration"]
+      },
+      description: "The translation split into pronounceable words or phrases; only for non-Latin scripts.",
+    }
+  },
+  required: ["translatedText", "explanation", "slangUsed", "vibe"],
+};
+
+// Without alternatives the field is left out of the schema entirely, so none are generated.
+export const buildTranslationSchema = (alternatives: boolean) =>
+  alternatives
+    ? { ...TRANSLATION_RESPONSE_SCHEMA, properties: { ...TRANSLATION_RESPONSE_SCHEMA.properties, alternatives: ALTERNATIVES_SCHEMA } }
+    : TRANSLATION_RESPONSE_SCHEMA;
+
+export const buildVerificationPrompt = (
+  sourceText: string,
+  translatedText: string,
+  sourceLang: string,
+  targetLang: string
+): string => `
+    You are checking a slang-heavy translation for meaning drift.
+
+    ORIGINAL (${describeLanguage(sourceLang)}): "${sourceText}"
+    TRANSLATION (${describeLanguage(targetLang)}): "${translatedText}"
+
+    STEPS:
+    1. Back-translate the TRANSLATION into ${describeLanguage(sourceLang)} as literally as natural phrasing allows. Do not look at the original while doing this; translate what the words actually say.
+    2. Compare the back-translation with the ORIGINAL and give a 'score' from 0 to 100 for how much of the meaning, intent and tone survived. Register changes (casual vs formal) cost little; changed facts, lost negation or a different request cost a lot.
+    3. In 'drift', list each phrase of the ORIGINAL (quoted exactly as it appears there) whose meaning changed, what it came back as, and a short 'issue'.
+    4. In 'flags', report:
+       - "sexualization": the translation is sexual or suggestive although the original is not explicitly sexual.
+       - "expletive_mapping": an expletive used as an intensifier in the original (e.g. "intense shit") was turned into an anatomical or literal bodily reference.
+       Quote the offending 'phrase' from the TRANSLATION. Leave 'flags' empty when neither happened.
+  `;
+
+export const VERIFICATION_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    backTranslation: {
+      type: Type.STRING,
+      description: "The translation rendered back into the source language.",
+    },
+    score: {
+      type: Type.INTEGER,
+      description: "0-100 meaning preservation score.",
+    },
+    drift: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          source: { type: Type.STRING },
+          backTranslated: { type: Type.STRING },
+          issue: { type: Type.STRING }
+        },
+        required: ["source", "backTranslated", "issue"]
+      },
+    },
+    flags: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          kind: { type: Type.STRING, enum: ["sexualization", "expletive_mapping"] },
+          phrase: { type: Type.STRING },
+          reason: { type: Type.STRING }
+        },
+        required: ["kind", "phrase", "reason"]
+      },
+    }
+  },
+  required: ["backTranslation", "score", "drift", "flags"],
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { TranslationResult } from '../types';
+import { layoutSegments, pronunciationSegments } from './pronunciation';
+
+const result = (translatedText: string, transliteration = '', segments?: TranslationResult['segments']): TranslationResult =>
+  ({ translatedText, transliteration, segments, explanation: '', slangUsed: [], vibe: '' });
+
+describe('pronunciationSegments', () => {
+  it("prefers the model's segments when they all occur in the translation", () => {
+    const segments = [{ text: 'おはよう', transliteration: 'ohayou' }, { text: 'ございます', transliteration: 'gozaimasu' }];
+    expect(pronunciationSegments(result('おはようございます', 'ohayou gozaimasu', segments), 'ja')).toEqual(segments);
+  });
+
+  it('ignores model segments that are not in the translation', () => {
+    const segments = [{ text: 'こんばんは', transliteration: 'konbanwa' }];
+    expect(pronunciationSegments(result('안녕 하세요', 'annyeong haseyo', segments), 'ko')).toEqual([
+      { text: '안녕', transliteration: 'annyeong' },
+      { text: '하세요', transliteration: 'haseyo' },
+    ]);
+  });
+
+  it('pairs clauses when the words do not line up', () => {
+    expect(pronunciationSegments(result('你好，我很好。', 'nǐ hǎo, wǒ hěn hǎo.'), 'zh')).toEqual([
+      { text: '你好', transliteration: 'nǐ hǎo' },
+      { text: '我很好', transliteration: 'wǒ hěn hǎo' },
+    ]);
+  });
+
+  it('falls back to segmenter words without a transliteration when counts differ', () => {
+    const segments = pronunciationSegments(result('ありがとう', 'arigatou gozaimasu ne'), 'ja');
+    expect(segments.map(segment => segment.text).join('')).toBe('ありがとう');
+    expect(segments.every(segment => segment.transliteration === '')).toBe(true);
+  });
+
+  it('keeps the whole text as one segment when there are no words', () => {
+    expect(pronunciationSegments(result('！！', '!!'))).toEqual([{ text: '！！', transliteration: '!!' }]);
+  });
+});
+
+describe('layoutSegments', () => {
+  it('splits the text into highlighted runs and the gaps between them', () => {
+    expect(layoutSegments('Ohayou, gozaimasu!', ['ohayou', 'gozaimasu'])).toEqual([
+      { text: 'Ohayou', segment: 0 },
+      { text: ', ' },
+      { text: 'gozaimasu', segment: 1 },
+      { text: '!' },
+    ]);
+  });
+
+  it('leaves parts that cannot be found unhighlighted', () => {
+    expect(layoutSegments('a b', ['a', 'zzz', 'b'])).toEqual([
+      { text: 'a', segment: 0 },
+      { text: ' ' },
+      { text: 'b', segment: 2 },
+    ]);
+  });
+
+  it('finds repeated words in order', () => {
+    expect(layoutSegments('no no', ['no', 'no']).map(run => run.segment)).toEqual([0, undefined, 1]);
+  });
+});
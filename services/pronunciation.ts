@@ -0,0 +1,71 @@
+import { PronunciationSegment, TranslationResult } from "../types";
+
+// Pronunciation mode: the translation split into words or phrases that are played one
+// at a time, each paired with its slice of the transliteration so both lines can be
+// highlighted together. The model's own split is preferred; older results fall back
+// to splitting locally, pairing with the transliteration only when the counts agree.
+
+export interface TextRun {
+  text: string;
+  segment?: number; // Index of the segment this run belongs to; absent for gaps
+}
+
+const CLAUSE_BREAK = /\s*[、。，,．.！!？?；;：:…「」『』()（）"“”]+\s*/u;
+const WORD_BREAK = /[\s、。，,．.！!？?；;：:…「」『』()（）"“”]+/u;
+
+const split = (text: string, separator: RegExp): string[] => text.split(separator).map(part => part.trim()).filter(Boolean);
+
+const pair = (texts: string[], transliterations: string[]): PronunciationSegment[] =>
+  texts.map((text, i) => ({ text, transliteration: transliterations[i] || '' }));
+
+// Start of each part in `full`, searching left to right; -1 where a part isn't found.
+const locate = (full: string, parts: string[]): number[] => {
+  const haystack = full.toLowerCase();
+  let cursor = 0;
+  return parts.map(part => {
+    const needle = part.trim().toLowerCase();
+    const start = needle ? haystack.indexOf(needle, cursor) : -1;
+    if (start >= 0) cursor = start + needle.length;
+    return start;
+  });
+};
+
+export const pronunciationSegments = (result: TranslationResult, language?: string): PronunciationSegment[] => {
+  const { translatedText } = result;
+  const transliteration = result.transliteration || '';
+
+  if (result.segments?.length && locate(translatedText, result.segments.map(s => s.text)).every(start => start >= 0)) {
+    return result.segments;
+  }
+
+  // Languages written with spaces (Korean) usually line up word for word.
+  const words = split(translatedText, WORD_BREAK);
+  const romanizedWords = split(transliteration, WORD_BREAK);
+  if (words.length > 1 && words.length === romanizedWords.length) return pair(words, romanizedWords);
+
+  const clauses = split(translatedText, CLAUSE_BREAK);
+  const romanizedClauses = split(transliteration, CLAUSE_BREAK);
+  if (clauses.length > 1 && clauses.length === romanizedClauses.length) return pair(clauses, romanizedClauses);
+
+  // Scripts without spaces: let the segmenter find words, and pair them only if the
+  // transliteration happens to have as many. Otherwise it stays unhighlighted.
+  const segmenter = new Intl.Segmenter(language, { granularity: 'word' });
+  const segmented = Array.from(segmenter.segment(translatedText)).filter(s => s.isWordLike).map(s => s.segment);
+  if (segmented.length === 0) return pair([translatedText], [transliteration]);
+  return pair(segmented, segmented.length === romanizedWords.length ? romanizedWords : []);
+};
+
+// Splits `full` into runs so every located part can be highlighted in place.
+export const layoutSegments = (full: string, parts: string[]): TextRun[] => {
+  const runs: TextRun[] = [];
+  let cursor = 0;
+  locate(full, parts).forEach((start, segment) => {
+    if (start < cursor) return; // Not found
+    if (start > cursor) runs.push({ text: full.slice(cursor, start) });
+    const end = start + parts[segment].trim().length;
+    runs.push({ text: full.slice(start, end), segment });
+    cursor = end;
+  });
+  if (cursor < full.length) runs.push({ text: full.slice(cursor) });
+  return runs;
+};
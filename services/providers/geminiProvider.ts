@@ -0,0 +1,208 @@
+import { ApiError, FinishReason, GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { TranslationResult, VerificationResult } from "../../types";
+import { TranslationProvider, TranslationRequest, VerificationRequest } from "../translationProvider";
+import { buildTranslationPrompt, buildTranslationSchema, buildVerificationPrompt, VERIFICATION_RESPONSE_SCHEMA } from "../prompt";
+import { createStreamingTranslationParser, PartialTranslationResult } from "../streamingJson";
+import { fromHttpStatus, TranslationError } from "../errors";
+import { toVerificationResult } from "../verification";
+import { describeLanguage } from "../languages";
+
+let client: GoogleGenAI | null = null;
+
+// Created on first use so importing the service never requires a key.
+const getClient = (): GoogleGenAI => {
+  if (!client) client = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+  return client;
+};
+
+const decodeBase64Pcm = (base64Audio: string): Int16Array => {
+  const binaryString = atob(base64Audio);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return new Int16Array(bytes.buffer);
+};
+
+const BLOCKING_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+];
+
+const assertConfigured = () => {
+  if (!process.env.API_KEY) throw new TranslationError('CONFIG_ERROR');
+};
+
+// Maps SDK, HTTP and network failures onto the shared error taxonomy.
+const toGeminiError = (error: unknown, signal?: AbortSignal): TranslationError => {
+  if (signal?.aborted) return new TranslationError('ABORTED');
+  if (error instanceof TranslationError) return error;
+  if (error instanceof ApiError) return fromHttpStatus(error.status, error.message || "", error);
+  if (!navigator.onLine) return new TranslationError('OFFLINE', { cause: error });
+  return new TranslationError('UNKNOWN_ERROR', { cause: error });
+};
+
+// fetch rejects with a TypeError when the request never reached the server. Only calls
+// that go over the wire are wrapped, so a TypeError from our own response handling
+// stays an UNKNOWN_ERROR instead of being retried as a server problem.
+const overNetwork = async <T>(call: () => Promise<T>): Promise<T> => {
+  try {
+    return await call();
+  } catch (error) {
+    if (error instanceof TypeError && navigator.onLine) throw new TranslationError('SERVER_ERROR', { cause: error });
+    throw error;
+  }
+};
+
+// Reading a streamed body can fail the same way as starting the request.
+async function* overNetworkStream<T>(stream: AsyncGenerator<T>): AsyncGenerator<T> {
+  while (true) {
+    const { done, value } = await overNetwork(() => stream.next());
+    if (done) return;
+    yield value;
+  }
+}
+
+// Safety blocks arrive as data on the response, not as thrown errors.
+const checkForBlock = (response: GenerateContentResponse) => {
+  if (response.promptFeedback?.blockReason) throw new TranslationError('SAFETY_BLOCK');
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKING_FINISH_REASONS.includes(finishReason)) throw new TranslationError('SAFETY_BLOCK');
+};
+
+const translateStream = async (
+  { text, sourceLang, targetLang, vibe, context, alternatives = false, signal }: TranslationRequest,
+  onUpdate: (partial: PartialTranslationResult) => void
+): Promise<TranslationResult> => {
+  const model = "gemini-3-flash-preview";
+  const prompt = buildTranslationPrompt(text, sourceLang, targetLang, vibe, context, { alternatives });
+
+  try {
+    assertConfigured();
+    const responseStream = await overNetwork(() => getClient().models.generateContentStream({
+      model,
+      contents: prompt,
+      config: {
+        thinkingConfig: { thinkingBudget: 0 },
+        responseMimeType: "application/json",
+        responseSchema: buildTranslationSchema(alternatives),
+        abortSignal: signal,
+      },
+    }));
+
+    const parser = createStreamingTranslationParser(onUpdate);
+    let sawCandidate = false;
+    for await (const chunk of overNetworkStream(responseStream)) {
+      if (signal?.aborted) throw new TranslationError('ABORTED');
+      const c = chunk as GenerateContentResponse;
+      checkForBlock(c);
+      if (c.candidates?.length) sawCandidate = true;
+      const part = c.text;
+      if (part) parser.push(part);
+    }
+
+    if (!sawCandidate) throw new TranslationError('EMPTY_RESPONSE');
+    return parser.finish();
+  } catch (error) {
+    const translationError = toGeminiError(error, signal);
+    if (translationError.code !== 'ABORTED') console.error("Gemini API Error:", error);
+    throw translationError;
+  }
+};
+
+const synthesizeSpeech = async (text: string, voiceName: string): Promise<Int16Array | null> => {
+  assertConfigured();
+  const response = await getClient().models.generateContent({
+    model: "gemini-2.5-flash-preview-tts",
+    contents: [{ parts: [{ text }] }],
+    config: {
+      responseModalities: ['AUDIO'],
+      speechConfig: {
+        voiceConfig: {
+          prebuiltVoiceConfig: { voiceName },
+        },
+      },
+    },
+  });
+
+  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  return base64Audio ? decodeBase64Pcm(base64Audio) : null;
+};
+
+const transcribeAudio = async (audioBase64: string, mimeType: string, sourceLang: string): Promise<string> => {
+  const languageHint = sourceLang === 'auto'
+    ? "Detect the spoken language automatically."
+    : `The speaker is using ${describeLanguage(sourceLang)} (code-switching with English is common).`;
+
+  try {
+    assertConfigured();
+    const response = await overNetwork(() => getClient().models.generateContent({
+      model: "gemini-3-flash-preview",
+      contents: [{
+        parts: [
+          { inlineData: { mimeType, data: audioBase64 } },
+          { text: `Transcribe this recording verbatim. ${languageHint} Keep slang, Taglish and contractions exactly as spoken. Return only the transcript, with no quotes or commentary.` },
+        ],
+      }],
+      config: {
+        thinkingConfig: { thinkingBudget: 0 },
+      },
+    }));
+    checkForBlock(response);
+    return (response.text || "").trim();
+  } catch (error) {
+    console.error("Gemini transcription error:", error);
+    throw toGeminiError(error);
+  }
+};
+
+const verifyTranslation = async (
+  { sourceText, translatedText, sourceLang, targetLang, signal }: VerificationRequest
+): Promise<VerificationResult> => {
+  try {
+    assertConfigured();
+    const response = await overNetwork(() => getClient().models.generateContent({
+      model: "gemini-3-flash-preview",
+      contents: buildVerificationPrompt(sourceText, translatedText, sourceLang, targetLang),
+      config: {
+        thinkingConfig: { thinkingBudget: 0 },
+        responseMimeType: "application/json",
+        responseSchema: VERIFICATION_RESPONSE_SCHEMA,
+        abortSignal: signal,
+      },
+    }));
+    checkForBlock(response);
+    if (!response.text) throw new TranslationError('EMPTY_RESPONSE');
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(response.text);
+    } catch {
+      throw new TranslationError('PARSE_ERROR');
+    }
+    const result = toVerificationResult(parsed);
+    if (!result) throw new TranslationError('PARSE_ERROR');
+    return result;
+  } catch (error) {
+    const translationError = toGeminiError(error, signal);
+    if (translationError.code !== 'ABORTED') console.error("Gemini verification error:", error);
+    throw translationError;
+  }
+};
+
+export const geminiProvider: TranslationProvider = {
+  id: 'gemini',
+  name: 'Gemini Flash AI',
+  capabilities: {
+    streaming: true,
+    tts: true,
+    transcription: true,
+    autoDetect: true,
+    requiresNetwork: true,
+  },
+  translateStream,
+  synthesizeSpeech,
+  transcribeAudio,
+  verifyTranslation,
+};
@@ -0,0 +1,185 @@
+import { TranslationResult, VerificationResult, VibeMode } from "../../types";
+import { TranslationProvider, TranslationRequest, VerificationRequest } from "../translationProvider";
+import { createStreamingTranslationParser, PartialTranslationResult } from "../streamingJson";
+import { isErrorCode, TranslationError } from "../errors";
+import { sleep } from "../timing";
+
+// Offline, deterministic stand-in for the Gemini adapter. Known phrases come from
+// FIXTURES; anything else gets a tagged echo so the UI still has something to render.
+// Typing "!error:QUOTA_EXCEEDED" (or any other error key) streams half a reply and
+// then fails with that key, which exercises ErrorState without touching the network.
+
+const CHUNK_DELAY_MS = 40;
+const CHUNK_SIZE = 6;
+const ERROR_TRIGGER = /^!error:([A-Z_]+)/;
+
+const FIXTURES: Record<string, Partial<Record<VibeMode, TranslationResult>>> = {
+  'how are you?|tl': {
+    formal: {
+      translatedText: 'Kumusta po kayo?',
+      explanation: 'Polite form using "po" and the plural "kayo" for respect.',
+      slangUsed: [],
+      vibe: 'Respectful',
+    },
+    casual: {
+      translatedText: 'Kumusta ka na?',
+      explanation: '"Na" adds a familiar, catching-up tone.',
+      slangUsed: [{ term: 'na', meaning: 'already / now', context: 'Softens the question between friends.' }],
+      vibe: 'Barkada check-in',
+      alternatives: [
+        { translatedText: 'Musta ka?', vibe: 'Quick hello', note: 'Passing someone you saw recently.' },
+        { translatedText: 'Ano na balita sa\'yo?', vibe: 'Catching up', note: 'When you have not talked in a while.' },
+      ],
+    },
+    taglish: {
+      translatedText: 'Uy, musta na? Okay ka lang?',
+      explanation: 'Clipped "musta" is standard in chats; the follow-up keeps it warm.',
+      slangUsed: [{ term: 'musta', meaning: 'short for "kumusta"', context: 'Texts and casual greetings.' }],
+      vibe: 'Chat message',
+    },
+  },
+  "let's eat|tl": {
+    casual: {
+      translatedText: 'Kain tayo!',
+      explanation: 'Predicate-first and no linker, the way it is said at the table.',
+      slangUsed: [],
+      vibe: 'Merienda invite',
+    },
+  },
+  'thank you|ja': {
+    formal: {
+      translatedText: 'ありがとうございます',
+      transliteration: 'arigatou gozaimasu',
+      segments: [
+        { text: 'ありがとう', transliteration: 'arigatou' },
+        { text: 'ございます', transliteration: 'gozaimasu' },
+      ],
+      explanation: 'Polite form suitable for strangers and coworkers.',
+      slangUsed: [],
+      vibe: 'Polite',
+      alternatives: [
+        { translatedText: 'どうもありがとうございます', transliteration: 'doumo arigatou gozaimasu', vibe: 'Extra polite', note: 'For a real favour or a customer.' },
+      ],
+    },
+    casual: {
+      translatedText: 'ありがとう',
+      transliteration: 'arigatou',
+      explanation: 'Plain form between friends.',
+      slangUsed: [],
+      vibe: 'Friendly',
+    },
+  },
+};
+
+const buildFallback = ({ text, sourceLang, targetLang, vibeMode, alternatives }: TranslationRequest): TranslationResult => ({
+  translatedText: `[${targetLang}·${vibeMode}] ${text}`,
+  explanation: 'Mock provider: no fixture for this phrase, so the input is echoed back.',
+  slangUsed: [],
+  vibe: `Mock ${vibeMode}`,
+  detectedLanguage: sourceLang === 'auto' ? 'English' : undefined,
+  alternatives: alternatives ? [] : undefined,
+});
+
+const lookupFixture = (request: TranslationRequest): TranslationResult => {
+  const key = `${request.text.trim().toLowerCase()}|${request.targetLang}`;
+  const fixture = FIXTURES[key]?.[request.vibeMode];
+  if (!fixture) return buildFallback(request);
+  if (request.alternatives) return { alternatives: [], ...fixture };
+  const { alternatives, ...withoutAlternatives } = fixture;
+  return withoutAlternatives;
+};
+
+// Replays the fixture as a JSON stream through the same parser the Gemini adapter
+// uses, so partial updates and truncation behave exactly like the real thing.
+const streamJson = async (
+  result: TranslationResult,
+  onUpdate: (partial: PartialTranslationResult) => void,
+  signal?: AbortSignal,
+  truncateAt?: number
+): Promise<TranslationResult> => {
+  const json = JSON.stringify(result);
+  const payload = truncateAt === undefined ? json : json.slice(0, truncateAt);
+  const parser = createStreamingTranslationParser(onUpdate);
+  for (let i = 0; i < payload.length; i += CHUNK_SIZE) {
+    parser.push(payload.slice(i, i + CHUNK_SIZE));
+    await sleep(CHUNK_DELAY_MS, signal);
+  }
+  return parser.finish();
+};
+
+const translateStream = async (
+  request: TranslationRequest,
+  onUpdate: (partial: PartialTranslationResult) => void
+): Promise<TranslationResult> => {
+  const errorMatch = request.text.match(ERROR_TRIGGER);
+  if (errorMatch) {
+    const fallback = buildFallback(request);
+    // Cut halfway through translatedText so the UI shows a half-streamed line first;
+    // the truncated payload makes the parser itself raise PARSE_ERROR.
+    const cut = JSON.stringify(fallback).indexOf(JSON.stringify(fallback.translatedText)) + Math.ceil(fallback.translatedText.length / 2);
+    if (errorMatch[1] === 'PARSE_ERROR') return streamJson(fallback, onUpdate, request.signal, cut);
+    await streamJson(fallback, onUpdate, request.signal, cut).catch(() => undefined);
+    if (request.signal?.aborted) throw new TranslationError('ABORTED');
+    throw new TranslationError(isErrorCode(errorMatch[1]) ? errorMatch[1] : 'UNKNOWN_ERROR', { retryAfterMs: errorMatch[1] === 'QUOTA_EXCEEDED' ? 5000 : undefined });
+  }
+
+  return streamJson(lookupFixture(request), onUpdate, request.signal);
+};
+
+// A short sine beep per word, so playback is audible and its length tracks the text.
+const synthesizeSpeech = async (text: string): Promise<Int16Array | null> => {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return null;
+
+  const sampleRate = 24000;
+  const beepSamples = Math.floor(sampleRate * 0.12);
+  const gapSamples = Math.floor(sampleRate * 0.08);
+  const pcm = new Int16Array(words.length * (beepSamples + gapSamples));
+  words.forEach((_, w) => {
+    const offset = w * (beepSamples + gapSamples);
+    const freq = 440 + (w % 4) * 110;
+    for (let i = 0; i < beepSamples; i++) {
+      pcm[offset + i] = Math.round(Math.sin((2 * Math.PI * freq * i) / sampleRate) * 8000);
+    }
+  });
+  return pcm;
+};
+
+// Every recording "says" the first fixture phrase, so dictation can be tried end to end.
+const transcribeAudio = async (): Promise<string> => {
+  await sleep(CHUNK_DELAY_MS * 5);
+  return 'How are you?';
+};
+
+// Fixture outputs back-translate to their fixture input; echoes are unwrapped again.
+// "!drift" anywhere in the input makes the round trip lose it, to exercise the UI.
+const verifyTranslation = async ({ sourceText, translatedText, signal }: VerificationRequest): Promise<VerificationResult> => {
+  await sleep(CHUNK_DELAY_MS * 5, signal);
+  const fixtureInput = Object.entries(FIXTURES).find(([, byVibe]) =>
+    Object.values(byVibe).some(result => result?.translatedText === translatedText || result?.alternatives?.some(alt => alt.translatedText === translatedText))
+  )?.[0].split('|')[0];
+  const backTranslation = fixtureInput || translatedText.replace(/^\[[^\]]*\]\s*/, '').replace(/!drift/g, '').trim();
+  const drifted = sourceText.includes('!drift');
+  return {
+    backTranslation,
+    score: drifted ? 45 : 96,
+    drift: drifted ? [{ source: '!drift', backTranslated: '', issue: 'Dropped in the round trip (mock).' }] : [],
+    flags: [],
+  };
+};
+
+export const mockProvider: TranslationProvider = {
+  id: 'mock',
+  name: 'Offline Mock',
+  capabilities: {
+    streaming: true,
+    tts: true,
+    transcription: true,
+    autoDetect: true,
+    requiresNetwork: false,
+  },
+  translateStream,
+  synthesizeSpeech,
+  transcribeAudio,
+  verifyTranslation,
+};
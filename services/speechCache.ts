@@ -0,0 +1,72 @@
+import { requestToPromise, STORE_SPEECH, withStore } from "./db";
+
+// Synthesized speech kept per text+voice, so replays are instant and work offline.
+// Clips are much bigger than translations, hence the smaller cap; the least recently
+// played ones are evicted first. Every operation degrades to a miss without IndexedDB.
+
+export const SPEECH_CACHE_MAX_ENTRIES = 100;
+
+interface CachedSpeech {
+  key: string;
+  pcm: Int16Array;
+  createdAt: number;
+  lastAccessed: number;
+}
+
+export const buildSpeechKey = (text: string, voice: string): string =>
+  [voice, text.normalize('NFC').trim()].join('␟');
+
+export const getCachedSpeech = async (key: string): Promise<Int16Array | null> => {
+  try {
+    return await withStore(STORE_SPEECH, 'readwrite', async (store) => {
+      const entry = await requestToPromise<CachedSpeech | undefined>(store.get(key));
+      if (!entry) return null;
+      store.put({ ...entry, lastAccessed: Date.now() });
+      return entry.pcm;
+    });
+  } catch (e) {
+    console.warn("Speech cache read failed", e);
+    return null;
+  }
+};
+
+export const hasCachedSpeech = async (key: string): Promise<boolean> => {
+  try {
+    const count = await withStore(STORE_SPEECH, 'readonly', (store) => requestToPromise(store.count(key)));
+    return count > 0;
+  } catch (e) {
+    return false;
+  }
+};
+
+const evictOverflow = async (store: IDBObjectStore) => {
+  let excess = (await requestToPromise(store.count())) - SPEECH_CACHE_MAX_ENTRIES;
+  if (excess <= 0) return;
+
+  await new Promise<void>((resolve, reject) => {
+    const cursorRequest = store.index('lastAccessed').openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || excess <= 0) {
+        resolve();
+        return;
+      }
+      cursor.delete();
+      excess--;
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+};
+
+export const putCachedSpeech = async (key: string, pcm: Int16Array): Promise<void> => {
+  try {
+    await withStore(STORE_SPEECH, 'readwrite', async (store) => {
+      const now = Date.now();
+      store.put({ key, pcm, createdAt: now, lastAccessed: now });
+      await evictOverflow(store);
+    });
+  } catch (e) {
+    console.warn("Speech cache write failed", e);
+  }
+};
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { createStreamingTranslationParser, PartialTranslationResult } from './streamingJson';
+import { TranslationError } from './errors';
+
+const parse = (json: string, chunkSize = json.length) => {
+  const updates: PartialTranslationResult[] = [];
+  const parser = createStreamingTranslationParser(partial => updates.push(partial));
+  for (let i = 0; i < json.length; i += chunkSize) parser.push(json.slice(i, i + chunkSize));
+  return { result: parser.finish(), updates };
+};
+
+const errorCode = (run: () => unknown): string | undefined => {
+  try {
+    run();
+  } catch (err) {
+    return err instanceof TranslationError ? err.code : 'not a TranslationError';
+  }
+  return undefined;
+};
+
+const FULL = JSON.stringify({
+  translatedText: 'Kumusta "ka"? é',
+  transliteration: '',
+  explanation: 'Casual greeting.',
+  slangUsed: [{ term: 'lodi', meaning: 'idol', context: 'praise' }],
+  vibe: 'Chill',
+  count: -1.5e3,
+  flag: true,
+  missing: null,
+  alternatives: [
+    { translatedText: 'Uy, kumusta?', vibe: 'Chill', note: 'Friends' },
+    { translatedText: 'Kumusta "ka"? é', vibe: 'Same', note: 'Repeats the main one' },
+  ],
+  segments: [{ text: 'Kumusta', transliteration: '' }, { text: '  ', transliteration: '' }],
+});
+
+describe('createStreamingTranslationParser', () => {
+  it('parses the same result however the stream is chunked', () => {
+    const whole = parse(FULL).result;
+    expect(parse(FULL, 1).result).toEqual(whole);
+    expect(parse(FULL, 7).result).toEqual(whole);
+    expect(whole.translatedText).toBe('Kumusta "ka"? é');
+    expect(whole.slangUsed).toEqual([{ term: 'lodi', meaning: 'idol', context: 'praise' }]);
+  });
+
+  it('drops alternatives that repeat the main translation and blank segments', () => {
+    const { result } = parse(FULL);
+    expect(result.alternatives?.map(alt => alt.translatedText)).toEqual(['Uy, kumusta?']);
+    expect(result.segments).toEqual([{ text: 'Kumusta', transliteration: '' }]);
+  });
+
+  it('leaves alternatives undefined when the response has none', () => {
+    const { result } = parse('{"translatedText":"Hi","explanation":"","slangUsed":[],"vibe":"x"}');
+    expect(result.alternatives).toBeUndefined();
+  });
+
+  it('surfaces the top-level string while it is still being written', () => {
+    const { updates } = parse('{"translatedText":"Kumusta ka","vibe":"x"}', 4);
+    const texts = updates.map(update => update.translatedText).filter(Boolean);
+    expect(texts[0]!.length).toBeLessThan('Kumusta ka'.length);
+    expect(texts[texts.length - 1]).toBe('Kumusta ka');
+  });
+
+  it('reports each slang entry as soon as it closes', () => {
+    const json = '{"translatedText":"x","slangUsed":[{"term":"a","meaning":"","context":""},{"term":"b"';
+    const updates: PartialTranslationResult[] = [];
+    createStreamingTranslationParser(partial => updates.push(partial)).push(json);
+    expect(updates[updates.length - 1].slangUsed).toEqual([{ term: 'a', meaning: '', context: '' }]);
+  });
+
+  it('keeps only known fields and drops malformed slang entries', () => {
+    const { result } = parse('{"translatedText":"x","slangUsed":[{"term":"a"},{"meaning":"no term"},{"term":1},{"term":" "},"junk"],"extra":1}');
+    expect(result).toEqual({ translatedText: 'x', explanation: '', slangUsed: [{ term: 'a', meaning: '', context: '' }], vibe: '' });
+    expect(result).not.toHaveProperty('extra');
+  });
+
+  it('narrows list entries in partial updates too', () => {
+    const updates: PartialTranslationResult[] = [];
+    createStreamingTranslationParser(partial => updates.push(partial))
+      .push('{"translatedText":"x","slangUsed":[{"meaning":"no term"},{"term":"b","meaning":2}');
+    expect(updates[updates.length - 1].slangUsed).toEqual([{ term: 'b', meaning: '', context: '' }]);
+  });
+
+  it('does not surface unknown fields while they stream', () => {
+    const { updates } = parse('{"translatedText":"x","extra":"still streaming"}', 3);
+    expect(updates.some(update => 'extra' in update)).toBe(false);
+  });
+
+  it.each([
+    ['a missing colon', '{"a" "b"}'],
+    ['a missing comma', '{"translatedText":"x" "vibe":"y"}'],
+    ['a trailing comma in an object', '{"translatedText":"x",}'],
+    ['a trailing comma in an array', '{"translatedText":"x","l":[1,]}'],
+    ['a leading comma in an array', '{"translatedText":"x","l":[,1]}'],
+    ['array values without a comma', '{"translatedText":"x","l":[1 2]}'],
+    ['a doubled comma', '{"translatedText":"x",,"v":"y"}'],
+    ['a doubled colon', '{"translatedText"::"x"}'],
+    ['a key without a value', '{"a":}'],
+    ['a value straight after a literal', '{"translatedText":"x","a":1"b"}'],
+    ['an extra closing brace', '{"translatedText":"x"}}'],
+    ['a bad literal', '{"translatedText":"x","a":nope}'],
+    ['a bad escape', '{"translatedText":"\\q"}'],
+    ['a top-level array', '[]'],
+    ['truncated input', '{"translatedText":"x"'],
+  ])('rejects %s', (_, json) => {
+    expect(errorCode(() => parse(json))).toBe('PARSE_ERROR');
+  });
+
+  it('treats empty input and a blank translation as EMPTY_RESPONSE', () => {
+    expect(errorCode(() => createStreamingTranslationParser(() => {}).finish())).toBe('EMPTY_RESPONSE');
+    expect(errorCode(() => parse('{"translatedText":"  "}'))).toBe('EMPTY_RESPONSE');
+  });
+
+  it('requires translatedText to be a string', () => {
+    expect(errorCode(() => parse('{"translatedText":1}'))).toBe('PARSE_ERROR');
+  });
+});
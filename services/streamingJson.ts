@@ -0,0 +1,307 @@
+import { PronunciationSegment, SlangDetail, TranslationAlternative, TranslationResult } from "../types";
+import { TranslationError } from "./errors";
+import { isString, recordsOf, stringOr } from "./guards";
+
+// Incremental JSON parser for the structured translation stream. Each character is
+// visited exactly once, so a response of N characters costs O(N) no matter how it is
+// chunked. Top-level string fields are surfaced while they are still being written;
+// objects and arrays are only attached to their parent once they close, which is what
+// makes each `slangUsed` or `alternatives` entry appear as soon as it is complete.
+
+export type PartialTranslationResult = Partial<TranslationResult>;
+
+type Container = Record<string, unknown> | unknown[];
+
+// What the JSON grammar allows next inside a container.
+type Expect = 'keyOrClose' | 'key' | 'colon' | 'value' | 'valueOrClose' | 'commaOrClose';
+
+interface Frame {
+  container: Container;
+  key: string | null; // pending key for objects
+  expect: Expect;
+}
+
+const STRUCTURAL_CHARS = '{}[],:"';
+
+const STREAMED_FIELDS = ['translatedText', 'transliteration', 'explanation', 'vibe', 'detectedLanguage'] as const;
+const STREAMED_LISTS = ['slangUsed', 'alternatives'] as const;
+
+const isStreamedField = (key: string | null): key is typeof STREAMED_FIELDS[number] =>
+  (STREAMED_FIELDS as readonly (string | null)[]).includes(key);
+const isStreamedList = (key: string | null) => (STREAMED_LISTS as readonly (string | null)[]).includes(key);
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+const isWhitespace = (ch: string) => ch === ' ' || ch === '\n' || ch === '\r' || ch === '\t';
+
+const parseFailure = (): TranslationError => new TranslationError('PARSE_ERROR');
+
+const toSlang = (value: unknown): SlangDetail[] =>
+  recordsOf(value).flatMap(s =>
+    isString(s.term) && s.term.trim()
+      ? [{ term: s.term, meaning: stringOr(s.meaning, ''), context: stringOr(s.context, '') }]
+      : []
+  );
+
+// Drops malformed entries and any alternative that just repeats the main translation.
+const toAlternatives = (value: unknown, primary: string): TranslationAlternative[] => {
+  const seen = new Set([primary.trim().toLowerCase()]);
+  return recordsOf(value).flatMap(alt => {
+    if (!isString(alt.translatedText)) return [];
+    const key = alt.translatedText.trim().toLowerCase();
+    if (!key || seen.has(key)) return [];
+    seen.add(key);
+    return [{
+      translatedText: alt.translatedText,
+      transliteration: isString(alt.transliteration) && alt.transliteration ? alt.transliteration : undefined,
+      vibe: stringOr(alt.vibe, ''),
+      note: stringOr(alt.note, ''),
+    }];
+  });
+};
+
+const toSegments = (value: unknown): PronunciationSegment[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const segments = recordsOf(value).flatMap(s =>
+    isString(s.text) && s.text.trim() ? [{ text: s.text, transliteration: stringOr(s.transliteration, '') }] : []
+  );
+  return segments.length > 0 ? segments : undefined;
+};
+
+export interface StreamingTranslationParser {
+  push: (chunk: string) => void;
+  finish: () => TranslationResult;
+}
+
+export const createStreamingTranslationParser = (
+  onUpdate: (partial: PartialTranslationResult) => void
+): StreamingTranslationParser => {
+  const stack: Frame[] = [];
+  let root: Record<string, unknown> | null = null;
+  let done = false;
+  let sawInput = false;
+
+  let inString = false;
+  let stringIsKey = false;
+  let stringBuffer = '';
+  let escapePending = false;
+  let unicodeDigits: string | null = null;
+
+  let literal = '';
+  let dirty = false;
+
+  const top = (): Frame | undefined => stack[stack.length - 1];
+
+  const attach = (value: unknown) => {
+    const frame = top();
+    if (!frame) throw parseFailure();
+    if (Array.isArray(frame.container)) {
+      frame.container.push(value);
+    } else {
+      if (frame.key === null) throw parseFailure();
+      frame.container[frame.key] = value;
+      frame.key = null;
+    }
+    frame.expect = 'commaOrClose';
+    if (stack.length === 1) dirty = true;
+    // A closed list entry lands in the array at depth 2.
+    if (stack.length === 2 && isStreamedList(stack[0].key)) dirty = true;
+  };
+
+  const flushLiteral = () => {
+    if (!literal) return;
+    let value: unknown;
+    if (literal === 'true') value = true;
+    else if (literal === 'false') value = false;
+    else if (literal === 'null') value = null;
+    else {
+      const n = Number(literal);
+      if (Number.isNaN(n)) throw parseFailure();
+      value = n;
+    }
+    literal = '';
+    attach(value);
+  };
+
+  const expectValue = () => {
+    const frame = top();
+    if (!frame || (frame.expect !== 'value' && frame.expect !== 'valueOrClose')) throw parseFailure();
+  };
+
+  const openContainer = (container: Container) => {
+    if (stack.length === 0) {
+      if (root !== null || Array.isArray(container)) throw parseFailure();
+      root = container as Record<string, unknown>;
+    } else {
+      expectValue();
+    }
+    stack.push({ container, key: null, expect: Array.isArray(container) ? 'valueOrClose' : 'keyOrClose' });
+  };
+
+  const closeContainer = (expectArray: boolean) => {
+    const frame = stack.pop();
+    if (!frame || Array.isArray(frame.container) !== expectArray) throw parseFailure();
+    // Closing right after a comma or colon (`[1,]`, `{"a":}`) is malformed.
+    if (frame.expect !== 'commaOrClose' && frame.expect !== (expectArray ? 'valueOrClose' : 'keyOrClose')) {
+      throw parseFailure();
+    }
+    if (stack.length === 0) {
+      done = true;
+      dirty = true;
+    } else {
+      attach(frame.container);
+    }
+  };
+
+  const readStringChar = (ch: string) => {
+    if (unicodeDigits !== null) {
+      unicodeDigits += ch;
+      if (unicodeDigits.length === 4) {
+        if (!/^[0-9a-fA-F]{4}$/.test(unicodeDigits)) throw parseFailure();
+        stringBuffer += String.fromCharCode(parseInt(unicodeDigits, 16));
+        unicodeDigits = null;
+      }
+      return;
+    }
+    if (escapePending) {
+      escapePending = false;
+      if (ch === 'u') {
+        unicodeDigits = '';
+      } else if (ch in SIMPLE_ESCAPES) {
+        stringBuffer += SIMPLE_ESCAPES[ch];
+      } else {
+        throw parseFailure();
+      }
+      return;
+    }
+    if (ch === '\\') {
+      escapePending = true;
+    } else if (ch === '"') {
+      inString = false;
+      const value = stringBuffer;
+      stringBuffer = '';
+      if (stringIsKey) {
+        const frame = top();
+        if (!frame || Array.isArray(frame.container)) throw parseFailure();
+        frame.key = value;
+        frame.expect = 'colon';
+      } else {
+        attach(value);
+      }
+    } else {
+      stringBuffer += ch;
+      if (!stringIsKey && stack.length === 1) dirty = true;
+    }
+  };
+
+  const readChar = (ch: string) => {
+    if (inString) {
+      readStringChar(ch);
+      return;
+    }
+    if (isWhitespace(ch)) {
+      flushLiteral();
+      return;
+    }
+    if (done) throw parseFailure();
+
+    if (!STRUCTURAL_CHARS.includes(ch)) {
+      if (!literal) expectValue();
+      literal += ch;
+      return;
+    }
+    flushLiteral();
+
+    const frame = top();
+    switch (ch) {
+      case '{':
+        openContainer({});
+        break;
+      case '[':
+        if (!frame) throw parseFailure();
+        openContainer([]);
+        break;
+      case '}':
+        closeContainer(false);
+        break;
+      case ']':
+        closeContainer(true);
+        break;
+      case ',':
+        if (frame?.expect !== 'commaOrClose') throw parseFailure();
+        frame.expect = Array.isArray(frame.container) ? 'value' : 'key';
+        break;
+      case ':':
+        if (frame?.expect !== 'colon') throw parseFailure();
+        frame.expect = 'value';
+        break;
+      case '"':
+        stringIsKey = frame?.expect === 'key' || frame?.expect === 'keyOrClose';
+        if (!stringIsKey) expectValue();
+        inString = true;
+        break;
+    }
+  };
+
+  const snapshot = (): PartialTranslationResult => {
+    const partial: PartialTranslationResult = {};
+    const current = root || {};
+    for (const field of STREAMED_FIELDS) {
+      const value = current[field];
+      if (isString(value)) partial[field] = value;
+    }
+    // Overlay the top-level string that is still being written.
+    const pendingKey = stack.length === 1 ? stack[0].key : null;
+    if (inString && !stringIsKey && isStreamedField(pendingKey)) {
+      partial[pendingKey] = stringBuffer;
+    }
+    const list = (field: typeof STREAMED_LISTS[number]): unknown =>
+      stack.length >= 2 && stack[0].key === field ? stack[1].container : current[field];
+    const slang = list('slangUsed');
+    if (Array.isArray(slang)) partial.slangUsed = toSlang(slang);
+    const alternatives = list('alternatives');
+    if (Array.isArray(alternatives)) partial.alternatives = toAlternatives(alternatives, stringOr(current.translatedText, ''));
+    return partial;
+  };
+
+  return {
+    push: (chunk: string) => {
+      if (chunk) sawInput = true;
+      for (let i = 0; i < chunk.length; i++) {
+        readChar(chunk[i]);
+      }
+      if (dirty) {
+        dirty = false;
+        onUpdate(snapshot());
+      }
+    },
+    finish: (): TranslationResult => {
+      if (!sawInput) throw new TranslationError('EMPTY_RESPONSE');
+      if (inString || stack.length > 0 || !root) throw parseFailure();
+      const result = root;
+      if (!isString(result.translatedText)) throw parseFailure();
+      if (!result.translatedText.trim()) throw new TranslationError('EMPTY_RESPONSE');
+      // Only the fields Kanto knows are kept; anything else the model adds is dropped.
+      return {
+        translatedText: result.translatedText,
+        transliteration: isString(result.transliteration) ? result.transliteration : undefined,
+        explanation: stringOr(result.explanation, ''),
+        slangUsed: toSlang(result.slangUsed),
+        vibe: stringOr(result.vibe, ''),
+        detectedLanguage: isString(result.detectedLanguage) ? result.detectedLanguage : undefined,
+        // Left undefined when none were asked for, so a cached result shows whether they were.
+        alternatives: Array.isArray(result.alternatives) ? toAlternatives(result.alternatives, result.translatedText) : undefined,
+        segments: toSegments(result.segments),
+      };
+    },
+  };
+};
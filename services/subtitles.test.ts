@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { detectSubtitleFormat, parseSubtitles, serializeSubtitles, wrapSubtitleText } from './subtitles';
+
+const SRT = [
+  '3',
+  '00:00:01,000 --> 00:00:02,500',
+  'Hello there.',
+  '',
+  '7',
+  '00:00:03,000 --> 00:00:04,000',
+  '',
+  '',
+  '8',
+  '00:00:05,000 --> 00:00:06,000',
+  'Two',
+  'lines',
+  '',
+].join('\n');
+
+const VTT = [
+  'WEBVTT',
+  '',
+  'STYLE',
+  '::cue { color: yellow }',
+  '',
+  'NOTE this is dropped',
+  '',
+  'intro',
+  '00:01.000 --> 00:02.000 align:start',
+  'Hi',
+  '',
+  '00:03.000 --> 00:04.000',
+  'Bye',
+  '',
+].join('\n');
+
+describe('detectSubtitleFormat', () => {
+  it('trusts the file extension', () => {
+    expect(detectSubtitleFormat('', 'movie.SRT')).toBe('srt');
+    expect(detectSubtitleFormat(SRT, 'notes.txt')).toBeNull();
+  });
+
+  it('sniffs pasted text', () => {
+    expect(detectSubtitleFormat(`﻿${VTT}`)).toBe('vtt');
+    expect(detectSubtitleFormat(SRT)).toBe('srt');
+    expect(detectSubtitleFormat('just some text')).toBeNull();
+  });
+});
+
+describe('parseSubtitles / serializeSubtitles', () => {
+  it('keeps SRT numbering gaps, timing and empty cues', () => {
+    const doc = parseSubtitles(SRT, 'srt');
+    expect(doc.cues.map(cue => cue.index)).toEqual(['3', '7', '8']);
+    expect(doc.cues.map(cue => cue.text)).toEqual(['Hello there.', '', 'Two\nlines']);
+    expect(serializeSubtitles(doc)).toBe(
+      '3\n00:00:01,000 --> 00:00:02,500\nHello there.\n\n' +
+      '7\n00:00:03,000 --> 00:00:04,000\n\n' +
+      '8\n00:00:05,000 --> 00:00:06,000\nTwo\nlines\n'
+    );
+  });
+
+  it('writes back a cue whose text is empty', () => {
+    const doc = parseSubtitles('5\n00:00:01,000 --> 00:00:02,000\nHi\n', 'srt');
+    const out = serializeSubtitles({ ...doc, cues: [...doc.cues, { index: '9', timing: '00:00:03,000 --> 00:00:04,000', text: '' }] });
+    expect(out).toBe('5\n00:00:01,000 --> 00:00:02,000\nHi\n\n9\n00:00:03,000 --> 00:00:04,000\n');
+  });
+
+  it('keeps the VTT header, identifiers and cue settings but drops NOTE blocks', () => {
+    const doc = parseSubtitles(VTT, 'vtt');
+    expect(doc.header).toBe('WEBVTT\n\nSTYLE\n::cue { color: yellow }');
+    expect(doc.cues).toEqual([
+      { index: 'intro', timing: '00:01.000 --> 00:02.000 align:start', text: 'Hi' },
+      { index: '', timing: '00:03.000 --> 00:04.000', text: 'Bye' },
+    ]);
+    expect(serializeSubtitles(doc)).toBe(
+      'WEBVTT\n\nSTYLE\n::cue { color: yellow }\n\nintro\n00:01.000 --> 00:02.000 align:start\nHi\n\n00:03.000 --> 00:04.000\nBye\n'
+    );
+  });
+
+  it('adds a WEBVTT line when the header is missing', () => {
+    expect(parseSubtitles('00:01.000 --> 00:02.000\nHi', 'vtt').header).toBe('WEBVTT');
+  });
+
+  it('collapses blank lines inside cue text so the cue does not end early', () => {
+    const out = serializeSubtitles({ format: 'srt', header: '', cues: [{ index: '1', timing: '00:00:01,000 --> 00:00:02,000', text: 'a\n\nb' }] });
+    expect(out).toBe('1\n00:00:01,000 --> 00:00:02,000\na\nb\n');
+  });
+});
+
+describe('wrapSubtitleText', () => {
+  it('leaves short lines alone', () => {
+    expect(wrapSubtitleText('Short line', 42)).toBe('Short line');
+  });
+
+  it('splits a long line at the space nearest the middle', () => {
+    expect(wrapSubtitleText('one two three four five six', 15)).toBe('one two three\nfour five six');
+  });
+
+  it('cuts unspaced scripts by characters', () => {
+    expect(wrapSubtitleText('あいうえおかきくけこ', 4)).toBe('あいうえ\nおかきく\nけこ');
+  });
+});
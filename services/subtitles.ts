@@ -0,0 +1,119 @@
+// SubRip (.srt) and WebVTT (.vtt) reading and writing. Cue identifiers and timing
+// lines (including VTT cue settings) are kept verbatim so a translated track lines
+// up with the video exactly like the original.
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleCue {
+  index: string;  // SRT counter or optional VTT identifier
+  timing: string; // "00:00:01,000 --> 00:00:03,500" plus any VTT settings, untouched
+  text: string;   // May span several lines
+}
+
+export interface SubtitleDocument {
+  format: SubtitleFormat;
+  header: string; // VTT only: the WEBVTT line plus STYLE/REGION blocks before the first cue
+  cues: SubtitleCue[];
+}
+
+// Netflix-style default for Latin scripts; two lines of this fit most players.
+export const DEFAULT_MAX_LINE_LENGTH = 42;
+
+const TIMING_LINE = /^\s*(?:\d{1,2}:)?\d{2}:\d{2}[,.]\d{1,3}\s*-->\s*(?:\d{1,2}:)?\d{2}:\d{2}[,.]\d{1,3}/;
+
+export const detectSubtitleFormat = (text: string, fileName?: string): SubtitleFormat | null => {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'srt' || extension === 'vtt') return extension;
+  if (fileName) return null;
+  const body = text.replace(/^\uFEFF/, '');
+  if (/^WEBVTT\b/.test(body)) return 'vtt';
+  return body.split(/\r?\n/).slice(0, 10).some(line => TIMING_LINE.test(line)) ? 'srt' : null;
+};
+
+const splitBlocks = (text: string): string[][] =>
+  text
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n[ \t]*\r?\n/)
+    .map(block => block.split(/\r?\n/))
+    .filter(lines => lines.some(line => line.trim()));
+
+const toCue = (lines: string[]): SubtitleCue | null => {
+  const timingAt = lines.findIndex(line => TIMING_LINE.test(line));
+  if (timingAt < 0) return null;
+  return {
+    index: lines.slice(0, timingAt).join(' ').trim(),
+    timing: lines[timingAt].trim(),
+    text: lines.slice(timingAt + 1).join('\n').trim(),
+  };
+};
+
+export const parseSubtitles = (text: string, format: SubtitleFormat): SubtitleDocument => {
+  const blocks = splitBlocks(text);
+  const headerBlocks: string[] = [];
+  const cues: SubtitleCue[] = [];
+
+  blocks.forEach(lines => {
+    const cue = toCue(lines);
+    if (cue) {
+      cues.push(cue);
+      return;
+    }
+    // VTT preamble (WEBVTT line, STYLE, REGION) is kept; NOTE comments are dropped.
+    if (format === 'vtt' && cues.length === 0 && !/^NOTE\b/.test(lines[0])) {
+      headerBlocks.push(lines.join('\n'));
+    }
+  });
+
+  if (format === 'vtt' && !/^WEBVTT\b/.test(headerBlocks[0] || '')) headerBlocks.unshift('WEBVTT');
+  return { format, header: headerBlocks.join('\n\n'), cues };
+};
+
+export const serializeSubtitles = (doc: SubtitleDocument): string => {
+  // Every cue is written back with its own identifier, so gaps and odd numbering survive.
+  const cues = doc.cues.map(cue => {
+    // An empty line inside cue text would end the cue early.
+    const text = cue.text.replace(/\n[ \t]*\n+/g, '\n');
+    return [cue.index, cue.timing, text].filter(Boolean).join('\n');
+  });
+  return [...(doc.format === 'vtt' ? [doc.header] : []), ...cues].join('\n\n') + '\n';
+};
+
+// Splits one line so that no piece exceeds `maxLength`, preferring the space nearest
+// the middle for two-line cues. Text without spaces (ja/zh) is cut by characters.
+const wrapLine = (line: string, maxLength: number): string[] => {
+  if (line.length <= maxLength) return [line];
+
+  if (line.length <= maxLength * 2 && line.includes(' ')) {
+    const middle = line.length / 2;
+    let best = -1;
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] !== ' ') continue;
+      const fits = i <= maxLength && line.length - i - 1 <= maxLength;
+      if (fits && (best < 0 || Math.abs(i - middle) < Math.abs(best - middle))) best = i;
+    }
+    if (best >= 0) return [line.slice(0, best), line.slice(best + 1)];
+  }
+
+  const words = line.includes(' ') ? line.split(' ') : Array.from(line);
+  const joiner = line.includes(' ') ? ' ' : '';
+  const lines: string[] = [];
+  let current = '';
+  words.forEach(word => {
+    const next = current ? `${current}${joiner}${word}` : word;
+    if (next.length > maxLength && current) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = next;
+    }
+  });
+  if (current) lines.push(current);
+  return lines;
+};
+
+export const wrapSubtitleText = (text: string, maxLength: number): string =>
+  text
+    .split('\n')
+    .flatMap(line => wrapLine(line.trim(), maxLength))
+    .filter(Boolean)
+    .join('\n');
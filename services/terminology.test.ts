@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { TermRule } from '../types';
+import { ANY_LANGUAGE, checkTerminology, findApplicableRules } from './terminology';
+
+const rule = (overrides: Partial<TermRule> = {}): TermRule => ({
+  id: 'r1',
+  sourceLang: 'en',
+  targetLang: 'ja',
+  source: 'Kanto',
+  target: '',
+  caseSensitive: false,
+  doNotTranslate: true,
+  createdAt: 0,
+  ...overrides,
+});
+
+describe('findApplicableRules', () => {
+  it('matches whole terms only in space-separated text', () => {
+    const rules = [rule()];
+    expect(findApplicableRules(rules, 'Open Kanto, please', 'en', 'ja')).toEqual(rules);
+    expect(findApplicableRules(rules, 'Ask Kantor about it', 'en', 'ja')).toEqual([]);
+    expect(findApplicableRules(rules, 'ReKanto', 'en', 'ja')).toEqual([]);
+  });
+
+  it('matches terms next to characters of unspaced scripts', () => {
+    const rules = [rule({ sourceLang: 'ja' })];
+    expect(findApplicableRules(rules, 'Kantoアプリを開く', 'ja', 'ja')).toEqual(rules);
+    expect(findApplicableRules([rule({ source: '東京', sourceLang: 'ja', targetLang: 'en' })], '東京都に住む', 'ja', 'en')).toHaveLength(1);
+  });
+
+  it('honours case sensitivity', () => {
+    expect(findApplicableRules([rule()], 'kanto', 'en', 'ja')).toHaveLength(1);
+    expect(findApplicableRules([rule({ caseSensitive: true })], 'kanto', 'en', 'ja')).toEqual([]);
+  });
+
+  it('compares terms and text in the same Unicode normal form', () => {
+    const decomposed = rule({ source: 'Cafe\u0301', target: 'カフェ', doNotTranslate: false });
+    expect(findApplicableRules([decomposed], 'Meet at the Café', 'en', 'ja')).toHaveLength(1);
+  });
+
+  it('filters by language pair, with wildcards for any source and auto-detect', () => {
+    const rules = [rule(), rule({ id: 'r2', sourceLang: ANY_LANGUAGE }), rule({ id: 'r3', sourceLang: 'fr' }), rule({ id: 'r4', targetLang: 'ko' })];
+    expect(findApplicableRules(rules, 'Kanto', 'en', 'ja').map(r => r.id)).toEqual(['r1', 'r2']);
+    expect(findApplicableRules(rules, 'Kanto', 'auto', 'ja').map(r => r.id)).toEqual(['r1', 'r2', 'r3']);
+  });
+
+  it('skips rules without a required rendering', () => {
+    expect(findApplicableRules([rule({ doNotTranslate: false, target: '' })], 'Kanto', 'en', 'ja')).toEqual([]);
+  });
+});
+
+describe('checkTerminology', () => {
+  it('flags rules whose expected term is missing from the translation', () => {
+    const keep = rule();
+    const render = rule({ id: 'r2', source: 'phrasebook', target: 'フレーズ帳', doNotTranslate: false });
+    expect(checkTerminology('Kantoのフレーズ帳', [keep, render])).toEqual([]);
+    expect(checkTerminology('カントーの単語帳', [keep, render])).toEqual([
+      { source: 'Kanto', expected: 'Kanto' },
+      { source: 'phrasebook', expected: 'フレーズ帳' },
+    ]);
+  });
+});
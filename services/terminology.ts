@@ -0,0 +1,88 @@
+import { TermRule, TermViolation } from "../types";
+import { requestToPromise, STORE_TERMINOLOGY, withStore } from "./db";
+
+// User-managed terminology: terms that must always come out a certain way for a
+// language pair. Matching rules are injected into the prompt, and the output is
+// checked afterwards so a rule the model ignored is still caught.
+
+export const ANY_LANGUAGE = '*';
+
+export type TermRuleInput = Omit<TermRule, 'id' | 'createdAt'>;
+
+export const getTermRules = async (): Promise<TermRule[]> => {
+  try {
+    const rules = await withStore(STORE_TERMINOLOGY, 'readonly', (store) =>
+      requestToPromise<TermRule[]>(store.getAll())
+    );
+    return rules.sort((a, b) => a.createdAt - b.createdAt);
+  } catch (e) {
+    console.error("Terminology read failed", e);
+    return [];
+  }
+};
+
+export const saveTermRule = async (input: TermRuleInput, id?: string): Promise<TermRule> => {
+  const existing = id ? (await getTermRules()).find(rule => rule.id === id) : undefined;
+  const rule: TermRule = {
+    ...input,
+    source: input.source.trim(),
+    target: input.doNotTranslate ? '' : input.target.trim(),
+    id: existing?.id || crypto.randomUUID(),
+    createdAt: existing?.createdAt || Date.now(),
+  };
+  await withStore(STORE_TERMINOLOGY, 'readwrite', (store) => requestToPromise(store.put(rule)));
+  return rule;
+};
+
+export const deleteTermRule = async (id: string): Promise<void> => {
+  await withStore(STORE_TERMINOLOGY, 'readwrite', (store) => requestToPromise(store.delete(id)));
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Scripts written without spaces between words, where word boundaries can't be seen.
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+// True when `a` and `b` side by side are part of one word in a space-separated script.
+const joinsWord = (a: string | undefined, b: string | undefined): boolean =>
+  !!a && !!b && WORD_CHAR.test(a) && WORD_CHAR.test(b) && !UNSPACED_SCRIPT.test(a) && !UNSPACED_SCRIPT.test(b);
+
+// Whole-term match: "Kanto" should not match inside "Kantor", but does inside "Kantoアプリ".
+const containsTerm = (text: string, term: string, caseSensitive: boolean): boolean => {
+  const needle = term.normalize('NFC');
+  if (!needle) return false;
+  const haystack = text.normalize('NFC');
+  const pattern = new RegExp(escapeRegExp(needle), caseSensitive ? 'gu' : 'giu');
+  for (const match of haystack.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const chars = Array.from(match[0]);
+    const before = Array.from(haystack.slice(Math.max(0, start - 2), start)).pop();
+    const after = Array.from(haystack.slice(end, end + 2))[0];
+    if (!joinsWord(before, chars[0]) && !joinsWord(chars[chars.length - 1], after)) return true;
+  }
+  return false;
+};
+
+export const expectedTerm = (rule: TermRule): string => (rule.doNotTranslate ? rule.source : rule.target);
+
+// Rules for this pair whose source term occurs in the text. An 'auto' source
+// matches every rule for the target, since the term itself identifies the language.
+export const findApplicableRules = (
+  rules: TermRule[],
+  text: string,
+  sourceLang: string,
+  targetLang: string
+): TermRule[] =>
+  rules.filter(rule =>
+    rule.targetLang === targetLang &&
+    (rule.sourceLang === ANY_LANGUAGE || sourceLang === 'auto' || rule.sourceLang === sourceLang) &&
+    expectedTerm(rule) &&
+    containsTerm(text, rule.source, rule.caseSensitive)
+  );
+
+export const checkTerminology = (translatedText: string, rules: TermRule[]): TermViolation[] =>
+  rules
+    .filter(rule => !containsTerm(translatedText, expectedTerm(rule), rule.caseSensitive))
+    .map(rule => ({ source: rule.source, expected: expectedTerm(rule) }));
@@ -0,0 +1,15 @@
+import { TranslationError } from "./errors";
+
+// Resolves after `ms`, or rejects with ABORTED as soon as the signal fires.
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new TranslationError('ABORTED'));
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new TranslationError('ABORTED'));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
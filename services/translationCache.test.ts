@@ -0,0 +1,79 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TranslationResult } from '../types';
+import { STORE_TRANSLATIONS, withStore } from './db';
+import {
+  buildCacheKey,
+  CACHE_MAX_ENTRIES,
+  CACHE_TTL_MS,
+  CachedTranslation,
+  clearTranslationCache,
+  getAllCachedTranslations,
+  getCachedTranslation,
+  putCachedTranslation,
+} from './translationCache';
+
+const NOW = Date.UTC(2025, 0, 1);
+
+const result: TranslationResult = { translatedText: 'Kumusta', explanation: '', slangUsed: [], vibe: '' };
+const entry = { text: 'Hello', sourceLang: 'en', targetLang: 'tl', vibeMode: 'casual' as const, result };
+
+describe('buildCacheKey', () => {
+  it('ignores surrounding and repeated whitespace and the Unicode normal form', () => {
+    expect(buildCacheKey('  Cafe\u0301   au lait ', 'fr', 'en', 'casual')).toBe(buildCacheKey('Café au lait', 'fr', 'en', 'casual'));
+  });
+
+  it('keeps case apart', () => {
+    expect(buildCacheKey('US', 'en', 'tl', 'casual')).not.toBe(buildCacheKey('us', 'en', 'tl', 'casual'));
+  });
+
+  it('separates languages, vibes and context', () => {
+    const key = buildCacheKey('Hello', 'en', 'tl', 'casual');
+    expect(buildCacheKey('Hello', 'en', 'ceb', 'casual')).not.toBe(key);
+    expect(buildCacheKey('Hello', 'en', 'tl', 'formal')).not.toBe(key);
+    expect(buildCacheKey('Hello', 'en', 'tl', 'casual', { situation: 'At work' })).not.toBe(key);
+  });
+});
+
+describe('translation cache store', () => {
+  beforeEach(() => {
+    vi.spyOn(Date, 'now').mockReturnValue(NOW);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await clearTranslationCache();
+  });
+
+  it('returns a stored entry and counts the hit', async () => {
+    await putCachedTranslation('k', entry);
+    vi.spyOn(Date, 'now').mockReturnValue(NOW + 1000);
+    expect(await getCachedTranslation('k')).toMatchObject({ result, hits: 1, lastAccessed: NOW + 1000 });
+    expect(await getCachedTranslation('missing')).toBeNull();
+  });
+
+  it('drops entries older than the TTL', async () => {
+    await putCachedTranslation('k', entry);
+    vi.spyOn(Date, 'now').mockReturnValue(NOW + CACHE_TTL_MS + 1);
+    expect(await getAllCachedTranslations()).toEqual([]);
+    expect(await getCachedTranslation('k')).toBeNull();
+    vi.spyOn(Date, 'now').mockReturnValue(NOW);
+    expect(await getCachedTranslation('k')).toBeNull();
+  });
+
+  it('evicts the least recently used entries past the size limit', async () => {
+    await withStore(STORE_TRANSLATIONS, 'readwrite', (store) => {
+      for (let i = 0; i < CACHE_MAX_ENTRIES; i++) {
+        const cached: CachedTranslation = { ...entry, key: `k${i}`, createdAt: NOW, lastAccessed: NOW - i, hits: 0 };
+        store.put(cached);
+      }
+    });
+    await putCachedTranslation('new', entry);
+
+    const keys = (await getAllCachedTranslations()).map(cached => cached.key);
+    expect(keys).toHaveLength(CACHE_MAX_ENTRIES);
+    expect(keys).toContain('new');
+    expect(keys).toContain('k0');
+    expect(keys).not.toContain(`k${CACHE_MAX_ENTRIES - 1}`);
+  });
+});
@@ -0,0 +1,117 @@
+import { TranslationContext, TranslationResult, VibeMode } from "../types";
+import { requestToPromise, STORE_TRANSLATIONS, withStore } from "./db";
+
+// Persistent cache in front of the translation provider. Entries expire after
+// CACHE_TTL_MS and the least recently used ones are evicted past CACHE_MAX_ENTRIES.
+// Every operation degrades to a miss when IndexedDB is unavailable.
+
+export const CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+export const CACHE_MAX_ENTRIES = 500;
+
+export interface CachedTranslation {
+  key: string;
+  text: string;
+  sourceLang: string;
+  targetLang: string;
+  vibeMode: VibeMode;
+  result: TranslationResult;
+  createdAt: number;
+  lastAccessed: number;
+  hits: number;
+}
+
+// Case is kept: "US" and "us", or a shouted line, can translate differently.
+export const normalizeCacheText = (text: string): string =>
+  text.normalize('NFC').trim().replace(/\s+/g, ' ');
+
+export const buildCacheKey = (
+  text: string,
+  sourceLang: string,
+  targetLang: string,
+  vibeMode: VibeMode,
+  context?: TranslationContext
+): string => {
+  const base = [normalizeCacheText(text), sourceLang, targetLang, vibeMode].join('␟');
+  // Context changes the answer, so contextual translations never share an entry with bare ones.
+  return context ? `${base}␟${JSON.stringify(context)}` : base;
+};
+
+const isExpired = (entry: CachedTranslation, now: number) => now - entry.createdAt > CACHE_TTL_MS;
+
+export const getCachedTranslation = async (key: string): Promise<CachedTranslation | null> => {
+  try {
+    return await withStore(STORE_TRANSLATIONS, 'readwrite', async (store) => {
+      const entry = await requestToPromise<CachedTranslation | undefined>(store.get(key));
+      if (!entry) return null;
+
+      const now = Date.now();
+      if (isExpired(entry, now)) {
+        store.delete(key);
+        return null;
+      }
+      const touched = { ...entry, lastAccessed: now, hits: entry.hits + 1 };
+      store.put(touched);
+      return touched;
+    });
+  } catch (e) {
+    console.warn("Translation cache read failed", e);
+    return null;
+  }
+};
+
+const evictOverflow = async (store: IDBObjectStore) => {
+  const count = await requestToPromise(store.count());
+  let excess = count - CACHE_MAX_ENTRIES;
+  if (excess <= 0) return;
+
+  await new Promise<void>((resolve, reject) => {
+    const cursorRequest = store.index('lastAccessed').openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || excess <= 0) {
+        resolve();
+        return;
+      }
+      cursor.delete();
+      excess--;
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+};
+
+export const putCachedTranslation = async (
+  key: string,
+  entry: Omit<CachedTranslation, 'key' | 'createdAt' | 'lastAccessed' | 'hits'>
+): Promise<void> => {
+  try {
+    await withStore(STORE_TRANSLATIONS, 'readwrite', async (store) => {
+      const now = Date.now();
+      store.put({ ...entry, key, createdAt: now, lastAccessed: now, hits: 0 });
+      await evictOverflow(store);
+    });
+  } catch (e) {
+    console.warn("Translation cache write failed", e);
+  }
+};
+
+export const getAllCachedTranslations = async (): Promise<CachedTranslation[]> => {
+  try {
+    const now = Date.now();
+    const entries = await withStore(STORE_TRANSLATIONS, 'readonly', (store) =>
+      requestToPromise<CachedTranslation[]>(store.getAll())
+    );
+    return entries.filter(entry => !isExpired(entry, now));
+  } catch (e) {
+    console.warn("Translation cache read failed", e);
+    return [];
+  }
+};
+
+export const clearTranslationCache = async (): Promise<void> => {
+  try {
+    await withStore(STORE_TRANSLATIONS, 'readwrite', (store) => requestToPromise(store.clear()));
+  } catch (e) {
+    console.warn("Translation cache clear failed", e);
+  }
+};
@@ -0,0 +1,78 @@
+import { TranslationContext, TranslationResult, VerificationResult, VibeDefinition, VibeMode } from "../types";
+import { geminiProvider } from "./providers/geminiProvider";
+import { mockProvider } from "./providers/mockProvider";
+import { PartialTranslationResult } from "./streamingJson";
+
+export interface TranslationRequest {
+  text: string;
+  sourceLang: string;
+  targetLang: string;
+  vibeMode: VibeMode;
+  vibe: VibeDefinition; // Resolved definition of vibeMode, used to build the prompt
+  context?: TranslationContext;
+  // Ask for ranked alternatives as well; left off where nobody would see them.
+  alternatives?: boolean;
+  // Aborting rejects the call with ABORTED and stops any further onUpdate calls.
+  signal?: AbortSignal;
+}
+
+export interface VerificationRequest {
+  sourceText: string;
+  translatedText: string;
+  sourceLang: string; // Never 'auto'; callers pass the detected language instead
+  targetLang: string;
+  signal?: AbortSignal;
+}
+
+export interface ProviderCapabilities {
+  streaming: boolean;
+  tts: boolean;
+  transcription: boolean;
+  autoDetect: boolean;
+  requiresNetwork: boolean;
+}
+
+export interface TranslationProvider {
+  id: string;
+  name: string;
+  capabilities: ProviderCapabilities;
+  translateStream: (
+    request: TranslationRequest,
+    onUpdate: (partial: PartialTranslationResult) => void
+  ) => Promise<TranslationResult>;
+  // Returns raw 16-bit mono PCM at 24 kHz, or null when nothing was produced.
+  synthesizeSpeech: (text: string, voiceName: string) => Promise<Int16Array | null>;
+  // sourceLang may be 'auto', in which case the provider should detect the spoken language.
+  transcribeAudio: (audioBase64: string, mimeType: string, sourceLang: string) => Promise<string>;
+  // Back-translates and grades meaning preservation; flags are the model's own findings.
+  verifyTranslation: (request: VerificationRequest) => Promise<VerificationResult>;
+}
+
+export const TTS_SAMPLE_RATE = 24000;
+
+const PROVIDERS: Record<string, TranslationProvider> = {
+  [geminiProvider.id]: geminiProvider,
+  [mockProvider.id]: mockProvider,
+};
+
+const PROVIDER_OVERRIDE_KEY = 'kanto_setting_provider';
+
+const resolveConfiguredProvider = (): TranslationProvider => {
+  // A localStorage override wins so the mock can be toggled from DevTools without a rebuild.
+  const override = typeof localStorage !== 'undefined' ? localStorage.getItem(PROVIDER_OVERRIDE_KEY) : null;
+  const configured = override || process.env.TRANSLATION_PROVIDER || geminiProvider.id;
+  return PROVIDERS[configured] || geminiProvider;
+};
+
+let activeProvider: TranslationProvider | null = null;
+
+export const getTranslationProvider = (): TranslationProvider => {
+  if (!activeProvider) activeProvider = resolveConfiguredProvider();
+  return activeProvider;
+};
+
+export const setTranslationProvider = (provider: TranslationProvider | string) => {
+  activeProvider = typeof provider === 'string' ? PROVIDERS[provider] || geminiProvider : provider;
+};
+
+export const listTranslationProviders = (): TranslationProvider[] => Object.values(PROVIDERS);
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { detectSanityIssues, markDrift, mergeFlags, scoreLabel, toVerificationResult } from './verification';
+
+const kinds = (flags: ReturnType<typeof detectSanityIssues>) => flags.map(flag => [flag.kind, flag.phrase]);
+
+describe('detectSanityIssues', () => {
+  it('flags sexual wording the original does not have', () => {
+    expect(kinds(detectSanityIssues('You look great today', 'Ang libog mo ngayon'))).toEqual([['sexualization', 'libog']]);
+    expect(kinds(detectSanityIssues('You look great today', 'Ang ganda mo', 'You are so sexy'))).toEqual([['sexualization', 'sexy']]);
+  });
+
+  it('does not flag sexual wording that is already in the original', () => {
+    expect(detectSanityIssues('That movie had a nude scene', 'May hubad na eksena', 'There was a nude scene')).toEqual([]);
+  });
+
+  it('flags an expletive that turned into a body part', () => {
+    expect(kinds(detectSanityIssues('This traffic is shit', 'Ang pwet ng traffic'))).toEqual([['expletive_mapping', 'pwet']]);
+  });
+
+  it('does not flag body parts when the original has no expletive or already names them', () => {
+    expect(detectSanityIssues('My butt hurts', 'Masakit ang pwet ko', 'My butt hurts')).toEqual([]);
+    expect(detectSanityIssues('Damn, my butt hurts', 'Grabe, masakit ang butt ko')).toEqual([]);
+  });
+
+  it('matches whole words only', () => {
+    expect(detectSanityIssues('Hello there, shitake fans', 'Class is at Sussex, bring your glass')).toEqual([]);
+    expect(detectSanityIssues('What the hell', 'Ano ba naman, passport ko')).toEqual([]);
+  });
+
+  it('matches regardless of case', () => {
+    expect(kinds(detectSanityIssues('Fine', 'SEXY'))).toEqual([['sexualization', 'sexy']]);
+  });
+});
+
+describe('mergeFlags', () => {
+  it('drops repeats of the same kind and phrase', () => {
+    const flag = { kind: 'sexualization' as const, phrase: 'libog', reason: 'a' };
+    expect(mergeFlags([flag], [{ ...flag, phrase: ' Libog ', reason: 'b' }])).toEqual([flag]);
+  });
+});
+
+describe('toVerificationResult', () => {
+  it('clamps and rounds the score and keeps well-formed entries', () => {
+    expect(toVerificationResult({
+      backTranslation: 'Good morning',
+      score: 104.6,
+      drift: [{ source: 'morning', backTranslated: 'day', issue: 'Shifted' }, { source: '  ' }, { issue: 'no source' }, 'junk'],
+      flags: [{ kind: 'sexualization', phrase: 'x' }, { kind: 'unknown', phrase: 'y' }, { kind: 'expletive_mapping' }],
+    })).toEqual({
+      backTranslation: 'Good morning',
+      score: 100,
+      drift: [{ source: 'morning', backTranslated: 'day', issue: 'Shifted' }],
+      flags: [{ kind: 'sexualization', phrase: 'x', reason: '' }],
+    });
+  });
+
+  it('scores a missing or non-numeric score as 0', () => {
+    expect(toVerificationResult({ backTranslation: 'x', score: 'high' })).toMatchObject({ score: 0, drift: [], flags: [] });
+    expect(toVerificationResult({ backTranslation: 'x', score: -5 })?.score).toBe(0);
+  });
+
+  it('rejects responses without a back-translation', () => {
+    expect(toVerificationResult(null)).toBeNull();
+    expect(toVerificationResult([])).toBeNull();
+    expect(toVerificationResult({ score: 90 })).toBeNull();
+  });
+});
+
+describe('markDrift', () => {
+  const drift = (source: string) => ({ source, backTranslated: '', issue: '' });
+
+  it('splits the text around drifted phrases, case-insensitively', () => {
+    expect(markDrift('I am so tired today', [drift('Tired')]).map(s => [s.text, !!s.drift])).toEqual([
+      ['I am so ', false],
+      ['tired', true],
+      [' today', false],
+    ]);
+  });
+
+  it('skips phrases that are missing or overlap an earlier one', () => {
+    expect(markDrift('abc def', [drift('b'), drift('zzz'), drift('abc d')]).map(s => [s.text, !!s.drift])).toEqual([
+      ['abc d', true],
+      ['ef', false],
+    ]);
+  });
+
+  it('returns the whole text when nothing drifted', () => {
+    expect(markDrift('Fine', [])).toEqual([{ text: 'Fine' }]);
+  });
+});
+
+describe('scoreLabel', () => {
+  it('labels each band', () => {
+    expect([95, 75, 50, 10].map(scoreLabel)).toEqual(['Meaning intact', 'Minor drift', 'Noticeable drift', 'Meaning lost']);
+  });
+});
@@ -0,0 +1,120 @@
+import { DriftedPhrase, SanityFlag, SanityFlagKind, VerificationResult } from "../types";
+import { isRecord, isString, recordsOf, stringOr } from "./guards";
+
+// Local half of the drift check. The model grades meaning on its own, but the two
+// failures the prompt's SANITY GUARD warns about are also caught here with word lists,
+// so they are flagged even when the model misses them or no verification pass runs.
+
+const SEXUAL_TERMS = [
+  'sex', 'sexy', 'horny', 'naked', 'nude', 'orgasm', 'erotic', 'seduce', 'aroused',
+  'kantot', 'jakol', 'libog', 'malibog', 'hubad', 'iyot', 'chupa', 'kiffy',
+];
+
+// Body parts an intensifier like "shit" must never be mapped onto.
+const ANATOMICAL_TERMS = [
+  'ass', 'butt', 'anus', 'buttocks', 'genitals', 'penis', 'vagina', 'breasts',
+  'pwet', 'puwet', 'puwit', 'tumbong', 'titi', 'burat', 'puke', 'pekpek',
+];
+
+const EXPLETIVES = ['shit', 'shitty', 'fuck', 'fucking', 'damn', 'crap', 'hell', 'bullshit'];
+
+const MAX_SCORE = 100;
+
+const words = (text: string): string[] =>
+  text.normalize('NFC').toLowerCase().match(/[\p{L}\p{N}']+/gu) || [];
+
+const findTerms = (text: string, terms: string[]): string[] => {
+  const present = new Set(words(text));
+  return terms.filter(term => present.has(term));
+};
+
+export const detectSanityIssues = (sourceText: string, translatedText: string, backTranslation = ''): SanityFlag[] => {
+  const flags: SanityFlag[] = [];
+  const output = `${translatedText} ${backTranslation}`;
+
+  if (findTerms(sourceText, SEXUAL_TERMS).length === 0) {
+    findTerms(output, SEXUAL_TERMS).forEach(phrase => flags.push({
+      kind: 'sexualization',
+      phrase,
+      reason: 'Sexual wording appears although the original is not sexual.',
+    }));
+  }
+
+  if (findTerms(sourceText, EXPLETIVES).length > 0) {
+    const inSource = new Set(findTerms(sourceText, ANATOMICAL_TERMS));
+    findTerms(output, ANATOMICAL_TERMS)
+      .filter(term => !inSource.has(term))
+      .forEach(phrase => flags.push({
+        kind: 'expletive_mapping',
+        phrase,
+        reason: 'An expletive from the original seems to have become a body part.',
+      }));
+  }
+
+  return flags;
+};
+
+export const mergeFlags = (...lists: SanityFlag[][]): SanityFlag[] => {
+  const seen = new Set<string>();
+  return lists.flat().filter(flag => {
+    const key = `${flag.kind}|${flag.phrase.trim().toLowerCase()}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const FLAG_KINDS: SanityFlagKind[] = ['sexualization', 'expletive_mapping'];
+
+const isFlagKind = (value: unknown): value is SanityFlagKind => (FLAG_KINDS as unknown[]).includes(value);
+
+// Shapes whatever the provider returned into a VerificationResult, or null if unusable.
+export const toVerificationResult = (value: unknown): VerificationResult | null => {
+  if (!isRecord(value) || !isString(value.backTranslation)) return null;
+  const score = Number(value.score);
+  return {
+    backTranslation: value.backTranslation,
+    score: Number.isFinite(score) ? Math.round(Math.min(MAX_SCORE, Math.max(0, score))) : 0,
+    drift: recordsOf(value.drift).flatMap((d): DriftedPhrase[] =>
+      isString(d.source) && d.source.trim()
+        ? [{ source: d.source, backTranslated: stringOr(d.backTranslated, ''), issue: stringOr(d.issue, '') }]
+        : []
+    ),
+    flags: recordsOf(value.flags).flatMap((f): SanityFlag[] =>
+      isFlagKind(f.kind) && isString(f.phrase) ? [{ kind: f.kind, phrase: f.phrase, reason: stringOr(f.reason, '') }] : []
+    ),
+  };
+};
+
+export interface TextSegment {
+  text: string;
+  drift?: DriftedPhrase;
+}
+
+// Splits the original input so drifted phrases can be highlighted in place. Phrases
+// the model quoted inexactly are simply not highlighted.
+export const markDrift = (text: string, drift: DriftedPhrase[]): TextSegment[] => {
+  const lower = text.toLowerCase();
+  const ranges = drift
+    .map(d => ({ start: lower.indexOf(d.source.trim().toLowerCase()), length: d.source.trim().length, drift: d }))
+    .filter(r => r.start >= 0 && r.length > 0)
+    .sort((a, b) => a.start - b.start);
+
+  const segments: TextSegment[] = [];
+  let cursor = 0;
+  ranges.forEach(range => {
+    if (range.start < cursor) return; // Overlaps an earlier phrase
+    if (range.start > cursor) segments.push({ text: text.slice(cursor, range.start) });
+    segments.push({ text: text.slice(range.start, range.start + range.length), drift: range.drift });
+    cursor = range.start + range.length;
+  });
+  if (cursor < text.length) segments.push({ text: text.slice(cursor) });
+  return segments;
+};
+
+export const scoreLabel = (score: number): string => {
+  if (score >= 90) return 'Meaning intact';
+  if (score >= 70) return 'Minor drift';
+  if (score >= 40) return 'Noticeable drift';
+  return 'Meaning lost';
+};
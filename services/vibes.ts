@@ -0,0 +1,174 @@
+import { VibeDefinition, VibeExample, VibeMode } from "../types";
+import { isRecord, isString, recordsOf, stringOr } from "./guards";
+
+// Vibes are plain data: the built-in ones ship with the app, custom ones are kept in
+// localStorage and sit next to them in every vibe selector.
+
+const CUSTOM_VIBES_KEY = 'kanto_custom_vibes';
+
+export const DEFAULT_VIBE: VibeMode = 'casual';
+
+export const BUILT_IN_VIBES: VibeDefinition[] = [
+  {
+    id: 'formal',
+    name: 'Proper',
+    description: 'Textbook / Formal',
+    instructions: `Translate using formal, grammatically perfect, and standard "textbook" {targetLang}. Use full words, no contractions, and proper sentence structure. Avoid code-switching.`,
+    examples: [],
+    bannedWords: [],
+    builtIn: true,
+  },
+  {
+    id: 'casual',
+    name: 'Real Talk',
+    description: 'Fast & Natural',
+    instructions: `Translate using "Real Talk" {targetLang}.
+- PRIORITY: Brevity and natural flow.
+- STRUCTURE: Use Predicate-First structure.
+- CONTRACTIONS: Use native shortcuts like "'yung", "'to", "dun", "n'yo".
+- VIBE: Sound like a native speaker. Drop redundant pronouns.`,
+    examples: [],
+    bannedWords: [],
+    builtIn: true,
+  },
+  {
+    id: 'taglish',
+    name: 'Urban Mix',
+    description: 'Manila / Taglish',
+    instructions: `Translate into modern "Urban Taglish" (Manila style).
+- MIXING: Seamlessly blend English and Tagalog as urban Filipinos do.
+- STYLE: Use modern inflections.
+- SLANG: Include current social media terms.
+- FLOW: It should sound like a casual chat message.`,
+    examples: [],
+    bannedWords: [],
+    builtIn: true,
+  },
+];
+
+// Starting points offered in the vibe editor; adding one makes an editable copy.
+export const VIBE_PRESETS: Omit<VibeDefinition, 'id'>[] = [
+  {
+    name: 'Bisaya-flavored',
+    description: 'Cebuano touches',
+    instructions: `Translate into casual {targetLang} the way someone from Cebu or Davao talks.
+- Sprinkle in common Bisaya words and particles ("lagi", "gyud", "bitaw", "unsa", "dili") where they sound natural.
+- Keep it understandable to a Manila listener; do not switch fully to Cebuano.
+- Keep the warm, teasing Visayan tone.`,
+    examples: [
+      { source: "Really? That's so good!", target: 'Tinuod? Lami gyud kaayo!' },
+      { source: "Let's go, we're late.", target: 'Tara na lagi, late na ta.' },
+    ],
+    bannedWords: [],
+  },
+  {
+    name: 'Gen Z TikTok',
+    description: 'Very online',
+    instructions: `Translate into very online Gen Z {targetLang}, like a TikTok caption or comment.
+- Use current Filipino internet slang ("sana all", "charot", "naur", "slay", "ate ko").
+- Short, punchy, lowercase is fine. Emojis only if the source has the same energy.
+- Never sound like a textbook.`,
+    examples: [
+      { source: 'I wish I had that too.', target: 'sana all talaga' },
+      { source: 'Just kidding!', target: 'charot!' },
+    ],
+    bannedWords: ['ay', 'tila'],
+  },
+  {
+    name: 'Polite to elders',
+    description: 'With po / opo',
+    instructions: `Translate into respectful {targetLang} for speaking to parents, grandparents, titos and titas.
+- Always use "po" and "opo" and the respectful "kayo/ninyo/inyo" forms.
+- Warm and natural, not stiff or bureaucratic.
+- Address the listener with "Lola", "Tita", "Kuya" etc. only if the source does.`,
+    examples: [
+      { source: 'Have you eaten?', target: 'Kumain na po kayo?' },
+      { source: "Yes, I'll be home later.", target: 'Opo, uuwi po ako mamaya.' },
+    ],
+    bannedWords: ['ikaw', 'mo'],
+  },
+];
+
+const toExamples = (value: unknown): VibeExample[] =>
+  recordsOf(value).flatMap(example =>
+    isString(example.source) && isString(example.target) ? [{ source: example.source, target: example.target }] : []
+  );
+
+// Anything unreadable is dropped rather than crashing the selector.
+const toVibe = (value: unknown): VibeDefinition | null => {
+  if (!isRecord(value) || !isString(value.id) || !isString(value.name) || !value.name.trim()) return null;
+  return {
+    id: value.id,
+    name: value.name,
+    description: stringOr(value.description, ''),
+    instructions: stringOr(value.instructions, ''),
+    examples: toExamples(value.examples),
+    bannedWords: Array.isArray(value.bannedWords) ? value.bannedWords.filter(isString) : [],
+    updatedAt: typeof value.updatedAt === 'number' ? value.updatedAt : 0,
+  };
+};
+
+export const loadCustomVibes = (): VibeDefinition[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(CUSTOM_VIBES_KEY) || '[]');
+    return Array.isArray(stored) ? stored.map(toVibe).filter((v): v is VibeDefinition => v !== null) : [];
+  } catch {
+    return [];
+  }
+};
+
+const storeCustomVibes = (vibes: VibeDefinition[]) => {
+  localStorage.setItem(CUSTOM_VIBES_KEY, JSON.stringify(vibes));
+};
+
+export const getVibes = (): VibeDefinition[] => [...BUILT_IN_VIBES, ...loadCustomVibes()];
+
+// Unknown ids (a deleted custom vibe, an old import) fall back to the default vibe.
+export const getVibe = (id: VibeMode): VibeDefinition =>
+  getVibes().find(vibe => vibe.id === id) || BUILT_IN_VIBES.find(vibe => vibe.id === DEFAULT_VIBE)!;
+
+// Display label for a stored vibe id, including ids from vibes that were deleted since.
+export const vibeName = (id: VibeMode): string =>
+  getVibes().find(vibe => vibe.id === id)?.name || 'Custom vibe';
+
+export const createVibeDraft = (from?: Omit<VibeDefinition, 'id'>): VibeDefinition => ({
+  name: '',
+  description: '',
+  instructions: '',
+  examples: [],
+  bannedWords: [],
+  ...from,
+  id: crypto.randomUUID(),
+  builtIn: undefined,
+});
+
+// Inserts or replaces by id and returns the new list of custom vibes.
+export const saveCustomVibe = (vibe: VibeDefinition): VibeDefinition[] => {
+  const saved: VibeDefinition = {
+    ...vibe,
+    name: vibe.name.trim(),
+    description: vibe.description.trim(),
+    instructions: vibe.instructions.trim(),
+    examples: vibe.examples.filter(example => example.source.trim() && example.target.trim()),
+    bannedWords: vibe.bannedWords.map(word => word.trim()).filter(Boolean),
+    builtIn: undefined,
+    updatedAt: Date.now(),
+  };
+  const current = loadCustomVibes();
+  const next = current.some(v => v.id === saved.id)
+    ? current.map(v => (v.id === saved.id ? saved : v))
+    : [...current, saved];
+  storeCustomVibes(next);
+  return next;
+};
+
+export const deleteCustomVibe = (id: VibeMode): VibeDefinition[] => {
+  const next = loadCustomVibes().filter(v => v.id !== id);
+  storeCustomVibes(next);
+  return next;
+};
+
+// Cache identity for a vibe: editing a custom vibe must not serve answers written
+// under its old instructions.
+export const vibeCacheId = (vibe: VibeDefinition): string =>
+  vibe.builtIn ? vibe.id : `${vibe.id}@${vibe.updatedAt || 0}`;
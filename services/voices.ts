@@ -0,0 +1,48 @@
+import { LanguageCode } from "../types";
+import { defaultVoice } from "./languages";
+
+// Voice and speed preferences for read-aloud. The voice is picked per target
+// language and falls back to the registry's default for that language.
+
+const VOICES_KEY = 'kanto_setting_tts_voices';
+const SPEECH_RATE_KEY = 'kanto_setting_speech_rate';
+
+export const DEFAULT_VOICE = 'Kore';
+
+export const TTS_VOICES: { id: string; description: string }[] = [
+  { id: 'Kore', description: 'Firm' },
+  { id: 'Puck', description: 'Upbeat' },
+  { id: 'Charon', description: 'Informative' },
+  { id: 'Fenrir', description: 'Excitable' },
+  { id: 'Aoede', description: 'Breezy' },
+  { id: 'Leda', description: 'Youthful' },
+  { id: 'Orus', description: 'Steady' },
+  { id: 'Zephyr', description: 'Bright' },
+];
+
+export const SPEECH_RATES = [0.5, 0.75, 1, 1.25, 1.5];
+
+const loadVoices = (): Record<LanguageCode, string> => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(VOICES_KEY) || '{}');
+    return saved && typeof saved === 'object' ? saved : {};
+  } catch {
+    return {};
+  }
+};
+
+export const getPreferredVoice = (language: LanguageCode): string =>
+  loadVoices()[language] || defaultVoice(language) || DEFAULT_VOICE;
+
+export const setPreferredVoice = (language: LanguageCode, voice: string) => {
+  localStorage.setItem(VOICES_KEY, JSON.stringify({ ...loadVoices(), [language]: voice }));
+};
+
+export const getSpeechRate = (): number => {
+  const saved = Number(localStorage.getItem(SPEECH_RATE_KEY));
+  return SPEECH_RATES.includes(saved) ? saved : 1;
+};
+
+export const setSpeechRate = (rate: number) => {
+  localStorage.setItem(SPEECH_RATE_KEY, String(rate));
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { diffTranslations } from './wordDiff';
+
+const distinctWords = (texts: string[]) =>
+  diffTranslations(texts).map(tokens => tokens.filter(token => token.distinct).map(token => token.text));
+
+describe('diffTranslations', () => {
+  it('marks words that another translation does not use', () => {
+    expect(distinctWords(['Kumusta ka, pre?', 'Kumusta po kayo?'])).toEqual([['ka', 'pre'], ['po', 'kayo']]);
+  });
+
+  it('keeps every token so the text can be rebuilt', () => {
+    const texts = ['Hello there, friend!', 'Hi, friend.'];
+    expect(diffTranslations(texts).map(tokens => tokens.map(token => token.text).join(''))).toEqual(texts);
+  });
+
+  it('ignores case, normal form and curly apostrophes', () => {
+    expect(distinctWords(['Don’t go to the CAFÉ', "don't go to the cafe\u0301"])).toEqual([[], []]);
+  });
+
+  it('marks a word shared by only some of the translations', () => {
+    expect(distinctWords(['a b', 'a b', 'a c'])).toEqual([['b'], ['b'], ['c']]);
+  });
+
+  it('segments unspaced scripts into words', () => {
+    const [tokens] = diffTranslations(['私は学生です', '私は先生です']);
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.filter(token => token.distinct).map(token => token.text).join('')).toContain('学生');
+  });
+});
@@ -0,0 +1,27 @@
+// Word-level comparison of several translations of the same text. A word is marked
+// distinct when at least one of the other translations does not use it, which is
+// where the registers actually differ.
+
+export interface DiffToken {
+  text: string;
+  distinct: boolean;
+}
+
+const segmenter = new Intl.Segmenter(undefined, { granularity: 'word' });
+
+const normalizeWord = (word: string) => word.normalize('NFC').toLowerCase().replace(/[’‘]/g, "'");
+
+const tokenize = (text: string) =>
+  Array.from(segmenter.segment(text), segment => ({ text: segment.segment, isWord: !!segment.isWordLike }));
+
+export const diffTranslations = (texts: string[]): DiffToken[][] => {
+  const tokenized = texts.map(tokenize);
+  const vocabularies = tokenized.map(tokens => new Set(tokens.filter(t => t.isWord).map(t => normalizeWord(t.text))));
+
+  return tokenized.map((tokens, i) =>
+    tokens.map(token => ({
+      text: token.text,
+      distinct: token.isWord && vocabularies.some((words, j) => j !== i && !words.has(normalizeWord(token.text))),
+    }))
+  );
+};
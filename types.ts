@@ -5,16 +5,119 @@ export interface SlangDetail {
   context: string;
 }
 
+export interface TranslationAlternative {
+  translatedText: string;
+  transliteration?: string;
+  vibe: string;
+  note: string; // When you'd pick this one over the main translation
+}
+
+// A fixed term for one language pair. `sourceLang` may be ANY_LANGUAGE ('*').
+export interface TermRule {
+  id: string;
+  sourceLang: string;
+  targetLang: string;
+  source: string;
+  target: string; // Required rendering; unused when doNotTranslate is set
+  caseSensitive: boolean;
+  doNotTranslate: boolean; // Brand names etc. must appear exactly as written
+  createdAt: number;
+}
+
+export interface TermViolation {
+  source: string;
+  expected: string;
+}
+
 export interface TranslationResult {
   translatedText: string;
   explanation: string;
   slangUsed: SlangDetail[];
   vibe: string;
   transliteration?: string; // Phonetic guide for symbol-based languages
+  segments?: PronunciationSegment[]; // translatedText split into words/phrases, for pronunciation practice
   detectedLanguage?: string; // The language detected if 'auto' was used
+  alternatives?: TranslationAlternative[]; // Other good renderings, best first
+  termViolations?: TermViolation[]; // Terminology rules the output did not follow
+}
+
+export interface PronunciationSegment {
+  text: string;
+  transliteration: string;
+}
+
+export type SanityFlagKind = 'sexualization' | 'expletive_mapping';
+
+export interface SanityFlag {
+  kind: SanityFlagKind;
+  phrase: string; // Offending wording in the translation
+  reason: string;
+}
+
+export interface DriftedPhrase {
+  source: string;         // Phrase from the original input
+  backTranslated: string; // What it turned into after the round trip
+  issue: string;          // Lost nuance, added meaning, wrong register...
+}
+
+export interface VerificationResult {
+  backTranslation: string;
+  score: number; // 0-100: how much of the original meaning survived
+  drift: DriftedPhrase[];
+  flags: SanityFlag[];
+}
+
+// Id of a built-in or user-defined vibe; see services/vibes.ts.
+export type VibeMode = string;
+
+export interface VibeExample {
+  source: string;
+  target: string;
+}
+
+export interface VibeDefinition {
+  id: VibeMode;
+  name: string;
+  description: string; // Short subtitle shown under the name in the selector
+  instructions: string; // Style prompt; "{targetLang}" is replaced with the target language
+  examples: VibeExample[];
+  bannedWords: string[];
+  builtIn?: boolean;
+  updatedAt?: number;
+}
+
+export interface ContextTurn {
+  source: string;
+  target: string;
+}
+
+export interface SubtitleContext {
+  before: string[]; // Text of the preceding cues, oldest first
+  after: string[];  // Text of the following cues
+  maxLineLength?: number;
 }
 
-export type VibeMode = 'formal' | 'casual' | 'taglish';
+export interface TranslationContext {
+  previousTurns?: ContextTurn[];
+  situation?: string; // Free-text note, e.g. "texting my tita"
+  audience?: string;  // Who will read the translation, e.g. "my boss"
+  subtitle?: SubtitleContext; // Set when the text is one cue of a subtitle file
+  terminology?: TermRule[]; // Added by the service for rules whose term occurs in the text
+}
+
+export type Speaker = 'a' | 'b';
+
+export interface ConversationMessage {
+  id: string;
+  timestamp: number;
+  speaker: Speaker;
+  inputText: string;
+  sourceLang: string;
+  targetLang: string;
+  vibeMode: VibeMode;
+  result?: TranslationResult;
+  errorKey?: string;
+}
 
 export interface HistoryItem {
   id: string;
@@ -24,9 +127,30 @@ export interface HistoryItem {
   targetLang: string;
   vibeMode: VibeMode;
   result: TranslationResult;
+  targets?: TargetTranslation[]; // Other targets translated in the same request; restored together
 }
 
-export type LanguageCode = 'auto' | 'en' | 'tl' | 'es' | 'ja' | 'ko' | 'fr' | 'zh';
+export interface TargetTranslation {
+  targetLang: string;
+  result: TranslationResult;
+}
+
+export interface PhrasebookCollection {
+  id: string;
+  name: string; // e.g. "Jeepney", "Palengke", "Office"
+  createdAt: number;
+}
+
+export interface PhrasebookEntry {
+  id: string;
+  collectionId: string;
+  savedAt: number;
+  note: string;
+  tags: string[];
+  item: HistoryItem; // The translation as it was saved; restored like any history entry
+}
+
+export type LanguageCode = string; // 'auto' or a code from the language registry
 
 export type ThemeType = 'indigo' | 'rose' | 'emerald' | 'amber';
 
@@ -45,20 +169,18 @@ export const THEMES: ThemeConfig[] = [
   { id: 'amber', primary: 'amber-500', secondary: 'amber-600', accent: 'amber-400', glow: 'bg-amber-600/20' },
 ];
 
+export type LanguageScript = 'latin' | 'japanese' | 'hangul' | 'han';
+
+export type LanguageGroup = 'philippines' | 'asia' | 'global';
+
 export interface Language {
-  code: string;
+  code: LanguageCode;
   name: string;
   flag: string;
-  isSymbolBased?: boolean;
-}
-
-export const LANGUAGES: Language[] = [
-  { code: 'auto', name: 'Auto-detect', flag: '✨' },
-  { code: 'tl', name: 'Tagalog/Filipino', flag: '🇵🇭' },
-  { code: 'en', name: 'English', flag: '🇺🇸' },
-  { code: 'es', name: 'Spanish', flag: '🇪🇸' },
-  { code: 'ja', name: 'Japanese', flag: '🇯🇵', isSymbolBased: true },
-  { code: 'ko', name: 'Korean', flag: '🇰🇷', isSymbolBased: true },
-  { code: 'fr', name: 'French', flag: '🇫🇷' },
-  { code: 'zh', name: 'Chinese', flag: '🇨🇳', isSymbolBased: true },
-];
+  group: LanguageGroup;
+  script: LanguageScript;
+  romanization?: string; // Phonetic system shown under non-Latin scripts, e.g. Pinyin
+  vibes?: VibeMode[]; // Built-in vibes that make sense for this language; omitted means all
+  voice: string; // Default TTS voice
+  aliases?: string[]; // Other names people search for, e.g. Bisaya
+}